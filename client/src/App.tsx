@@ -8,6 +8,7 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { useAuth } from "@/hooks/useAuth";
 import { SchoolProvider, useSchool } from "@/contexts/school-context";
 import { SchoolSwitcher } from "@/components/school-switcher";
+import { NotificationsMenu } from "@/components/notifications-menu";
 import NotFound from "@/pages/not-found";
 import LoginPage from "@/pages/login-page";
 import RegisterPage from "@/pages/register-page";
@@ -24,6 +25,7 @@ import FolderDetailPage from "@/pages/folder-detail-page";
 import FinancialPage from "@/pages/financial-page";
 import SmartAnalyticsPage from "@/pages/smart-analytics-page";
 import KlimaatPage from "@/pages/klimaat-page";
+import PublicReportPage from "@/pages/public-report-page";
 import { useQuery } from "@tanstack/react-query";
 import type { School } from "@shared/schema";
 import type { PageKey } from "@shared/permissions";
@@ -88,6 +90,7 @@ function RouterContent() {
       {/* Public routes */}
       <Route path="/login" component={LoginPage} />
       <Route path="/register" component={RegisterPage} />
+      <Route path="/melden/:token" component={PublicReportPage} />
       
       {/* Protected routes */}
       <Route path="/no-access">
@@ -253,7 +256,10 @@ function MainLayoutWithRoutes({ user }: { user: any }) {
               data-testid="header-logo"
             />
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-1">
+            <NotificationsMenu />
+            <ThemeToggle />
+          </div>
         </header>
 
         <main className="flex-1 overflow-y-auto">
@@ -0,0 +1,254 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, X } from "lucide-react";
+import { addMonths, endOfDay, format, isSameDay } from "date-fns";
+import { nl } from "date-fns/locale";
+import { getMentionName, type MentionUser } from "@/components/mention-textarea";
+import { expandAppointments, getOccurrenceKey, type AppointmentWithExceptions, type RecurrenceFormState } from "@/components/appointment-recurrence";
+import { getOccurrences } from "@shared/recurrence";
+import type { AppointmentParticipant, AppointmentParticipantInput, ContactData } from "@shared/schema";
+
+export type AppointmentWithParticipants = AppointmentWithExceptions & { participants?: AppointmentParticipant[] };
+
+interface ParticipantOption extends AppointmentParticipantInput {
+  key: string;
+  name: string;
+  detail: string | null;
+}
+
+const getParticipantKey = (participant: AppointmentParticipantInput) =>
+  participant.contactId ? `contact:${participant.contactId}` : `user:${participant.userId}`;
+
+export const toParticipantInputs = (appointment: AppointmentWithParticipants): AppointmentParticipantInput[] =>
+  (appointment.participants ?? []).map(({ contactId, userId }) => ({ contactId, userId }));
+
+// Contacts and users of the active school that can take part in an appointment
+export function useParticipantOptions() {
+  const { data: contacts = [] } = useQuery<ContactData[]>({
+    queryKey: ["/api/contact-data"],
+  });
+
+  const { data: users = [] } = useQuery<MentionUser[]>({
+    queryKey: ["/api/school-users"],
+  });
+
+  const contactOptions: ParticipantOption[] = contacts.map(contact => ({
+    key: `contact:${contact.id}`,
+    contactId: contact.id,
+    userId: null,
+    name: contact.name,
+    detail: contact.company || contact.role,
+  }));
+  const userOptions: ParticipantOption[] = users.map(user => ({
+    key: `user:${user.id}`,
+    contactId: null,
+    userId: user.id,
+    name: getMentionName(user),
+    detail: null,
+  }));
+  const byKey = new Map([...contactOptions, ...userOptions].map(option => [option.key, option]));
+
+  return {
+    contactOptions,
+    userOptions,
+    getParticipantName: (participant: AppointmentParticipantInput) =>
+      byKey.get(getParticipantKey(participant))?.name ?? "Onbekend",
+  };
+}
+
+interface ParticipantPickerProps {
+  value: AppointmentParticipantInput[];
+  onChange: (value: AppointmentParticipantInput[]) => void;
+  testIdPrefix?: string;
+}
+
+export function ParticipantPicker({ value, onChange, testIdPrefix = "appointment" }: ParticipantPickerProps) {
+  const { contactOptions, userOptions, getParticipantName } = useParticipantOptions();
+  const selectedKeys = new Set(value.map(getParticipantKey));
+  const availableContacts = contactOptions.filter(option => !selectedKeys.has(option.key));
+  const availableUsers = userOptions.filter(option => !selectedKeys.has(option.key));
+
+  const handleAdd = (key: string) => {
+    const option = [...contactOptions, ...userOptions].find(o => o.key === key);
+    if (option) onChange([...value, { contactId: option.contactId, userId: option.userId }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(participant => (
+            <Badge key={getParticipantKey(participant)} variant="secondary" className="gap-1 pr-1">
+              {getParticipantName(participant)}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(p => getParticipantKey(p) !== getParticipantKey(participant)))}
+                className="rounded-sm hover:bg-muted-foreground/20"
+                aria-label="Deelnemer verwijderen"
+                data-testid={`button-remove-${testIdPrefix}-participant-${participant.contactId ?? participant.userId}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      {/* Empty value resets the select to its placeholder after each pick */}
+      <Select value="" onValueChange={handleAdd}>
+        <SelectTrigger data-testid={`select-${testIdPrefix}-participant`}>
+          <SelectValue placeholder="Deelnemer toevoegen" />
+        </SelectTrigger>
+        <SelectContent>
+          {availableContacts.length === 0 && availableUsers.length === 0 && (
+            <div className="p-2 text-sm text-muted-foreground">Geen contacten of gebruikers beschikbaar</div>
+          )}
+          {availableContacts.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Contacten</SelectLabel>
+              {availableContacts.map(option => (
+                <SelectItem key={option.key} value={option.key}>
+                  {option.detail ? `${option.name} (${option.detail})` : option.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+          {availableUsers.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Gebruikers</SelectLabel>
+              {availableUsers.map(option => (
+                <SelectItem key={option.key} value={option.key}>{option.name}</SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export interface AppointmentConflict {
+  appointment: AppointmentWithParticipants;
+  reasons: string[];
+}
+
+// Appointment as filled in the dialog
+interface ConflictCandidate {
+  // Set when editing; other occurrences of the same series are not conflicts
+  id: string | null;
+  startDate: Date;
+  endDate: Date;
+  // Repeat rule of the dialog; the occurrences within CONFLICT_HORIZON_MONTHS are checked
+  recurrence: RecurrenceFormState | null;
+  roomId: string | null;
+  location: string | null;
+  participants: AppointmentParticipantInput[];
+}
+
+// How far ahead the occurrences of a recurring candidate are checked
+const CONFLICT_HORIZON_MONTHS = 12;
+
+const normalizeLocation = (location: string | null) => location?.trim().toLowerCase() || null;
+
+// Appointments without duration still occupy the minute they start in
+const getEnd = (startDate: Date, endDate: Date) => Math.max(endDate.getTime(), startDate.getTime() + 60000);
+
+// Start and end of each occurrence of the candidate, or just the candidate when it does not repeat
+function getCandidateRanges(candidate: ConflictCandidate): Array<{ start: number; end: number }> {
+  const duration = getEnd(candidate.startDate, candidate.endDate) - candidate.startDate.getTime();
+  const recurrence = candidate.recurrence;
+  if (!recurrence || recurrence.unit === "none") {
+    return [{ start: candidate.startDate.getTime(), end: candidate.startDate.getTime() + duration }];
+  }
+
+  return getOccurrences(
+    {
+      intervalUnit: recurrence.unit,
+      intervalCount: Math.max(1, parseInt(recurrence.interval) || 1),
+      startDate: candidate.startDate,
+      endDate: recurrence.end === "until" && recurrence.until ? endOfDay(recurrence.until) : null,
+      count: recurrence.end === "count" ? Math.max(1, parseInt(recurrence.count) || 1) : null,
+    },
+    [],
+    candidate.startDate,
+    addMonths(candidate.startDate, CONFLICT_HORIZON_MONTHS),
+  ).map(occurrence => ({ start: occurrence.date.getTime(), end: occurrence.date.getTime() + duration }));
+}
+
+/**
+ * Finds appointments overlapping the candidate, or one of its occurrences, that share a
+ * participant, the room or, for appointments without room, the location.
+ */
+export function findAppointmentConflicts(
+  appointments: AppointmentWithParticipants[],
+  candidate: ConflictCandidate,
+  getParticipantName: (participant: AppointmentParticipantInput) => string,
+): AppointmentConflict[] {
+  const ranges = getCandidateRanges(candidate);
+  if (ranges.length === 0) return [];
+  const participantKeys = new Set(candidate.participants.map(getParticipantKey));
+  const location = normalizeLocation(candidate.location);
+
+  return expandAppointments(appointments, new Date(ranges[0].start), new Date(ranges[ranges.length - 1].end))
+    .filter(appointment => {
+      if (candidate.id && (appointment.id === candidate.id || appointment.seriesId === candidate.id)) return false;
+      const otherStart = new Date(appointment.startDate).getTime();
+      const otherEnd = getEnd(new Date(appointment.startDate), new Date(appointment.endDate));
+      return ranges.some(range => otherStart < range.end && otherEnd > range.start);
+    })
+    .map(appointment => {
+      const reasons: string[] = [];
+      const shared = toParticipantInputs(appointment).filter(p => participantKeys.has(getParticipantKey(p)));
+      if (shared.length > 0) {
+        reasons.push(`${shared.map(getParticipantName).join(", ")} al ingepland`);
+      }
+      if (candidate.roomId && appointment.roomId === candidate.roomId) {
+        reasons.push("Zelfde ruimte");
+      } else if (!candidate.roomId && !appointment.roomId && location && normalizeLocation(appointment.location) === location) {
+        reasons.push("Zelfde locatie");
+      }
+      return { appointment, reasons };
+    })
+    .filter(conflict => conflict.reasons.length > 0);
+}
+
+const formatAppointmentTime = (appointment: AppointmentWithParticipants) => {
+  const start = new Date(appointment.startDate);
+  const end = new Date(appointment.endDate);
+  if (appointment.isAllDay) {
+    return isSameDay(start, end)
+      ? format(start, "d MMM", { locale: nl })
+      : `${format(start, "d MMM", { locale: nl })} - ${format(end, "d MMM", { locale: nl })}`;
+  }
+  return isSameDay(start, end)
+    ? `${format(start, "d MMM HH:mm", { locale: nl })} - ${format(end, "HH:mm")}`
+    : `${format(start, "d MMM HH:mm", { locale: nl })} - ${format(end, "d MMM HH:mm", { locale: nl })}`;
+};
+
+// Warning in the appointment dialog; saving is still allowed
+export function AppointmentConflictWarning({ conflicts }: { conflicts: AppointmentConflict[] }) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="border border-destructive/40 bg-destructive/5 rounded-md p-3 space-y-2" data-testid="appointment-conflicts">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <AlertTriangle className="h-4 w-4 text-destructive" />
+        {conflicts.length === 1 ? "Overlapt met een andere afspraak" : `Overlapt met ${conflicts.length} andere afspraken`}
+      </div>
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {conflicts.map(({ appointment, reasons }) => (
+          <div
+            key={getOccurrenceKey(appointment)}
+            className="p-2 bg-background border rounded-md"
+            data-testid={`appointment-conflict-${getOccurrenceKey(appointment)}`}
+          >
+            <p className="text-sm font-medium truncate">{appointment.title}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatAppointmentTime(appointment)} · {reasons.join(" · ")}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
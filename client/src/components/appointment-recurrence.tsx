@@ -0,0 +1,288 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { format, endOfDay } from "date-fns";
+import { nl } from "date-fns/locale";
+import { DatePicker } from "@/components/date-picker";
+import { getOccurrences, formatInterval, toDayKey, INTERVAL_UNIT_LABELS, type IntervalUnit } from "@shared/recurrence";
+import type { Appointment, AppointmentException, AppointmentScope, ClientInsertAppointment } from "@shared/schema";
+
+export type AppointmentWithExceptions = Appointment & { exceptions?: AppointmentException[] };
+
+type RecurrenceEnd = "never" | "until" | "count";
+
+export interface RecurrenceFormState {
+  unit: IntervalUnit | "none";
+  interval: string;
+  end: RecurrenceEnd;
+  until: Date | null;
+  count: string;
+}
+
+type RecurrencePayload = Pick<ClientInsertAppointment, "recurrenceUnit" | "recurrenceInterval" | "recurrenceUntil" | "recurrenceCount">;
+
+export const emptyRecurrence: RecurrenceFormState = {
+  unit: "none",
+  interval: "1",
+  end: "never",
+  until: null,
+  count: "10",
+};
+
+const unitLabels: Record<IntervalUnit, string> = {
+  day: "Dagelijks",
+  week: "Wekelijks",
+  month: "Maandelijks",
+  year: "Jaarlijks",
+};
+
+export const isRecurring = (appointment: Appointment) => !!appointment.recurrenceUnit;
+
+// Occurrences are identified by their series and generated date; single appointments by id
+export const getOccurrenceKey = (appointment: Appointment) =>
+  isRecurring(appointment) && appointment.occurrenceDate
+    ? `${appointment.id}-${toDayKey(appointment.occurrenceDate)}`
+    : appointment.id;
+
+/**
+ * Expands recurring appointments into their occurrences within [from, to]. Each occurrence
+ * keeps the fields of its series, with start and end moved and occurrenceDate set to the
+ * generated date. Single appointments are returned unchanged.
+ */
+export function expandAppointments<T extends AppointmentWithExceptions>(appointments: T[], from: Date, to: Date): T[] {
+  // Occurrences edited on their own replace the generated ones
+  const detached = new Set(
+    appointments
+      .filter(a => a.seriesId && a.occurrenceDate)
+      .map(a => `${a.seriesId}:${toDayKey(a.occurrenceDate!)}`)
+  );
+
+  return appointments.flatMap(appointment => {
+    if (!appointment.recurrenceUnit) return [appointment];
+
+    const duration = new Date(appointment.endDate).getTime() - new Date(appointment.startDate).getTime();
+    const exceptions = (appointment.exceptions ?? []).map(exception => ({
+      id: exception.id,
+      occurrenceDate: exception.occurrenceDate,
+      type: "skip" as const,
+    }));
+
+    // Start earlier so multi-day occurrences that began before the range are included
+    return getOccurrences(
+      {
+        intervalUnit: appointment.recurrenceUnit,
+        intervalCount: appointment.recurrenceInterval,
+        startDate: appointment.startDate,
+        endDate: appointment.recurrenceUntil,
+        count: appointment.recurrenceCount,
+      },
+      exceptions,
+      new Date(from.getTime() - duration),
+      to,
+    )
+      .filter(occurrence => !occurrence.skipped && !detached.has(`${appointment.id}:${toDayKey(occurrence.occurrenceDate)}`))
+      .map(occurrence => ({
+        ...appointment,
+        startDate: occurrence.date,
+        endDate: new Date(occurrence.date.getTime() + duration),
+        occurrenceDate: occurrence.occurrenceDate,
+      }));
+  });
+}
+
+// E.g. "Elke 2 weken, tot 1 jul 2027"
+export function formatRecurrence(appointment: Appointment): string | null {
+  if (!appointment.recurrenceUnit) return null;
+  const interval = formatInterval(appointment.recurrenceUnit, appointment.recurrenceInterval);
+  if (appointment.recurrenceUntil) {
+    return `${interval}, tot ${format(new Date(appointment.recurrenceUntil), "d MMM yyyy", { locale: nl })}`;
+  }
+  if (appointment.recurrenceCount) {
+    return `${interval}, ${appointment.recurrenceCount} keer`;
+  }
+  return interval;
+}
+
+export function toRecurrenceForm(appointment: Appointment): RecurrenceFormState {
+  if (!appointment.recurrenceUnit) return emptyRecurrence;
+  return {
+    unit: appointment.recurrenceUnit,
+    interval: appointment.recurrenceInterval.toString(),
+    end: appointment.recurrenceUntil ? "until" : appointment.recurrenceCount ? "count" : "never",
+    until: appointment.recurrenceUntil ? new Date(appointment.recurrenceUntil) : null,
+    count: appointment.recurrenceCount?.toString() ?? emptyRecurrence.count,
+  };
+}
+
+export function toRecurrencePayload(form: RecurrenceFormState): RecurrencePayload {
+  if (form.unit === "none") {
+    return { recurrenceUnit: null, recurrenceInterval: 1, recurrenceUntil: null, recurrenceCount: null };
+  }
+  return {
+    recurrenceUnit: form.unit,
+    recurrenceInterval: Math.max(1, parseInt(form.interval) || 1),
+    // Until is inclusive: occurrences later on that day still count
+    recurrenceUntil: form.end === "until" && form.until ? endOfDay(form.until) : null,
+    recurrenceCount: form.end === "count" ? Math.max(1, parseInt(form.count) || 1) : null,
+  };
+}
+
+// Returns an error message for an incomplete rule
+export function validateRecurrence(form: RecurrenceFormState, startDate: Date): string | null {
+  if (form.unit === "none") return null;
+  if (form.end === "until" && (!form.until || endOfDay(form.until) < startDate)) {
+    return "Kies een einddatum voor de herhaling op of na de startdatum";
+  }
+  return null;
+}
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceFormState;
+  onChange: (value: RecurrenceFormState) => void;
+  testIdPrefix: string;
+}
+
+export function RecurrenceFields({ value, onChange, testIdPrefix }: RecurrenceFieldsProps) {
+  const unitLabel = value.unit !== "none" ? INTERVAL_UNIT_LABELS[value.unit] : null;
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Herhalen</Label>
+          <Select value={value.unit} onValueChange={(unit) => onChange({ ...value, unit: unit as RecurrenceFormState["unit"] })}>
+            <SelectTrigger data-testid={`select-${testIdPrefix}-recurrence-unit`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Niet herhalen</SelectItem>
+              {(Object.keys(unitLabels) as IntervalUnit[]).map(unit => (
+                <SelectItem key={unit} value={unit}>{unitLabels[unit]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {unitLabel && (
+          <div className="space-y-2">
+            <Label htmlFor={`${testIdPrefix}-recurrence-interval`}>Elke</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id={`${testIdPrefix}-recurrence-interval`}
+                type="number"
+                min="1"
+                value={value.interval}
+                onChange={(e) => onChange({ ...value, interval: e.target.value })}
+                className="w-20"
+                data-testid={`input-${testIdPrefix}-recurrence-interval`}
+              />
+              <span className="text-sm text-muted-foreground">
+                {value.interval === "1" ? unitLabel.singular : unitLabel.plural}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {unitLabel && (
+        <div className="space-y-2">
+          <Label>Eindigt</Label>
+          <RadioGroup value={value.end} onValueChange={(end) => onChange({ ...value, end: end as RecurrenceEnd })} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="never" id={`${testIdPrefix}-recurrence-never`} />
+              <Label htmlFor={`${testIdPrefix}-recurrence-never`} className="font-normal">Nooit</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="until" id={`${testIdPrefix}-recurrence-until`} />
+              <Label htmlFor={`${testIdPrefix}-recurrence-until`} className="font-normal">Op</Label>
+              {value.end === "until" && (
+                <DatePicker
+                  value={value.until}
+                  onChange={(until) => onChange({ ...value, until })}
+                  placeholder="dd-mm-jjjj"
+                  testId={`input-${testIdPrefix}-recurrence-until`}
+                />
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="count" id={`${testIdPrefix}-recurrence-count`} />
+              <Label htmlFor={`${testIdPrefix}-recurrence-count`} className="font-normal">Na</Label>
+              {value.end === "count" && (
+                <>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={value.count}
+                    onChange={(e) => onChange({ ...value, count: e.target.value })}
+                    className="w-20"
+                    data-testid={`input-${testIdPrefix}-recurrence-count`}
+                  />
+                  <span className="text-sm text-muted-foreground">keer</span>
+                </>
+              )}
+            </div>
+          </RadioGroup>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const scopeLabels: Record<AppointmentScope, string> = {
+  this: "Alleen deze afspraak",
+  following: "Deze en volgende afspraken",
+  all: "Alle afspraken in de reeks",
+};
+
+interface RecurrenceScopeDialogProps {
+  // Dialog is open while an action is set
+  action: "edit" | "delete" | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (scope: AppointmentScope) => void;
+  isPending?: boolean;
+}
+
+// Asks which occurrences of a recurring appointment an edit or delete applies to
+export function RecurrenceScopeDialog({ action, onOpenChange, onConfirm, isPending }: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<AppointmentScope>("this");
+
+  useEffect(() => {
+    if (action) setScope("this");
+  }, [action]);
+
+  return (
+    <AlertDialog open={action !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {action === "delete" ? "Terugkerende afspraak verwijderen" : "Terugkerende afspraak bewerken"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {action === "delete" ? "Welke afspraken wil je verwijderen?" : "Op welke afspraken moeten de wijzigingen worden toegepast?"}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup value={scope} onValueChange={(value) => setScope(value as AppointmentScope)} className="space-y-2">
+          {(Object.keys(scopeLabels) as AppointmentScope[]).map(value => (
+            <div key={value} className="flex items-center gap-2">
+              <RadioGroupItem value={value} id={`recurrence-scope-${value}`} data-testid={`radio-recurrence-scope-${value}`} />
+              <Label htmlFor={`recurrence-scope-${value}`} className="font-normal">{scopeLabels[value]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending} data-testid="button-cancel-recurrence-scope">Annuleren</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onConfirm(scope)}
+            disabled={isPending}
+            className={action === "delete" ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : ""}
+            data-testid="button-confirm-recurrence-scope"
+          >
+            {action === "delete" ? "Verwijderen" : "Opslaan"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
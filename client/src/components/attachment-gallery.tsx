@@ -0,0 +1,313 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, FileText, X, Download, Loader2, Paperclip } from "lucide-react";
+import type { Document, LegacyAttachmentMigrationResult } from "@shared/schema";
+
+export type AttachmentEntityType = "maintenance" | "reports" | "report-comments";
+
+interface AttachmentGalleryProps {
+  entityType: AttachmentEntityType;
+  // Null while the task/report is being created: files are queued and uploaded after creation
+  entityId: string | null;
+  pendingFiles: File[];
+  onPendingFilesChange: (files: File[]) => void;
+}
+
+const getDocumentsKey = (entityType: AttachmentEntityType, entityId: string) =>
+  `/api/${entityType}/${entityId}/documents`;
+
+// Uploads files as documents linked to a task or report (module = entityType, entityId = id)
+export async function uploadAttachments(entityType: AttachmentEntityType, entityId: string, files: File[]) {
+  for (const file of files) {
+    const formData = new FormData();
+    formData.append("file", file);
+    const response = await apiRequest("POST", getDocumentsKey(entityType, entityId), formData);
+    if (!response.ok) throw new Error("Upload failed");
+  }
+  queryClient.invalidateQueries({ queryKey: [getDocumentsKey(entityType, entityId)] });
+  queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+}
+
+const fetchDocumentBlob = async (documentId: string) => {
+  const response = await fetch(`/api/documents/${documentId}/download`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Download failed");
+  return response.blob();
+};
+
+// Opens images and PDFs in a new tab, downloads other files
+export async function openDocument(doc: Document) {
+  const blob = await fetchDocumentBlob(doc.id);
+  const url = window.URL.createObjectURL(blob);
+  if (doc.mimeType.startsWith("image/") || doc.mimeType === "application/pdf") {
+    window.open(url, "_blank", "noopener,noreferrer");
+    setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+    return;
+  }
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = doc.originalName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+// Thumbnail for an image document or a queued image file; falls back to a file icon
+export function Thumbnail({ document, file }: { document?: Document; file?: File }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const mimeType = document?.mimeType ?? file?.type ?? "";
+
+  useEffect(() => {
+    if (!mimeType.startsWith("image/")) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const blob = file ?? (document ? await fetchDocumentBlob(document.id) : null);
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      } catch {
+        // Keep the file icon when the preview cannot be loaded
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [document?.id, file, mimeType]);
+
+  if (url) {
+    return <img src={url} alt={document?.originalName ?? file?.name ?? ""} className="h-full w-full object-cover" />;
+  }
+  return <FileText className="h-8 w-8 text-muted-foreground" />;
+}
+
+export function AttachmentGallery({
+  entityType,
+  entityId,
+  pendingFiles,
+  onPendingFilesChange,
+}: AttachmentGalleryProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const { data: documents = [], isLoading } = useQuery<Document[]>({
+    queryKey: [getDocumentsKey(entityType, entityId ?? "")],
+    enabled: !!entityId,
+  });
+
+  const deleteDocumentMutation = useMutation<Response, Error, string>({
+    mutationFn: async (documentId: string) => {
+      return await apiRequest("DELETE", `/api/documents/${documentId}`);
+    },
+    onSuccess: () => {
+      if (entityId) {
+        queryClient.invalidateQueries({ queryKey: [getDocumentsKey(entityType, entityId)] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: "Succes",
+        description: "Bijlage verwijderd",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon bijlage niet verwijderen",
+      });
+    },
+  });
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    if (files.length === 0) return;
+
+    if (!entityId) {
+      onPendingFilesChange([...pendingFiles, ...files]);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      await uploadAttachments(entityType, entityId, files);
+      toast({
+        title: "Succes",
+        description: files.length === 1 ? "Bijlage geüpload" : `${files.length} bijlagen geüpload`,
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon bijlage niet uploaden",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleOpen = async (doc: Document) => {
+    try {
+      await openDocument(doc);
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon bijlage niet openen",
+      });
+    }
+  };
+
+  const isEmpty = documents.length === 0 && pendingFiles.length === 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          onChange={handleFileSelect}
+          accept="image/*,.pdf,.doc,.docx,.xls,.xlsx"
+          className="hidden"
+          data-testid={`input-${entityType}-files`}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="flex items-center gap-2"
+          data-testid={`button-${entityType}-upload`}
+        >
+          {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          {isUploading ? "Uploaden..." : "Bestanden kiezen"}
+        </Button>
+        {documents.length + pendingFiles.length > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {documents.length + pendingFiles.length} bijlage(n)
+          </span>
+        )}
+      </div>
+
+      {isLoading && entityId ? (
+        <p className="text-sm text-muted-foreground">Laden...</p>
+      ) : !isEmpty && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2" data-testid={`gallery-${entityType}`}>
+          {documents.map((doc) => (
+            <div key={doc.id} className="group relative border rounded-md overflow-hidden" data-testid={`attachment-${doc.id}`}>
+              <button
+                type="button"
+                onClick={() => handleOpen(doc)}
+                className="flex h-24 w-full items-center justify-center bg-muted"
+                title={doc.originalName}
+              >
+                <Thumbnail document={doc} />
+              </button>
+              <div className="flex items-center gap-1 px-2 py-1 text-xs">
+                <span className="flex-1 truncate">{doc.originalName}</span>
+                <Download className="h-3 w-3 text-muted-foreground shrink-0" />
+              </div>
+              <Button
+                type="button"
+                size="icon"
+                variant="secondary"
+                className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100"
+                onClick={() => deleteDocumentMutation.mutate(doc.id)}
+                disabled={deleteDocumentMutation.isPending}
+                data-testid={`button-delete-attachment-${doc.id}`}
+              >
+                <X className="h-3 w-3 text-destructive" />
+              </Button>
+            </div>
+          ))}
+
+          {pendingFiles.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="relative border border-dashed rounded-md overflow-hidden" data-testid={`pending-attachment-${index}`}>
+              <div className="flex h-24 w-full items-center justify-center bg-muted">
+                <Thumbnail file={file} />
+              </div>
+              <div className="px-2 py-1 text-xs truncate">{file.name}</div>
+              <Button
+                type="button"
+                size="icon"
+                variant="secondary"
+                className="absolute top-1 right-1 h-6 w-6"
+                onClick={() => onPendingFilesChange(pendingFiles.filter((_, i) => i !== index))}
+                data-testid={`button-remove-pending-attachment-${index}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Admin action that moves the single attachments from before documents into the galleries
+export function LegacyAttachmentMigration() {
+  const { toast } = useToast();
+
+  const migrateMutation = useMutation<LegacyAttachmentMigrationResult, Error>({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/migrate-legacy-attachments");
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && (key.startsWith('/api/documents') || key.endsWith('/documents'));
+        }
+      });
+      toast({
+        title: "Succes",
+        description: result.maintenance + result.reports === 0
+          ? "Geen oude bijlagen meer om over te zetten"
+          : `${result.maintenance} bijlage(n) van taken en ${result.reports} van meldingen overgezet naar documenten`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon oude bijlagen niet overzetten",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4">
+      <div>
+        <p className="font-medium">Oude bijlagen overzetten</p>
+        <p className="text-sm text-muted-foreground">
+          Zet de enkele bijlage van taken en meldingen van vóór de fotogalerij om naar documenten. Opnieuw uitvoeren kan geen kwaad.
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        onClick={() => migrateMutation.mutate()}
+        disabled={migrateMutation.isPending}
+        data-testid="button-migrate-legacy-attachments"
+      >
+        {migrateMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Paperclip className="h-4 w-4 mr-2" />}
+        {migrateMutation.isPending ? "Bezig..." : "Overzetten"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import type { BudgetActual, BudgetActualRecord } from "@shared/schema";
+
+const categoryLabels: Record<string, string> = {
+  bouwkundig: "Bouwkundig",
+  "w-installatie": "W-Installatie",
+  "e-installatie": "E-Installatie",
+  terrein: "Terrein",
+  overig: "Overig",
+};
+
+const getCategoryLabel = (category: string) =>
+  categoryLabels[category] ?? category.charAt(0).toUpperCase() + category.slice(1);
+
+const formatEuro = (cents: number): string =>
+  (cents / 100).toLocaleString("nl-NL", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+interface BudgetTotals {
+  budget: number;
+  committed: number;
+  actual: number;
+}
+
+const sumRows = (rows: BudgetActual[]): BudgetTotals =>
+  rows.reduce(
+    (totals, row) => ({
+      budget: totals.budget + row.budget,
+      committed: totals.committed + row.committed,
+      actual: totals.actual + row.actual,
+    }),
+    { budget: 0, committed: 0, actual: 0 }
+  );
+
+function useBudgetActuals(startYear: number, endYear: number) {
+  return useQuery<BudgetActual[]>({
+    queryKey: [`/api/analytics/budget-actuals?startYear=${startYear}&endYear=${endYear}`],
+  });
+}
+
+// Actual spend in the primary colour, committed amounts lighter on top of it
+function BudgetBar({ budget, committed, actual }: BudgetTotals) {
+  const scale = Math.max(budget, committed + actual, 1);
+  const isOver = committed + actual > budget;
+
+  return (
+    <div className="relative h-3 w-full rounded-sm overflow-hidden bg-muted">
+      <div
+        className={`absolute inset-y-0 left-0 ${isOver ? "bg-destructive" : "bg-primary"}`}
+        style={{ width: `${(actual / scale) * 100}%` }}
+      />
+      <div
+        className={`absolute inset-y-0 ${isOver ? "bg-destructive/40" : "bg-primary/40"}`}
+        style={{ left: `${(actual / scale) * 100}%`, width: `${(committed / scale) * 100}%` }}
+      />
+      {isOver && budget > 0 && (
+        <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: `${(budget / scale) * 100}%` }} />
+      )}
+    </div>
+  );
+}
+
+interface BudgetActualsOverviewProps {
+  startYear: number;
+  endYear: number;
+}
+
+// Budget, committed and actual amounts per category; a category opens the records behind it
+export function BudgetActualsOverview({ startYear, endYear }: BudgetActualsOverviewProps) {
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const { data: rows = [], isLoading } = useBudgetActuals(startYear, endYear);
+
+  const categories = Array.from(new Set(rows.map(row => row.category)));
+  const totals = sumRows(rows);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Laden...</p>;
+  }
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Geen budgetgegevens beschikbaar</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Begroot</p>
+          <p className="text-lg font-semibold" data-testid="text-budget-total">€{formatEuro(totals.budget)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Verplicht</p>
+          <p className="text-lg font-semibold" data-testid="text-budget-committed-total">€{formatEuro(totals.committed)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Besteed</p>
+          <p className="text-lg font-semibold" data-testid="text-budget-actual-total">€{formatEuro(totals.actual)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {categories.map(category => {
+          const categoryTotals = sumRows(rows.filter(row => row.category === category));
+          const remaining = categoryTotals.budget - categoryTotals.committed - categoryTotals.actual;
+          return (
+            <button
+              key={category}
+              type="button"
+              onClick={() => setSelectedCategory(category)}
+              className="w-full text-left space-y-1.5 rounded-md p-2 hover-elevate"
+              data-testid={`budget-actual-${category}`}
+            >
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium">{getCategoryLabel(category)}</span>
+                <span className={remaining < 0 ? "text-destructive" : "text-muted-foreground"}>
+                  {remaining < 0 ? `€${formatEuro(-remaining)} overschreden` : `€${formatEuro(remaining)} resterend`}
+                </span>
+              </div>
+              <BudgetBar {...categoryTotals} />
+              <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                <span>Begroot €{formatEuro(categoryTotals.budget)}</span>
+                <span>Verplicht €{formatEuro(categoryTotals.committed)}</span>
+                <span>Besteed €{formatEuro(categoryTotals.actual)}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-3 rounded-sm bg-primary" />
+          <span>Besteed</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-3 rounded-sm bg-primary/40" />
+          <span>Verplicht (geaccepteerde offertes)</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-3 rounded-sm bg-muted border" />
+          <span>Resterend budget</span>
+        </div>
+      </div>
+
+      <BudgetRecordsDialog
+        category={selectedCategory}
+        rows={rows.filter(row => row.category === selectedCategory)}
+        startYear={startYear}
+        endYear={endYear}
+        onOpenChange={(open) => !open && setSelectedCategory(null)}
+      />
+    </div>
+  );
+}
+
+interface BudgetRecordsDialogProps {
+  category: string | null;
+  rows: BudgetActual[];
+  startYear: number;
+  endYear: number;
+  onOpenChange: (open: boolean) => void;
+}
+
+function BudgetRecordsDialog({ category, rows, startYear, endYear, onOpenChange }: BudgetRecordsDialogProps) {
+  const { data: records = [], isLoading } = useQuery<BudgetActualRecord[]>({
+    queryKey: [
+      `/api/analytics/budget-actuals/records?category=${encodeURIComponent(category ?? "")}&startYear=${startYear}&endYear=${endYear}`,
+    ],
+    enabled: !!category,
+  });
+
+  const historyRecords = records.filter(record => record.kind === "history");
+  const quoteRecords = records.filter(record => record.kind === "quote");
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{category ? getCategoryLabel(category) : ""}</DialogTitle>
+          <DialogDescription>
+            Uitgevoerd onderhoud en geaccepteerde offertes {startYear === endYear ? `in ${startYear}` : `in ${startYear}-${endYear}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {rows.length > 1 && (
+            <div className="rounded-md border divide-y text-sm">
+              <div className="grid grid-cols-4 gap-2 p-2 text-xs text-muted-foreground">
+                <span>Jaar</span>
+                <span className="text-right">Begroot</span>
+                <span className="text-right">Verplicht</span>
+                <span className="text-right">Besteed</span>
+              </div>
+              {rows.map(row => (
+                <div key={row.year} className="grid grid-cols-4 gap-2 p-2" data-testid={`budget-actual-year-${row.year}`}>
+                  <span className="font-medium">{row.year}</span>
+                  <span className="text-right">€{formatEuro(row.budget)}</span>
+                  <span className="text-right">€{formatEuro(row.committed)}</span>
+                  <span className="text-right">€{formatEuro(row.actual)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Laden...</p>
+          ) : records.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Geen bestedingen of verplichtingen in deze periode</p>
+          ) : (
+            [
+              { title: "Besteed", records: historyRecords },
+              { title: "Verplicht", records: quoteRecords },
+            ].filter(group => group.records.length > 0).map(group => (
+              <div key={group.title} className="space-y-2">
+                <h3 className="text-sm font-medium">{group.title}</h3>
+                <div className="rounded-md border divide-y">
+                  {group.records.map(record => (
+                    <div
+                      key={`${record.kind}-${record.id}`}
+                      className="flex items-center justify-between gap-4 p-2 text-sm"
+                      data-testid={`budget-record-${record.kind}-${record.id}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{record.title}</span>
+                          <Badge variant="outline">{record.kind === "history" ? "Historie" : "Offerte"}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {record.date ? format(new Date(record.date), "d MMM yyyy", { locale: nl }) : "Geen datum"}
+                          {record.party && ` - ${record.party}`}
+                        </p>
+                      </div>
+                      <span className="font-medium whitespace-nowrap">€{formatEuro(record.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
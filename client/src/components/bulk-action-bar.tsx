@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { X, Loader2, type LucideIcon } from "lucide-react";
+import type { BulkSelection } from "@/hooks/use-bulk-selection";
+
+export interface BulkActionOption {
+  value: string;
+  label: string;
+}
+
+export interface BulkAction {
+  key: string;
+  label: string;
+  icon?: LucideIcon;
+  // Pick a value from a list (e.g. status) before confirming
+  options?: BulkActionOption[];
+  // Enter a free text value (e.g. assignee) before confirming; empty clears the field
+  inputPlaceholder?: string;
+  destructive?: boolean;
+  // Hidden until this many items are selected (e.g. 2 for merging)
+  minCount?: number;
+  // Opens its own dialog instead of the confirmation (e.g. creating a task from reports)
+  onSelect?: () => void;
+  // Confirmation text, e.g. "Status van 12 taken wijzigen naar Afgerond?"
+  describe?: (count: number, valueLabel: string) => string;
+}
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: string[];
+}
+
+// Number of requests running at the same time
+const CONCURRENCY = 5;
+
+// Runs an action per id and collects which ones failed instead of stopping at the first error
+export async function runBulkAction(ids: string[], action: (id: string) => Promise<unknown>): Promise<BulkResult> {
+  const result: BulkResult = { succeeded: [], failed: [] };
+  for (let i = 0; i < ids.length; i += CONCURRENCY) {
+    const chunk = ids.slice(i, i + CONCURRENCY);
+    const outcomes = await Promise.allSettled(chunk.map(id => action(id)));
+    outcomes.forEach((outcome, index) => {
+      (outcome.status === "fulfilled" ? result.succeeded : result.failed).push(chunk[index]);
+    });
+  }
+  return result;
+}
+
+// Summary toast for a bulk action, e.g. "8 van 10 taken bijgewerkt, 2 mislukt"
+export function getBulkResultToast(result: BulkResult, noun: { singular: string; plural: string }, verb: string) {
+  const total = result.succeeded.length + result.failed.length;
+  const label = total === 1 ? noun.singular : noun.plural;
+
+  if (result.failed.length === 0) {
+    return {
+      title: "Succes",
+      description: `${total} ${label} ${verb}`,
+    };
+  }
+  if (result.succeeded.length === 0) {
+    return {
+      variant: "destructive" as const,
+      title: "Fout",
+      description: `Geen van de ${total} ${label} kon worden ${verb}`,
+    };
+  }
+  return {
+    variant: "destructive" as const,
+    title: "Gedeeltelijk gelukt",
+    description: `${result.succeeded.length} van ${total} ${label} ${verb}, ${result.failed.length} mislukt. De mislukte items blijven geselecteerd.`,
+  };
+}
+
+interface SelectCheckboxProps {
+  id: string;
+  selection: BulkSelection;
+  label?: string;
+}
+
+// Row checkbox that passes the shift key on for range selection
+export function SelectCheckbox({ id, selection, label = "Selecteren" }: SelectCheckboxProps) {
+  return (
+    <Checkbox
+      checked={selection.isSelected(id)}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        selection.toggle(id, e.shiftKey);
+      }}
+      aria-label={label}
+      data-testid={`checkbox-select-${id}`}
+    />
+  );
+}
+
+interface BulkActionBarProps {
+  selection: BulkSelection;
+  actions: BulkAction[];
+  onRun: (actionKey: string, value: string) => Promise<void>;
+}
+
+interface PendingAction {
+  action: BulkAction;
+  value: string;
+  valueLabel: string;
+}
+
+// Select-all toggle plus the actions for the current selection, each behind one confirmation
+export function BulkActionBar({ selection, actions, onRun }: BulkActionBarProps) {
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [inputValues, setInputValues] = useState<Record<string, string>>({});
+  const [openPopover, setOpenPopover] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    setIsRunning(true);
+    try {
+      await onRun(pending.action.key, pending.value);
+    } finally {
+      setIsRunning(false);
+      setPending(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 p-2 border rounded-md bg-muted/30" data-testid="bulk-action-bar">
+        <Checkbox
+          checked={selection.allSelected}
+          onCheckedChange={() => selection.toggleAll()}
+          aria-label="Alles selecteren"
+          className="ml-2"
+          data-testid="checkbox-select-all"
+        />
+        <span className="text-sm text-muted-foreground mr-2">
+          {selection.count > 0 ? `${selection.count} geselecteerd` : "Selecteer items (shift-klik voor een reeks)"}
+        </span>
+
+        {selection.count > 0 && (
+          <>
+            {actions.filter(action => selection.count >= (action.minCount ?? 1)).map(action => {
+              const Icon = action.icon;
+
+              if (action.options) {
+                return (
+                  <Select
+                    key={action.key}
+                    value=""
+                    onValueChange={(value) => setPending({
+                      action,
+                      value,
+                      valueLabel: action.options!.find(option => option.value === value)?.label ?? value,
+                    })}
+                  >
+                    <SelectTrigger className="h-8 w-auto gap-2" data-testid={`select-bulk-${action.key}`}>
+                      <SelectValue placeholder={action.label} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {action.options.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                );
+              }
+
+              if (action.inputPlaceholder !== undefined) {
+                const value = inputValues[action.key] ?? "";
+                return (
+                  <Popover
+                    key={action.key}
+                    open={openPopover === action.key}
+                    onOpenChange={(open) => setOpenPopover(open ? action.key : null)}
+                  >
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" size="sm" data-testid={`button-bulk-${action.key}`}>
+                        {Icon && <Icon className="h-4 w-4 mr-2" />}
+                        {action.label}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-64 space-y-2" align="start">
+                      <Input
+                        value={value}
+                        onChange={(e) => setInputValues({ ...inputValues, [action.key]: e.target.value })}
+                        placeholder={action.inputPlaceholder}
+                        data-testid={`input-bulk-${action.key}`}
+                      />
+                      <Button
+                        size="sm"
+                        className="w-full"
+                        onClick={() => {
+                          setOpenPopover(null);
+                          setPending({ action, value: value.trim(), valueLabel: value.trim() });
+                        }}
+                      >
+                        Toepassen
+                      </Button>
+                    </PopoverContent>
+                  </Popover>
+                );
+              }
+
+              return (
+                <Button
+                  key={action.key}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => action.onSelect ? action.onSelect() : setPending({ action, value: "", valueLabel: "" })}
+                  className={action.destructive ? "text-destructive" : ""}
+                  data-testid={`button-bulk-${action.key}`}
+                >
+                  {Icon && <Icon className="h-4 w-4 mr-2" />}
+                  {action.label}
+                </Button>
+              );
+            })}
+            <Button variant="ghost" size="sm" onClick={selection.clear} data-testid="button-bulk-clear">
+              <X className="h-4 w-4 mr-2" />
+              Selectie wissen
+            </Button>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && !isRunning && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pending?.action.label}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.action.describe?.(selection.count, pending.valueLabel)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRunning} data-testid="button-cancel-bulk">Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open while the requests run
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isRunning}
+              className={pending?.action.destructive ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : ""}
+              data-testid="button-confirm-bulk"
+            >
+              {isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pending?.action.destructive ? "Verwijderen" : "Toepassen"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
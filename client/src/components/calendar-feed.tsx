@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, RefreshCw, Ban } from "lucide-react";
+import type { CalendarFeedLink } from "@shared/schema";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FEED_KEY = "/api/calendar-feed";
+
+// Personal iCalendar feed URL of the active school, to subscribe to from Outlook or Google Agenda
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const [includeMaintenance, setIncludeMaintenance] = useState(false);
+  const { toast } = useToast();
+
+  // null while the user has no feed for this school
+  const { data: feed, isLoading } = useQuery<CalendarFeedLink | null>({
+    queryKey: [FEED_KEY],
+    enabled: open,
+  });
+
+  // Creates the feed, or replaces the token of an existing one
+  const createMutation = useMutation<CalendarFeedLink, Error, boolean>({
+    mutationFn: async (withMaintenance) => {
+      const response = await apiRequest("POST", FEED_KEY, { includeMaintenance: withMaintenance });
+      return response.json();
+    },
+    onSuccess: (newFeed) => {
+      queryClient.setQueryData([FEED_KEY], newFeed);
+      toast({
+        title: "Succes",
+        description: feed ? "Nieuwe URL aangemaakt. De oude URL werkt niet meer." : "Agenda-URL aangemaakt",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon agenda-URL niet aanmaken",
+      });
+    },
+  });
+
+  const updateMutation = useMutation<CalendarFeedLink, Error, boolean>({
+    mutationFn: async (withMaintenance) => {
+      const response = await apiRequest("PATCH", FEED_KEY, { includeMaintenance: withMaintenance });
+      return response.json();
+    },
+    onSuccess: (updatedFeed) => {
+      queryClient.setQueryData([FEED_KEY], updatedFeed);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon agenda-instellingen niet bijwerken",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await apiRequest("DELETE", FEED_KEY);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData([FEED_KEY], null);
+      toast({
+        title: "Succes",
+        description: "Agenda-URL ingetrokken",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon agenda-URL niet intrekken",
+      });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast({
+        title: "Succes",
+        description: "URL gekopieerd",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon URL niet kopiëren",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Agenda-abonnement</DialogTitle>
+          <DialogDescription>
+            Abonneer je in Outlook (Agenda toevoegen &gt; Abonneren vanaf internet) of Google Agenda op deze URL.
+            Wijzigingen in Eduvium verschijnen daar automatisch.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Laden...</p>
+        ) : feed ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input value={feed.url} readOnly data-testid="input-calendar-feed-url" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="URL kopiëren" data-testid="button-copy-calendar-feed">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Deel deze URL niet: iedereen met de URL kan je planning lezen.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="calendar-feed-maintenance">Deadlines van onderhoudstaken meenemen</Label>
+              <Switch
+                id="calendar-feed-maintenance"
+                checked={feed.includeMaintenance}
+                onCheckedChange={(checked) => updateMutation.mutate(checked)}
+                disabled={updateMutation.isPending}
+                data-testid="switch-calendar-feed-maintenance"
+              />
+            </div>
+            <div className="flex justify-between gap-2">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={createMutation.isPending} data-testid="button-rotate-calendar-feed">
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Nieuwe URL
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Nieuwe agenda-URL aanmaken</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      De huidige URL werkt daarna niet meer. Je moet je in je agenda opnieuw abonneren.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Annuleren</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => createMutation.mutate(feed.includeMaintenance)} data-testid="button-confirm-rotate-calendar-feed">
+                      Nieuwe URL
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-destructive" disabled={revokeMutation.isPending} data-testid="button-revoke-calendar-feed">
+                    <Ban className="h-4 w-4 mr-2" />
+                    Intrekken
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Agenda-URL intrekken</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Agenda's die op deze URL zijn geabonneerd worden niet meer bijgewerkt.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Annuleren</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => revokeMutation.mutate()}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      data-testid="button-confirm-revoke-calendar-feed"
+                    >
+                      Intrekken
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="calendar-feed-new-maintenance">Deadlines van onderhoudstaken meenemen</Label>
+              <Switch
+                id="calendar-feed-new-maintenance"
+                checked={includeMaintenance}
+                onCheckedChange={setIncludeMaintenance}
+                data-testid="switch-calendar-feed-new-maintenance"
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate(includeMaintenance)}
+              disabled={createMutation.isPending}
+              data-testid="button-create-calendar-feed"
+            >
+              {createMutation.isPending ? "Bezig..." : "Agenda-URL aanmaken"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,570 @@
+import { useState, useEffect, useRef } from "react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, MapPin, Repeat } from "lucide-react";
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { nl } from "date-fns/locale";
+import { getOccurrenceKey, isRecurring } from "@/components/appointment-recurrence";
+import { HolidayLabel, getHoliday, holidayTypeColors, useSchoolHolidays } from "@/components/school-holidays";
+import type { Appointment, ClientInsertAppointment } from "@shared/schema";
+
+export type CalendarView = "month" | "week" | "day" | "agenda";
+
+const viewLabels: Record<CalendarView, string> = {
+  month: "Maand",
+  week: "Week",
+  day: "Dag",
+  agenda: "Agenda",
+};
+
+// Days listed in the agenda view
+const AGENDA_DAYS = 30;
+
+const HOUR_HEIGHT = 48;
+const HOUR_LABEL_WIDTH = 56;
+const SNAP_MINUTES = 15;
+// Hour shown at the top when a time grid opens
+const SCROLL_TO_HOUR = 7;
+
+// Date range shown by a view around the given date
+export function getViewRange(view: CalendarView, date: Date): { start: Date; end: Date } {
+  switch (view) {
+    case "month":
+      return {
+        start: startOfWeek(startOfMonth(date), { weekStartsOn: 1 }),
+        end: endOfWeek(endOfMonth(date), { weekStartsOn: 1 }),
+      };
+    case "week":
+      return { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) };
+    case "day":
+      return { start: startOfDay(date), end: endOfDay(date) };
+    case "agenda":
+      return { start: startOfDay(date), end: endOfDay(addDays(date, AGENDA_DAYS - 1)) };
+  }
+}
+
+const shiftDate = (view: CalendarView, date: Date, direction: 1 | -1) => {
+  switch (view) {
+    case "month":
+      return addMonths(date, direction);
+    case "week":
+      return addWeeks(date, direction);
+    case "day":
+      return addDays(date, direction);
+    case "agenda":
+      return addDays(date, direction * AGENDA_DAYS);
+  }
+};
+
+const formatTitle = (view: CalendarView, date: Date) => {
+  const { start, end } = getViewRange(view, date);
+  switch (view) {
+    case "month":
+      return format(date, "MMMM yyyy", { locale: nl });
+    case "day":
+      return format(date, "EEEE d MMMM yyyy", { locale: nl });
+    default:
+      return start.getMonth() === end.getMonth()
+        ? `${format(start, "d")} - ${format(end, "d MMMM yyyy", { locale: nl })}`
+        : `${format(start, "d MMM", { locale: nl })} - ${format(end, "d MMM yyyy", { locale: nl })}`;
+  }
+};
+
+// All-day and multi-day appointments go in the bar above the time grid
+const isAllDayEvent = (appointment: Appointment) =>
+  appointment.isAllDay || !isSameDay(new Date(appointment.startDate), new Date(appointment.endDate));
+
+const formatTimeRange = (appointment: Appointment) =>
+  appointment.isAllDay
+    ? "Hele dag"
+    : `${format(new Date(appointment.startDate), "HH:mm")} - ${format(new Date(appointment.endDate), "HH:mm")}`;
+
+interface CalendarNavigationProps {
+  view: CalendarView;
+  views: CalendarView[];
+  date: Date;
+  onViewChange: (view: CalendarView) => void;
+  onDateChange: (date: Date) => void;
+}
+
+// Title, previous/today/next and the view switch above a calendar
+export function CalendarNavigation({ view, views, date, onViewChange, onDateChange }: CalendarNavigationProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+      <h2 className="text-2xl font-bold first-letter:uppercase" data-testid="text-calendar-month">
+        {formatTitle(view, date)}
+      </h2>
+      <div className="flex flex-wrap gap-2">
+        <div className="flex gap-1" role="group" aria-label="Weergave">
+          {views.map(option => (
+            <Button
+              key={option}
+              variant={view === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => onViewChange(option)}
+              data-testid={`button-calendar-view-${option}`}
+            >
+              {viewLabels[option]}
+            </Button>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onDateChange(shiftDate(view, date, -1))}
+          aria-label="Vorige"
+          data-testid="button-prev-month"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => onDateChange(new Date())}
+          data-testid="button-today"
+        >
+          Vandaag
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onDateChange(shiftDate(view, date, 1))}
+          aria-label="Volgende"
+          data-testid="button-next-month"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type RescheduleData = Pick<ClientInsertAppointment, "startDate" | "endDate">;
+
+// Saves a dragged appointment; recurring appointments are handed to onRecurring to ask for the scope first
+export function useRescheduleAppointment(onRecurring: (appointment: Appointment, data: RescheduleData) => void) {
+  const { toast } = useToast();
+
+  return async (appointment: Appointment, startDate: Date, endDate: Date) => {
+    if (isRecurring(appointment)) {
+      onRecurring(appointment, { startDate, endDate });
+      return;
+    }
+    try {
+      await apiRequest("PATCH", `/api/appointments/${appointment.id}`, { startDate, endDate });
+      // Keep the dragged position until the new data is in
+      await queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon afspraak niet verplaatsen",
+      });
+    }
+  };
+}
+
+interface DragState<T extends Appointment> {
+  appointment: T;
+  mode: "move" | "resize";
+  // All-day bars move and resize by whole days
+  allDay: boolean;
+  startX: number;
+  startY: number;
+  days: number;
+  minutes: number;
+}
+
+interface PositionedAppointment<T extends Appointment> {
+  appointment: T;
+  top: number;
+  height: number;
+  lane: number;
+  lanes: number;
+}
+
+// Places overlapping appointments of one day next to each other
+function layoutDay<T extends Appointment>(appointments: T[]): PositionedAppointment<T>[] {
+  const sorted = [...appointments].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  const positioned: PositionedAppointment<T>[] = [];
+  let cluster: PositionedAppointment<T>[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = 0;
+
+  const closeCluster = () => {
+    cluster.forEach(item => (item.lanes = laneEnds.length));
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const appointment of sorted) {
+    const start = new Date(appointment.startDate);
+    const end = new Date(appointment.endDate);
+    const startMinutes = start.getHours() * 60 + start.getMinutes();
+    const endMinutes = Math.max(startMinutes + SNAP_MINUTES, end.getHours() * 60 + end.getMinutes());
+
+    if (cluster.length > 0 && startMinutes >= clusterEnd) closeCluster();
+
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= startMinutes);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = endMinutes;
+    clusterEnd = Math.max(cluster.length > 0 ? clusterEnd : 0, endMinutes);
+
+    const item = {
+      appointment,
+      top: (startMinutes / 60) * HOUR_HEIGHT,
+      height: ((endMinutes - startMinutes) / 60) * HOUR_HEIGHT,
+      lane,
+      lanes: 1,
+    };
+    cluster.push(item);
+    positioned.push(item);
+  }
+  closeCluster();
+  return positioned;
+}
+
+interface TimeGridViewProps<T extends Appointment> {
+  days: Date[];
+  // Expanded occurrences (see expandAppointments)
+  appointments: T[];
+  onSelect: (appointment: T) => void;
+  onCreate?: (date: Date) => void;
+  onReschedule: (appointment: T, startDate: Date, endDate: Date) => Promise<void> | void;
+}
+
+// Week or day view with hours; appointments can be dragged to another time or day and resized,
+// all-day and multi-day bars by whole days
+export function TimeGridView<T extends Appointment>({ days, appointments, onSelect, onCreate, onReschedule }: TimeGridViewProps<T>) {
+  const [drag, setDrag] = useState<DragState<T> | null>(null);
+  const { data: holidays = [] } = useSchoolHolidays();
+  const [saving, setSaving] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const rangeStart = startOfDay(days[0]);
+  const rangeEnd = endOfDay(days[days.length - 1]);
+  const visible = appointments.filter(
+    appointment => new Date(appointment.startDate) <= rangeEnd && new Date(appointment.endDate) >= rangeStart
+  );
+  const allDay = visible.filter(isAllDayEvent);
+  const timed = visible.filter(appointment => !isAllDayEvent(appointment));
+
+  // Greedy rows for the all-day bar, so bars that do not overlap share a row
+  const allDayRows: Date[] = [];
+  const allDayBars = allDay
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
+    .map(appointment => {
+      const first = Math.max(0, differenceInCalendarDays(new Date(appointment.startDate), rangeStart));
+      const last = Math.min(days.length - 1, differenceInCalendarDays(new Date(appointment.endDate), rangeStart));
+      let row = allDayRows.findIndex(rowEnd => rowEnd < startOfDay(new Date(appointment.startDate)));
+      if (row === -1) row = allDayRows.length;
+      allDayRows[row] = startOfDay(new Date(appointment.endDate));
+      return { appointment, first, last, row };
+    });
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT;
+  }, []);
+
+  // Track the pointer on the window so the drag continues outside the appointment
+  useEffect(() => {
+    if (!drag) return;
+
+    const columnWidth = ((gridRef.current?.getBoundingClientRect().width ?? 0) - HOUR_LABEL_WIDTH) / days.length;
+    const handleMove = (e: PointerEvent) => {
+      const minutes = drag.allDay ? 0 : Math.round(((e.clientY - drag.startY) / HOUR_HEIGHT) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+      const dayShift = (drag.mode === "move" || drag.allDay) && columnWidth > 0 ? Math.round((e.clientX - drag.startX) / columnWidth) : 0;
+      setDrag(prev => prev && { ...prev, minutes, days: dayShift });
+    };
+    const handleUp = async () => {
+      const { appointment, mode, allDay: isAllDay, days: dayShift, minutes } = drag;
+      setDrag(null);
+      if (dayShift === 0 && minutes === 0) {
+        onSelect(appointment);
+        return;
+      }
+      const start = new Date(appointment.startDate);
+      const end = new Date(appointment.endDate);
+      const newStart = mode === "move" ? addMinutes(addDays(start, dayShift), minutes) : start;
+      const newEnd = mode === "move"
+        ? addMinutes(addDays(end, dayShift), minutes)
+        : isAllDay
+          ? new Date(Math.max(addDays(end, dayShift).getTime(), endOfDay(start).getTime()))
+          : new Date(Math.max(addMinutes(end, minutes).getTime(), addMinutes(start, SNAP_MINUTES).getTime()));
+
+      setSaving(getOccurrenceKey(appointment));
+      try {
+        await onReschedule(appointment, newStart, newEnd);
+      } finally {
+        setSaving(null);
+      }
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [drag, days.length]);
+
+  const now = new Date();
+  const gridColumns = { gridTemplateColumns: `${HOUR_LABEL_WIDTH}px repeat(${days.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="border rounded-md" data-testid="calendar-time-grid">
+      {/* Day headers */}
+      <div className="grid border-b" style={gridColumns}>
+        <div />
+        {days.map(day => {
+          const holiday = getHoliday(holidays, day);
+          return (
+            <div
+              key={day.toISOString()}
+              className={`p-2 text-center text-sm border-l ${holiday ? holidayTypeColors[holiday.type] : ""} ${isToday(day) ? "text-primary font-semibold" : "text-muted-foreground"}`}
+            >
+              {format(day, days.length === 1 ? "EEEE d MMMM" : "EEE d", { locale: nl })}
+              {holiday && <HolidayLabel holiday={holiday} />}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* All-day and multi-day appointments */}
+      {allDayBars.length > 0 && (
+        <div className="grid border-b gap-y-1 py-1" style={gridColumns} data-testid="calendar-all-day">
+          <div className="text-xs text-muted-foreground px-1 self-center" style={{ gridRow: `1 / ${allDayRows.length + 1}` }}>
+            Hele dag
+          </div>
+          {allDayBars.map(({ appointment, first, last, row }) => {
+            const key = getOccurrenceKey(appointment);
+            const isDragged = drag !== null && getOccurrenceKey(drag.appointment) === key;
+            const previewFirst = isDragged && drag.mode === "move" ? first + drag.days : first;
+            const previewLast = !isDragged ? last : drag.mode === "move" ? last + drag.days : Math.max(first, last + drag.days);
+            const clampDay = (day: number) => Math.min(days.length - 1, Math.max(0, day));
+
+            return (
+              <button
+                key={key}
+                type="button"
+                // Pointer clicks select through the drag handler; this handles keyboard activation
+                onClick={(e) => e.detail === 0 && onSelect(appointment)}
+                onPointerDown={(e) => {
+                  if (saving) return;
+                  e.preventDefault();
+                  setDrag({ appointment, mode: "move", allDay: true, startX: e.clientX, startY: e.clientY, days: 0, minutes: 0 });
+                }}
+                className={`relative mx-1 truncate rounded px-1 text-left text-xs bg-primary/10 hover:bg-primary/20 border-l-2 border-l-primary flex items-center gap-1 select-none touch-none cursor-grab active:cursor-grabbing ${
+                  isDragged ? "ring-2 ring-primary shadow-md" : ""
+                } ${saving === key ? "opacity-60" : ""}`}
+                style={{ gridColumn: `${clampDay(previewFirst) + 2} / ${clampDay(previewLast) + 3}`, gridRow: row + 1 }}
+                title={appointment.title}
+                data-testid={`calendar-all-day-${key}`}
+              >
+                {isRecurring(appointment) && <Repeat className="h-3 w-3 shrink-0" />}
+                {appointment.title}
+                {/* Resize handle */}
+                <span
+                  className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                  onPointerDown={(e) => {
+                    if (saving) return;
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setDrag({ appointment, mode: "resize", allDay: true, startX: e.clientX, startY: e.clientY, days: 0, minutes: 0 });
+                  }}
+                  data-testid={`calendar-all-day-resize-${key}`}
+                />
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Time grid */}
+      <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+        <div ref={gridRef} className="grid relative" style={{ ...gridColumns, height: 24 * HOUR_HEIGHT }}>
+          <div className="relative">
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="absolute right-2 text-xs text-muted-foreground -translate-y-1/2" style={{ top: hour * HOUR_HEIGHT }}>
+                {hour > 0 && `${hour.toString().padStart(2, "0")}:00`}
+              </div>
+            ))}
+          </div>
+          {days.map((day, dayIndex) => {
+            const dayAppointments = timed.filter(appointment => isSameDay(new Date(appointment.startDate), day));
+            const holiday = getHoliday(holidays, day);
+            return (
+              <div
+                key={day.toISOString()}
+                className={`relative border-l ${holiday ? holidayTypeColors[holiday.type] : ""}`}
+                onClick={(e) => {
+                  if (!onCreate) return;
+                  const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+                  const minutes = Math.floor((y / HOUR_HEIGHT) * 2) * 30;
+                  onCreate(addMinutes(startOfDay(day), minutes));
+                }}
+                data-testid={`calendar-column-${format(day, "yyyy-MM-dd")}`}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="absolute inset-x-0 border-t border-border/50" style={{ top: hour * HOUR_HEIGHT }} />
+                ))}
+                {isToday(day) && (
+                  <div
+                    className="absolute inset-x-0 z-10 border-t-2 border-destructive pointer-events-none"
+                    style={{ top: ((now.getHours() * 60 + now.getMinutes()) / 60) * HOUR_HEIGHT }}
+                  />
+                )}
+                {layoutDay(dayAppointments).map(({ appointment, top, height, lane, lanes }) => {
+                  const key = getOccurrenceKey(appointment);
+                  const isDragged = drag !== null && getOccurrenceKey(drag.appointment) === key;
+                  const offset = isDragged && drag.mode === "move" ? (drag.minutes / 60) * HOUR_HEIGHT : 0;
+                  const extra = isDragged && drag.mode === "resize" ? (drag.minutes / 60) * HOUR_HEIGHT : 0;
+                  const shiftX = isDragged && drag.mode === "move" ? drag.days * 100 * lanes : 0;
+                  const previewStart = isDragged && drag.mode === "move"
+                    ? addMinutes(addDays(new Date(appointment.startDate), drag.days), drag.minutes)
+                    : new Date(appointment.startDate);
+                  const previewEnd = isDragged
+                    ? drag.mode === "move"
+                      ? addMinutes(addDays(new Date(appointment.endDate), drag.days), drag.minutes)
+                      : addMinutes(new Date(appointment.endDate), drag.minutes)
+                    : new Date(appointment.endDate);
+
+                  return (
+                    <div
+                      key={key}
+                      className={`absolute rounded border-l-2 border-l-primary bg-primary/15 px-1 text-xs overflow-hidden select-none touch-none cursor-grab active:cursor-grabbing ${
+                        isDragged ? "z-20 ring-2 ring-primary shadow-md" : "z-10"
+                      } ${saving === key ? "opacity-60" : ""}`}
+                      style={{
+                        top: top + offset,
+                        height: Math.max(height + extra, (SNAP_MINUTES / 60) * HOUR_HEIGHT),
+                        left: `${(lane / lanes) * 100}%`,
+                        width: `${100 / lanes}%`,
+                        transform: shiftX ? `translateX(${shiftX}%)` : undefined,
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                      onPointerDown={(e) => {
+                        if (saving) return;
+                        e.preventDefault();
+                        e.stopPropagation();
+                        setDrag({ appointment, mode: "move", allDay: false, startX: e.clientX, startY: e.clientY, days: 0, minutes: 0 });
+                      }}
+                      title={`${appointment.title}\n${format(previewStart, "HH:mm")} - ${format(previewEnd, "HH:mm")}`}
+                      data-testid={`calendar-event-${key}-${dayIndex}`}
+                    >
+                      <div className="font-medium truncate flex items-center gap-1">
+                        {isRecurring(appointment) && <Repeat className="h-3 w-3 shrink-0" />}
+                        {appointment.title}
+                      </div>
+                      <div className="text-muted-foreground truncate">
+                        {format(previewStart, "HH:mm")} - {format(previewEnd, "HH:mm")}
+                      </div>
+                      {/* Resize handle */}
+                      <div
+                        className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                        onPointerDown={(e) => {
+                          if (saving) return;
+                          e.preventDefault();
+                          e.stopPropagation();
+                          setDrag({ appointment, mode: "resize", allDay: false, startX: e.clientX, startY: e.clientY, days: 0, minutes: 0 });
+                        }}
+                        data-testid={`calendar-resize-${key}`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface AgendaViewProps<T extends Appointment> {
+  from: Date;
+  to: Date;
+  // Expanded occurrences (see expandAppointments)
+  appointments: T[];
+  onSelect: (appointment: T) => void;
+}
+
+// List of the coming days; multi-day appointments are listed on every day they cover
+export function AgendaView<T extends Appointment>({ from, to, appointments, onSelect }: AgendaViewProps<T>) {
+  const { data: holidays = [] } = useSchoolHolidays();
+  const days = eachDayOfInterval({ start: from, end: to })
+    .map(day => ({
+      day,
+      holiday: getHoliday(holidays, day),
+      appointments: appointments
+        .filter(appointment => startOfDay(new Date(appointment.startDate)) <= day && new Date(appointment.endDate) >= day)
+        .sort((a, b) => Number(b.isAllDay) - Number(a.isAllDay) || new Date(a.startDate).getTime() - new Date(b.startDate).getTime()),
+    }))
+    .filter(({ appointments: dayAppointments }) => dayAppointments.length > 0);
+
+  if (days.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">Geen afspraken in deze periode</p>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="calendar-agenda">
+      {days.map(({ day, holiday, appointments: dayAppointments }) => (
+        <div key={day.toISOString()} className="flex gap-4">
+          <div className={`w-24 shrink-0 text-sm ${isToday(day) ? "text-primary font-semibold" : "text-muted-foreground"}`}>
+            <div className="first-letter:uppercase">{format(day, "EEEE", { locale: nl })}</div>
+            <div>{format(day, "d MMM", { locale: nl })}</div>
+            {holiday && <HolidayLabel holiday={holiday} />}
+          </div>
+          <div className="flex-1 space-y-2">
+            {dayAppointments.map(appointment => (
+              <button
+                key={getOccurrenceKey(appointment)}
+                type="button"
+                onClick={() => onSelect(appointment)}
+                className="w-full text-left p-3 border rounded-md hover-elevate"
+                data-testid={`agenda-appointment-${getOccurrenceKey(appointment)}-${format(day, "yyyy-MM-dd")}`}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  {isRecurring(appointment) && <Repeat className="h-3 w-3 shrink-0" />}
+                  {appointment.title}
+                </div>
+                <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-muted-foreground">
+                  <span>
+                    {isAllDayEvent(appointment) && !appointment.isAllDay
+                      ? `${format(new Date(appointment.startDate), "d MMM HH:mm", { locale: nl })} - ${format(new Date(appointment.endDate), "d MMM HH:mm", { locale: nl })}`
+                      : formatTimeRange(appointment)}
+                  </span>
+                  {appointment.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {appointment.location}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Repeat, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import { parseICalendar, type ICalEvent } from "@shared/ical";
+import type { Appointment, AppointmentImportResult, ClientInsertAppointment, ImportedAppointment } from "@shared/schema";
+
+type ActivityType = NonNullable<ClientInsertAppointment["activityType"]>;
+
+interface IcsImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value for "no activity type"
+const NO_ACTIVITY = "none";
+// Mapping key for events without category
+const NO_CATEGORY = "";
+
+const activityTypeLabels: Record<ActivityType, string> = {
+  onderhoud: "Onderhoud",
+  keuring: "Keuring",
+  opname: "Opname",
+  bespreking: "Bespreking",
+};
+
+// Default mapping of a category name, e.g. "Inspecties" -> keuring
+const activityKeywords: Array<[ActivityType, RegExp]> = [
+  ["keuring", /keur|inspectie|controle|nen\s?\d+/i],
+  ["opname", /opname|schouw|inventaris/i],
+  ["onderhoud", /onderhoud|reparatie|service|storing/i],
+  ["bespreking", /bespreking|overleg|vergader|meeting/i],
+];
+
+const guessActivityType = (category: string): ActivityType | typeof NO_ACTIVITY =>
+  activityKeywords.find(([, pattern]) => pattern.test(category))?.[0] ?? NO_ACTIVITY;
+
+const getCategory = (event: ICalEvent) => event.categories[0] ?? NO_CATEGORY;
+
+const toAppointment = (event: ICalEvent, activityType: string): ClientInsertAppointment => ({
+  title: event.summary,
+  description: event.description,
+  location: event.location,
+  startDate: event.start,
+  endDate: event.end,
+  isAllDay: event.allDay,
+  activityType: activityType === NO_ACTIVITY ? null : activityType as ActivityType,
+  recurrenceUnit: event.recurrence?.unit ?? null,
+  recurrenceInterval: event.recurrence?.interval ?? 1,
+  recurrenceUntil: event.recurrence?.until ?? null,
+  recurrenceCount: event.recurrence?.count ?? null,
+  occurrenceDate: event.recurrenceId,
+  externalUid: event.uid,
+});
+
+// Series with the occurrences deleted (EXDATE) and moved (RECURRENCE-ID) in the source
+const toImportedAppointment = (event: ICalEvent, instances: ICalEvent[], activityType: string): ImportedAppointment => ({
+  ...toAppointment(event, activityType),
+  exceptionDates: event.exdates,
+  occurrences: instances
+    .filter(instance => instance.uid === event.uid)
+    .map(instance => toAppointment(instance, activityType)),
+});
+
+// Imports the events of an .ics file as appointments; events whose UID was imported before are skipped
+export function IcsImportDialog({ open, onOpenChange }: IcsImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [events, setEvents] = useState<ICalEvent[]>([]);
+  // Modified occurrences of the series in events
+  const [instances, setInstances] = useState<ICalEvent[]>([]);
+  const [selectedUids, setSelectedUids] = useState<Set<string>>(new Set());
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const { data: appointments = [] } = useQuery<Appointment[]>({
+    queryKey: ["/api/appointments"],
+    enabled: open,
+  });
+
+  const existingUids = new Set(appointments.map(a => a.externalUid).filter(Boolean));
+  const categories = Array.from(new Set(events.map(getCategory)));
+
+  const reset = () => {
+    setFileName(null);
+    setEvents([]);
+    setInstances([]);
+    setSelectedUids(new Set());
+    setMapping({});
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    onOpenChange(isOpen);
+    if (!isOpen) reset();
+  };
+
+  const handleFile = async (file: File) => {
+    let parsed: ICalEvent[];
+    try {
+      parsed = parseICalendar(await file.text());
+    } catch {
+      parsed = [];
+    }
+    if (parsed.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Geen afspraken gevonden in dit bestand",
+      });
+      return;
+    }
+
+    // A UID can occur twice in one file; the first event wins
+    const series = parsed.filter(event => !event.recurrenceId);
+    const unique = series.filter((event, index) => series.findIndex(e => e.uid === event.uid) === index);
+    setFileName(file.name);
+    setEvents(unique);
+    setInstances(parsed.filter(event => event.recurrenceId));
+    setSelectedUids(new Set(unique.filter(event => !existingUids.has(event.uid)).map(event => event.uid)));
+    setMapping(Object.fromEntries(
+      Array.from(new Set(unique.map(getCategory))).map(category => [category, guessActivityType(category)])
+    ));
+  };
+
+  const toggleEvent = (uid: string) => {
+    setSelectedUids(prev => {
+      const next = new Set(prev);
+      if (next.has(uid)) {
+        next.delete(uid);
+      } else {
+        next.add(uid);
+      }
+      return next;
+    });
+  };
+
+  const importMutation = useMutation<AppointmentImportResult, Error, ImportedAppointment[]>({
+    mutationFn: async (data) => {
+      const response = await apiRequest("POST", "/api/appointments/import", { appointments: data });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      handleOpenChange(false);
+      toast({
+        title: "Succes",
+        description: `${result.imported} ${result.imported === 1 ? "afspraak" : "afspraken"} geïmporteerd${result.skipped > 0 ? `, ${result.skipped} al aanwezig` : ""}`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon afspraken niet importeren",
+      });
+    },
+  });
+
+  const handleImport = () => {
+    importMutation.mutate(
+      events
+        .filter(event => selectedUids.has(event.uid))
+        .map(event => toImportedAppointment(event, instances, mapping[getCategory(event)] ?? NO_ACTIVITY))
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Agenda importeren</DialogTitle>
+          <DialogDescription>
+            Importeer afspraken uit een .ics-bestand, bijvoorbeeld een export uit Outlook.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="ics-file">Bestand</Label>
+            <Input
+              id="ics-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = "";
+              }}
+              data-testid="input-ics-file"
+            />
+            {fileName && (
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {events.length} {events.length === 1 ? "afspraak" : "afspraken"}
+              </p>
+            )}
+          </div>
+
+          {categories.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Aard van de activiteit per categorie</h3>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {categories.map(category => (
+                  <div key={category} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                    <span className="text-sm truncate">{category || "Zonder categorie"}</span>
+                    <Select
+                      value={mapping[category] ?? NO_ACTIVITY}
+                      onValueChange={(value) => setMapping({ ...mapping, [category]: value })}
+                    >
+                      <SelectTrigger className="w-[150px]" data-testid={`select-ics-mapping-${category || "none"}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ACTIVITY}>Geen</SelectItem>
+                        {(Object.keys(activityTypeLabels) as ActivityType[]).map(type => (
+                          <SelectItem key={type} value={type}>{activityTypeLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {events.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Afspraken</h3>
+              <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+                {events.map(event => {
+                  const isDuplicate = existingUids.has(event.uid);
+                  const changedCount = instances.filter(instance => instance.uid === event.uid).length + event.exdates.length;
+                  return (
+                    <label
+                      key={event.uid}
+                      className={`flex items-start gap-3 p-2 text-sm cursor-pointer ${isDuplicate ? "text-muted-foreground" : ""}`}
+                      data-testid={`ics-event-${event.uid}`}
+                    >
+                      <Checkbox
+                        checked={selectedUids.has(event.uid)}
+                        onCheckedChange={() => toggleEvent(event.uid)}
+                        disabled={isDuplicate}
+                        className="mt-0.5"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium truncate">{event.summary}</span>
+                          {isDuplicate && <Badge variant="secondary">Al geïmporteerd</Badge>}
+                          {event.recurrence && (
+                            <Badge variant="outline" className="gap-1">
+                              <Repeat className="h-3 w-3" />
+                              Terugkerend
+                            </Badge>
+                          )}
+                          {changedCount > 0 && (
+                            <Badge variant="outline">
+                              {changedCount} {changedCount === 1 ? "afwijking" : "afwijkingen"}
+                            </Badge>
+                          )}
+                          {event.recurrence?.simplified && (
+                            <Badge variant="outline" className="gap-1" title="Alleen de basisherhaling (bijv. wekelijks) wordt overgenomen">
+                              <AlertTriangle className="h-3 w-3" />
+                              Herhaling vereenvoudigd
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {format(event.start, event.allDay ? "d MMM yyyy" : "d MMM yyyy HH:mm", { locale: nl })}
+                          {event.location && ` - ${event.location}`}
+                        </p>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Annuleren
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={selectedUids.size === 0 || importMutation.isPending}
+              data-testid="button-import-ics"
+            >
+              {importMutation.isPending
+                ? "Bezig..."
+                : `${selectedUids.size} ${selectedUids.size === 1 ? "afspraak" : "afspraken"} importeren`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
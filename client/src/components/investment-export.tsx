@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import type { InvestmentExportOptions } from "@shared/schema";
+
+const getExportUrl = (options: InvestmentExportOptions) => {
+  const params = new URLSearchParams({
+    startYear: options.startYear.toString(),
+    endYear: options.endYear.toString(),
+  });
+  if (options.category) params.set("category", options.category);
+  if (options.status) params.set("status", options.status);
+  if (options.indexed) params.set("indexed", "true");
+  if (options.projectionUntilYear) params.set("projectionUntilYear", options.projectionUntilYear.toString());
+  return `/api/investments/export?${params}`;
+};
+
+// Name the server suggests, e.g. MJOP De Regenboog 2026-2045.xlsx
+const getFileName = (response: Response, options: InvestmentExportOptions) => {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const match = disposition.match(/filename\*=UTF-8''([^;]+)|filename="?([^";]+)"?/i);
+  if (match) return decodeURIComponent(match[1] ?? match[2]);
+  return `MJOP ${options.startYear}-${options.endYear}.xlsx`;
+};
+
+// Downloads the investment plan as shown in the investments table as an .xlsx file
+export function InvestmentExportButton({ options }: { options: InvestmentExportOptions }) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", getExportUrl(options));
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = getFileName(response, options);
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon investeringsplan niet exporteren",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleExport} disabled={isExporting} data-testid="button-export-investments">
+      <Download className="h-4 w-4 mr-2" />
+      {isExporting ? "Bezig..." : "Exporteren"}
+    </Button>
+  );
+}
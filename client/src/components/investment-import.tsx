@@ -0,0 +1,473 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { parseCsv, parseAmountToCents } from "@shared/csv";
+import { investmentImportRowSchema, type Investment, type InvestmentImportResult, type InvestmentImportRow, type SpreadsheetParseResult } from "@shared/schema";
+
+type Step = "upload" | "map" | "preview";
+
+type Field = "ignore" | "code" | "title" | "description" | "category" | "type" | "status" | "cycleYears" | "year";
+
+const fieldLabels: Record<Field, string> = {
+  ignore: "Negeren",
+  code: "Code",
+  title: "Systeem",
+  description: "Planregel",
+  category: "Categorie",
+  type: "Type",
+  status: "Status",
+  cycleYears: "Cyclus (jaren)",
+  year: "Bedrag per jaar",
+};
+
+// Default mapping of a column name; the first matching column gets the field
+const fieldKeywords: Array<[Exclude<Field, "ignore" | "year">, RegExp]> = [
+  ["code", /^(code|nr\.?|nummer|elementcode)$/i],
+  ["title", /systeem|element|onderdeel|titel|bouwdeel/i],
+  ["description", /planregel|omschrijving|maatregel|activiteit|werkzaamheden/i],
+  ["category", /categorie|discipline|soort/i],
+  ["type", /^type/i],
+  ["status", /status/i],
+  ["cycleYears", /cyclus|interval/i],
+];
+
+const categoryValues: Array<[string, RegExp]> = [
+  ["bouwkundig", /bouwk/i],
+  ["w-installatie", /^w\b|w-inst|werktuig/i],
+  ["e-installatie", /^e\b|e-inst|elektr/i],
+  ["terrein", /terrein/i],
+  ["overig", /overig/i],
+];
+
+const typeValues: Record<string, Investment["type"]> = {
+  "wens school": "school_wish",
+  noodzakelijk: "necessary",
+  duurzaamheid: "sustainability",
+  advies: "advies",
+};
+
+const statusValues: Record<string, Investment["status"]> = {
+  afwachting: "afwachting",
+  voorbereiding: "voorbereiding",
+  uitvoering: "uitvoering",
+  gereed: "gereed",
+};
+
+const formatEuro = (cents: number): string =>
+  (cents / 100).toLocaleString("nl-NL", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const getHeaderYear = (header: string) => {
+  const match = header.trim().match(/^(19|20)\d{2}$/);
+  return match ? parseInt(match[0]) : null;
+};
+
+// Consultant sheets often start with a few title lines; the header is the first row with year columns
+const detectHeaderRow = (rows: string[][]) => {
+  const index = rows.slice(0, 20).findIndex(row => row.some(cell => getHeaderYear(cell) !== null));
+  return index === -1 ? 0 : index;
+};
+
+const guessMapping = (headers: string[]): Field[] => {
+  const used = new Set<Field>();
+  return headers.map(header => {
+    if (getHeaderYear(header) !== null) return "year";
+    const field = fieldKeywords.find(([key, pattern]) => !used.has(key) && pattern.test(header.trim()))?.[0];
+    if (!field) return "ignore";
+    used.add(field);
+    return field;
+  });
+};
+
+const normalizeCategory = (value: string) =>
+  categoryValues.find(([, pattern]) => pattern.test(value))?.[0] ?? value.toLowerCase();
+
+// Investment as read from the sheet; type and status may hold unknown values until validated
+interface ImportRowData {
+  title: string;
+  description: string | null;
+  category: string | null;
+  type: string;
+  status: string;
+  isCyclic: boolean;
+  cycleYears: number | null;
+  years: Array<{ year: number; amount: number }>;
+}
+
+interface PreviewRow {
+  line: number;
+  data: ImportRowData;
+  errors: string[];
+  // Totals and subtotals of the sheet (also the last line of our own export) are not imported
+  isTotal: boolean;
+}
+
+const TOTAL_ROW_PATTERN = /^(sub)?totaa?l/i;
+
+// Builds the investment of one spreadsheet line and validates it like the investment dialog would
+function toPreviewRow(cells: string[], line: number, headers: string[], mapping: Field[]): PreviewRow {
+  const get = (field: Field) => {
+    const index = mapping.indexOf(field);
+    return index === -1 ? "" : (cells[index] ?? "").trim();
+  };
+  const errors: string[] = [];
+
+  const code = get("code");
+  const name = get("title");
+  const title = code && !name.startsWith(code) ? `${code} ${name}`.trim() : name;
+  const isTotal = [code, name, get("description")].some(value => TOTAL_ROW_PATTERN.test(value));
+  if (!name && !isTotal) errors.push("Systeem ontbreekt");
+
+  const rawType = get("type");
+  const rawStatus = get("status");
+  const rawCycle = get("cycleYears");
+  // "8", "8 jaar" and "elke 8 jaar" all mean an eight-year cycle
+  const cycleMatch = rawCycle.match(/\d+/);
+  const cycleYears = cycleMatch ? parseInt(cycleMatch[0]) : null;
+  if (rawCycle && (cycleYears === null || cycleYears < 1)) {
+    errors.push(`Ongeldige cyclus "${rawCycle}"`);
+  }
+
+  const years: ImportRowData["years"] = [];
+  mapping.forEach((field, index) => {
+    if (field !== "year") return;
+    const year = getHeaderYear(headers[index] ?? "");
+    const value = (cells[index] ?? "").trim();
+    if (year === null || !value) return;
+    const amount = parseAmountToCents(value);
+    if (amount === null || amount < 0) {
+      errors.push(`Ongeldig bedrag "${value}" in ${year}`);
+    } else if (amount > 0) {
+      years.push({ year, amount });
+    }
+  });
+
+  const data: ImportRowData = {
+    title,
+    description: get("description") || null,
+    category: get("category") ? normalizeCategory(get("category")) : null,
+    type: rawType ? typeValues[rawType.toLowerCase()] ?? rawType : "necessary",
+    status: rawStatus ? statusValues[rawStatus.toLowerCase()] ?? rawStatus : "afwachting",
+    isCyclic: !!cycleYears,
+    cycleYears: cycleYears || null,
+    years,
+  };
+
+  const result = investmentImportRowSchema.safeParse(data);
+  if (!result.success) {
+    const invalidFields = Array.from(new Set(result.error.issues.map(issue => String(issue.path[0]))));
+    invalidFields.forEach(field => {
+      if (field === "type") {
+        errors.push(`Onbekend type "${rawType}"`);
+      } else if (field === "status") {
+        errors.push(`Onbekende status "${rawStatus}"`);
+      } else {
+        errors.push(`Ongeldige waarde voor ${fieldLabels[field as Field] ?? field}`);
+      }
+    });
+  }
+
+  return { line, data, errors: isTotal ? [] : errors, isTotal };
+}
+
+interface InvestmentImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Imports a multi-year maintenance plan (MJOP) from a CSV or Excel file into investments
+export function InvestmentImportDialog({ open, onOpenChange }: InvestmentImportDialogProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<Field[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const { toast } = useToast();
+
+  const headers = rows[headerRow] ?? [];
+  const dataRows = rows.slice(headerRow + 1);
+  // A line can occur once; later duplicates are reported instead of overwriting the first
+  const seenTitles = new Set<string>();
+  const previewRows = step === "preview"
+    ? dataRows.map((cells, index) => {
+        const row = toPreviewRow(cells, headerRow + index + 2, headers, mapping);
+        const key = row.data.title.toLowerCase();
+        if (!key || row.isTotal) return row;
+        const isDuplicate = seenTitles.has(key);
+        seenTitles.add(key);
+        return isDuplicate ? { ...row, errors: [...row.errors, "Komt eerder voor in het bestand"] } : row;
+      })
+    : [];
+  const validRows = previewRows.filter(row => !row.isTotal && row.errors.length === 0);
+  const invalidRows = previewRows.filter(row => row.errors.length > 0);
+  const totalRows = previewRows.filter(row => row.isTotal);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName(null);
+    setRows([]);
+    setHeaderRow(0);
+    setMapping([]);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    onOpenChange(isOpen);
+    if (!isOpen) reset();
+  };
+
+  const applyHeaderRow = (parsed: string[][], index: number) => {
+    setHeaderRow(index);
+    setMapping(guessMapping(parsed[index] ?? []));
+  };
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    let parsed: string[][] = [];
+    try {
+      if (/\.csv$/i.test(file.name)) {
+        parsed = parseCsv(await file.text());
+      } else {
+        const formData = new FormData();
+        formData.append("file", file);
+        const response = await apiRequest("POST", "/api/spreadsheets/parse", formData);
+        parsed = ((await response.json()) as SpreadsheetParseResult).rows;
+      }
+    } catch {
+      parsed = [];
+    } finally {
+      setIsReading(false);
+    }
+
+    if (parsed.length < 2) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Geen regels gevonden in dit bestand",
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setRows(parsed);
+    applyHeaderRow(parsed, detectHeaderRow(parsed));
+    setStep("map");
+  };
+
+  const importMutation = useMutation<InvestmentImportResult, Error, InvestmentImportRow[]>({
+    mutationFn: async (data) => {
+      const response = await apiRequest("POST", "/api/investments/import", { investments: data });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && (
+            key.startsWith('/api/investments') ||
+            key.startsWith('/api/analytics/investments')
+          );
+        }
+      });
+      handleOpenChange(false);
+      toast({
+        title: "Succes",
+        description: `${result.created} ${result.created === 1 ? "investering" : "investeringen"} toegevoegd, ${result.updated} bijgewerkt`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon investeringen niet importeren",
+      });
+    },
+  });
+
+  const hasTitle = mapping.includes("title");
+  const yearColumns = mapping.filter(field => field === "year").length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>MJOP importeren</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Importeer een meerjarenonderhoudsplan uit een Excel- of CSV-bestand."}
+            {step === "map" && "Geef per kolom aan welk gegeven erin staat. Kolommen met een jaartal worden bedragen per jaar."}
+            {step === "preview" && "Controleer de regels. Bestaande investeringen met dezelfde titel of code worden bijgewerkt."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="investment-import-file">Bestand</Label>
+            <Input
+              id="investment-import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              disabled={isReading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = "";
+              }}
+              data-testid="input-investment-import-file"
+            />
+            {isReading && <p className="text-sm text-muted-foreground">Bestand wordt gelezen...</p>}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {dataRows.length} {dataRows.length === 1 ? "regel" : "regels"}
+              </p>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="investment-import-header-row" className="text-sm font-normal">Kolomnamen in rij</Label>
+                <Input
+                  id="investment-import-header-row"
+                  type="number"
+                  min={1}
+                  max={rows.length - 1}
+                  value={headerRow + 1}
+                  onChange={(e) => {
+                    const index = parseInt(e.target.value) - 1;
+                    if (index >= 0 && index < rows.length - 1) applyHeaderRow(rows, index);
+                  }}
+                  className="w-20"
+                  data-testid="input-investment-import-header-row"
+                />
+              </div>
+            </div>
+
+            <div className="rounded-md border divide-y max-h-96 overflow-y-auto">
+              {headers.map((header, index) => {
+                const isYear = getHeaderYear(header) !== null;
+                return (
+                  <div key={index} className="flex items-center justify-between gap-4 p-2" data-testid={`investment-import-column-${index}`}>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{header || `Kolom ${index + 1}`}</p>
+                      <p className="text-xs text-muted-foreground truncate">{dataRows[0]?.[index] || "-"}</p>
+                    </div>
+                    <Select
+                      value={mapping[index] ?? "ignore"}
+                      onValueChange={(value) => setMapping(mapping.map((field, i) => (i === index ? value as Field : field)))}
+                    >
+                      <SelectTrigger className="w-[180px]" data-testid={`select-investment-import-column-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(fieldLabels) as Field[])
+                          .filter(field => field !== "year" || isYear)
+                          .map(field => (
+                            <SelectItem key={field} value={field}>
+                              {field === "year" ? `Bedrag ${header.trim()}` : fieldLabels[field]}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+
+            {!hasTitle && (
+              <p className="text-sm text-destructive">Koppel een kolom aan Systeem om verder te gaan.</p>
+            )}
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={reset}>
+                Ander bestand
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={!hasTitle} data-testid="button-investment-import-preview">
+                Controleren ({yearColumns} {yearColumns === 1 ? "jaar" : "jaren"})
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="gap-1">
+                <CheckCircle2 className="h-3 w-3" />
+                {validRows.length} {validRows.length === 1 ? "regel" : "regels"} klaar voor import
+              </Badge>
+              {invalidRows.length > 0 && (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {invalidRows.length} met fouten, worden overgeslagen
+                </Badge>
+              )}
+              {totalRows.length > 0 && (
+                <Badge variant="outline">
+                  {totalRows.length} {totalRows.length === 1 ? "totaalregel" : "totaalregels"} genegeerd
+                </Badge>
+              )}
+            </div>
+
+            <div className="rounded-md border divide-y max-h-96 overflow-y-auto">
+              {previewRows.map(row => {
+                const total = row.data.years.reduce((sum, year) => sum + year.amount, 0);
+                return (
+                  <div
+                    key={row.line}
+                    className={`p-2 text-sm ${row.errors.length > 0 ? "bg-destructive/5" : row.isTotal ? "text-muted-foreground" : ""}`}
+                    data-testid={`investment-import-row-${row.line}`}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <span className="text-xs text-muted-foreground mr-2">Rij {row.line}</span>
+                        <span className="font-medium">{row.data.title || "-"}</span>
+                        {row.data.description && (
+                          <span className="text-muted-foreground"> - {row.data.description}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {row.isTotal && <Badge variant="outline">Genegeerd</Badge>}
+                        {row.data.isCyclic && <Badge variant="outline">Cyclus {row.data.cycleYears} jaar</Badge>}
+                        <span className="text-muted-foreground">
+                          {row.data.years.length} {row.data.years.length === 1 ? "jaar" : "jaren"}, € {formatEuro(total)}
+                        </span>
+                      </div>
+                    </div>
+                    {row.errors.length > 0 && (
+                      <p className="text-xs text-destructive mt-1">{row.errors.join(" · ")}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Terug
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(validRows.map(row => row.data as InvestmentImportRow))}
+                disabled={validRows.length === 0 || importMutation.isPending}
+                data-testid="button-investment-import"
+              >
+                {importMutation.isPending
+                  ? "Bezig..."
+                  : `${validRows.length} ${validRows.length === 1 ? "regel" : "regels"} importeren`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
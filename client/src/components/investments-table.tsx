@@ -1,6 +1,11 @@
+import { useState } from "react";
 import { Investment, InvestmentYear } from "@shared/schema";
+import { projectInvestmentYears, type ProjectedYear } from "@shared/investment-projection";
+import { indexAmount, type IndexationRate } from "@shared/indexation";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Pencil, Trash2, FileText } from "lucide-react";
 import { format } from "date-fns";
 import { nl } from "date-fns/locale";
@@ -15,6 +20,80 @@ interface InvestmentsTableProps {
   formatEuro: (amount: number) => string;
   startYear: number;
   endYear: number;
+  // Last year cyclic investments are projected into; null disables projection
+  projectionUntilYear: number | null;
+  onSaveYear: (investmentId: string, year: number, amount: number) => void;
+  // Shows indexed instead of entered amounts when set
+  indexation: IndexationRate | null;
+}
+
+interface ProjectedYearCellProps {
+  investment: InvestmentWithYears;
+  projection: ProjectedYear;
+  indexation: IndexationRate | null;
+  formatEuro: (amount: number) => string;
+  onSave: (amount: number) => void;
+}
+
+// Projected amount of a cyclic investment; confirming or overriding enters it as a budget year
+function ProjectedYearCell({ investment, projection, indexation, formatEuro, onSave }: ProjectedYearCellProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) setAmount((projection.amount / 100).toString());
+  };
+
+  const handleSave = () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value < 0) return;
+    onSave(Math.round(value * 100));
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="w-full text-right italic text-muted-foreground border border-dashed rounded-md px-2 py-1 hover-elevate"
+          title={`Geprojecteerd: cyclus van ${investment.cycleYears} jaar vanaf ${projection.baseYear}`}
+          data-testid={`projected-year-${investment.id}-${projection.year}`}
+        >
+          € {formatEuro(indexAmount(projection.amount, projection.year, indexation))}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Projectie {projection.year}</p>
+          <p className="text-xs text-muted-foreground">
+            Herhaling van {projection.baseYear}, cyclus van {investment.cycleYears} jaar
+          </p>
+          {indexation && (
+            <p className="text-xs text-muted-foreground">Bedrag in prijzen van {indexation.baseYear}</p>
+          )}
+        </div>
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          data-testid={`input-projected-year-${investment.id}-${projection.year}`}
+        />
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={handleSave}
+          data-testid={`button-confirm-projected-year-${investment.id}-${projection.year}`}
+        >
+          {Math.round(parseFloat(amount) * 100) === projection.amount ? "Bevestigen" : "Overschrijven"}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
 }
 
 export function InvestmentsTable({
@@ -25,6 +104,9 @@ export function InvestmentsTable({
   formatEuro,
   startYear,
   endYear,
+  projectionUntilYear,
+  onSaveYear,
+  indexation,
 }: InvestmentsTableProps) {
   // Generate all years in the selected range
   const years = Array.from(
@@ -38,11 +120,19 @@ export function InvestmentsTable({
     return yearData ? yearData.amount : null;
   };
 
-  // Calculate total budget per year
+  const projections = new Map(investments.map(investment => [
+    investment.id,
+    projectionUntilYear === null ? [] : projectInvestmentYears(investment, Math.min(projectionUntilYear, endYear)),
+  ]));
+
+  const getProjectionForYear = (investment: InvestmentWithYears, year: number) =>
+    projections.get(investment.id)?.find(p => p.year === year) ?? null;
+
+  // Calculate total budget per year, projected amounts included
   const getTotalForYear = (year: number) => {
     return investments.reduce((sum, investment) => {
-      const budget = getBudgetForYear(investment, year);
-      return sum + (budget || 0);
+      const budget = getBudgetForYear(investment, year) ?? getProjectionForYear(investment, year)?.amount;
+      return sum + indexAmount(budget || 0, year, indexation);
     }, 0);
   };
 
@@ -169,9 +259,27 @@ export function InvestmentsTable({
                   </td>
                   {years.map(year => {
                     const budget = getBudgetForYear(investment, year);
+                    const projection = budget === null ? getProjectionForYear(investment, year) : null;
+                    if (projection) {
+                      return (
+                        <td key={year} className="p-3 text-right">
+                          <ProjectedYearCell
+                            investment={investment}
+                            projection={projection}
+                            indexation={indexation}
+                            formatEuro={formatEuro}
+                            onSave={(amount) => onSaveYear(investment.id, year, amount)}
+                          />
+                        </td>
+                      );
+                    }
                     return (
-                      <td key={year} className="p-3 text-right font-semibold">
-                        {budget ? `€ ${formatEuro(budget)}` : '-'}
+                      <td
+                        key={year}
+                        className="p-3 text-right font-semibold"
+                        title={budget && indexation ? `Prijspeil ${indexation.baseYear}: € ${formatEuro(budget)}` : undefined}
+                      >
+                        {budget ? `€ ${formatEuro(indexAmount(budget, year, indexation))}` : '-'}
                       </td>
                     );
                   })}
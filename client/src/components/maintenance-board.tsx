@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, Pencil, Repeat, User } from "lucide-react";
+import { ChecklistProgress } from "@/components/maintenance-checklist";
+import { SlaBadge, useSlaTargets } from "@/components/sla-targets";
+import { useAuth } from "@/hooks/useAuth";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+
+type TaskStatus = "pending" | "in_progress" | "completed" | "cancelled";
+type TaskPriority = "low" | "medium" | "high" | "critical";
+export type Swimlane = "none" | "priority" | "assignee";
+
+export interface BoardTask {
+  id: string;
+  title: string;
+  location: string | null;
+  priority: TaskPriority;
+  status: TaskStatus;
+  assignee: string | null;
+  dueDate: Date | string | null;
+  createdAt?: Date | string | null;
+  scheduleId?: string | null;
+  checklistTotal?: number;
+  checklistDone?: number;
+}
+
+// Fields that change when a card is dropped in another column or swimlane
+export interface BoardMove {
+  status: TaskStatus;
+  priority?: TaskPriority;
+  assignee?: string | null;
+}
+
+interface MaintenanceBoardProps<T extends BoardTask> {
+  tasks: T[];
+  onEdit: (task: T) => void;
+  onMove: (task: T, move: BoardMove) => void;
+}
+
+// Follows the order of statusEnum in shared/schema.ts
+const columns: { status: TaskStatus; label: string }[] = [
+  { status: "pending", label: "In voorbereiding" },
+  { status: "in_progress", label: "In uitvoering" },
+  { status: "completed", label: "Afgerond" },
+  { status: "cancelled", label: "Geannuleerd" },
+];
+
+const priorityLanes: { value: TaskPriority; label: string }[] = [
+  { value: "critical", label: "Kritiek" },
+  { value: "high", label: "Hoog" },
+  { value: "medium", label: "Gemiddeld" },
+  { value: "low", label: "Laag" },
+];
+
+// Prefix for the per-user swimlane preference
+const SWIMLANE_KEY_PREFIX = "eduvium_maintenance_board_swimlane_";
+const UNASSIGNED_LANE = "__unassigned__";
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'critical': return 'destructive';
+    case 'high': return 'default';
+    case 'medium': return 'secondary';
+    case 'low': return 'outline';
+    default: return 'secondary';
+  }
+};
+
+const getPriorityLabel = (priority: string) =>
+  priorityLanes.find(p => p.value === priority)?.label ?? priority;
+
+export function MaintenanceBoard<T extends BoardTask>({ tasks, onEdit, onMove }: MaintenanceBoardProps<T>) {
+  const { user } = useAuth();
+  const swimlaneKey = `${SWIMLANE_KEY_PREFIX}${user?.id ?? "anonymous"}`;
+  const [swimlane, setSwimlane] = useState<Swimlane>(() => {
+    return (localStorage.getItem(swimlaneKey) as Swimlane) || "none";
+  });
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const slaTargets = useSlaTargets();
+
+  useEffect(() => {
+    setSwimlane((localStorage.getItem(swimlaneKey) as Swimlane) || "none");
+  }, [swimlaneKey]);
+
+  const handleSwimlaneChange = (value: Swimlane) => {
+    setSwimlane(value);
+    localStorage.setItem(swimlaneKey, value);
+  };
+
+  // Build lanes: a single lane without swimlanes, otherwise one per priority or assignee
+  const lanes: { key: string; label: string }[] = (() => {
+    if (swimlane === "priority") {
+      return priorityLanes.map(p => ({ key: p.value, label: p.label }));
+    }
+    if (swimlane === "assignee") {
+      const assignees = Array.from(new Set(tasks.map(t => t.assignee).filter((a): a is string => !!a)))
+        .sort((a, b) => a.localeCompare(b, 'nl'));
+      return [
+        ...assignees.map(a => ({ key: a, label: a })),
+        { key: UNASSIGNED_LANE, label: "Niet toegewezen" },
+      ];
+    }
+    return [{ key: "all", label: "" }];
+  })();
+
+  const isInLane = (task: T, laneKey: string) => {
+    if (swimlane === "priority") return task.priority === laneKey;
+    if (swimlane === "assignee") return laneKey === UNASSIGNED_LANE ? !task.assignee : task.assignee === laneKey;
+    return true;
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus, laneKey: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const taskId = e.dataTransfer.getData("text/plain") || draggedTaskId;
+    setDraggedTaskId(null);
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const move: BoardMove = { status };
+    if (swimlane === "priority" && task.priority !== laneKey) {
+      move.priority = laneKey as TaskPriority;
+    }
+    if (swimlane === "assignee" && !isInLane(task, laneKey)) {
+      move.assignee = laneKey === UNASSIGNED_LANE ? null : laneKey;
+    }
+
+    if (move.status === task.status && move.priority === undefined && move.assignee === undefined) return;
+    onMove(task, move);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="maintenance-board">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="board-swimlane" className="text-sm text-muted-foreground">Groeperen op</Label>
+        <Select value={swimlane} onValueChange={(value) => handleSwimlaneChange(value as Swimlane)}>
+          <SelectTrigger id="board-swimlane" className="w-[180px]" data-testid="select-board-swimlane">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Geen</SelectItem>
+            <SelectItem value="priority">Prioriteit</SelectItem>
+            <SelectItem value="assignee">Toegewezen aan</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[900px] space-y-4">
+          {/* Column headers */}
+          <div className="grid grid-cols-4 gap-4">
+            {columns.map(column => (
+              <div key={column.status} className="flex items-center justify-between px-2 text-sm font-semibold">
+                <span>{column.label}</span>
+                <Badge variant="secondary">{tasks.filter(t => t.status === column.status).length}</Badge>
+              </div>
+            ))}
+          </div>
+
+          {lanes.map(lane => (
+            <div key={lane.key} className="space-y-2" data-testid={`board-lane-${lane.key}`}>
+              {lane.label && (
+                <div className="text-sm font-medium text-muted-foreground border-b pb-1">{lane.label}</div>
+              )}
+              <div className="grid grid-cols-4 gap-4">
+                {columns.map(column => {
+                  const cellKey = `${lane.key}:${column.status}`;
+                  const cellTasks = tasks.filter(t => t.status === column.status && isInLane(t, lane.key));
+                  return (
+                    <div
+                      key={cellKey}
+                      className={`min-h-[120px] p-2 rounded-md bg-muted/30 space-y-2 transition-colors ${dropTarget === cellKey ? 'ring-2 ring-primary bg-primary/5' : ''}`}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = "move";
+                        if (dropTarget !== cellKey) setDropTarget(cellKey);
+                      }}
+                      onDragLeave={() => setDropTarget(prev => (prev === cellKey ? null : prev))}
+                      onDrop={(e) => handleDrop(e, column.status, lane.key)}
+                      data-testid={`board-column-${column.status}${lane.key !== "all" ? `-${lane.key}` : ""}`}
+                    >
+                      {cellTasks.map(task => (
+                        <Card
+                          key={task.id}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData("text/plain", task.id);
+                            e.dataTransfer.effectAllowed = "move";
+                            setDraggedTaskId(task.id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedTaskId(null);
+                            setDropTarget(null);
+                          }}
+                          className={`p-3 cursor-grab active:cursor-grabbing hover-elevate ${draggedTaskId === task.id ? 'opacity-50' : ''}`}
+                          data-testid={`board-card-${task.id}`}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <span className="text-sm font-medium">{task.title}</span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 shrink-0"
+                              onClick={() => onEdit(task)}
+                              data-testid={`button-board-edit-${task.id}`}
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1 mt-2">
+                            {swimlane !== "priority" && (
+                              <Badge variant={getPriorityColor(task.priority) as any} className="text-xs">
+                                {getPriorityLabel(task.priority)}
+                              </Badge>
+                            )}
+                            {task.scheduleId && (
+                              <Badge variant="outline" className="text-xs gap-1">
+                                <Repeat className="h-3 w-3" />
+                                Terugkerend
+                              </Badge>
+                            )}
+                            <SlaBadge item={{ ...task, createdAt: task.createdAt ?? null }} targets={slaTargets} className="text-xs" />
+                          </div>
+                          {task.location && (
+                            <p className="text-xs text-muted-foreground mt-2 truncate">{task.location}</p>
+                          )}
+                          <ChecklistProgress done={task.checklistDone ?? 0} total={task.checklistTotal ?? 0} compact className="mt-2" />
+                          <div className="flex items-center justify-between gap-2 mt-2 text-xs text-muted-foreground">
+                            {task.dueDate ? (
+                              <span className="flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                {format(new Date(task.dueDate), "d MMM", { locale: nl })}
+                              </span>
+                            ) : <span />}
+                            {task.assignee && swimlane !== "assignee" && (
+                              <span className="flex items-center gap-1 truncate">
+                                <User className="h-3 w-3" />
+                                {task.assignee}
+                              </span>
+                            )}
+                          </div>
+                        </Card>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
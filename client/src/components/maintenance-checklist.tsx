@@ -0,0 +1,640 @@
+import { useState, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Plus, Pencil, Trash2, X, ArrowUp, ArrowDown, Camera, MessageSquare, ListChecks, Save, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Thumbnail } from "@/components/attachment-gallery";
+import type { MaintenanceChecklistItem, ChecklistTemplate, ClientInsertMaintenanceChecklistItem, ClientInsertChecklistTemplate, Document } from "@shared/schema";
+
+const getChecklistKey = (taskId: string) => `/api/maintenance/${taskId}/checklist`;
+const getDocumentsKey = (taskId: string) => `/api/maintenance/${taskId}/documents`;
+
+// Sentinel for the "apply template" select, which acts as an action rather than a value
+const NONE = "none";
+
+const invalidateChecklist = (taskId: string) => {
+  queryClient.invalidateQueries({ queryKey: [getChecklistKey(taskId)] });
+  // Task list carries the checklist progress counts
+  queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+};
+
+// Appends the items of a template to a task's checklist
+export async function applyChecklistTemplate(taskId: string, templateId: string) {
+  await apiRequest("POST", `${getChecklistKey(taskId)}/from-template`, { templateId });
+  invalidateChecklist(taskId);
+}
+
+export function useChecklistTemplates() {
+  return useQuery<ChecklistTemplate[]>({
+    queryKey: ["/api/checklist-templates"],
+  });
+}
+
+interface ChecklistProgressProps {
+  done: number;
+  total: number;
+  compact?: boolean;
+  className?: string;
+}
+
+// Progress indicator for task cards; renders nothing for tasks without a checklist
+export function ChecklistProgress({ done, total, compact = false, className = "" }: ChecklistProgressProps) {
+  if (total === 0) return null;
+  const percentage = Math.round((done / total) * 100);
+
+  return (
+    <div className={`flex items-center gap-2 ${compact ? "text-xs" : "text-sm"} text-muted-foreground ${className}`} data-testid="checklist-progress">
+      <ListChecks className={compact ? "h-3 w-3" : "h-4 w-4"} />
+      <Progress value={percentage} className={compact ? "h-1.5 flex-1" : "h-2 w-32"} />
+      <span>{done}/{total}</span>
+    </div>
+  );
+}
+
+interface ChecklistRowProps {
+  item: MaintenanceChecklistItem;
+  taskId: string;
+  photo?: Document;
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (data: Partial<ClientInsertMaintenanceChecklistItem>) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}
+
+function ChecklistRow({ item, taskId, photo, isFirst, isLast, onUpdate, onMove, onDelete }: ChecklistRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [notes, setNotes] = useState(item.notes ?? "");
+  const [isUploading, setIsUploading] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Photos are stored as task documents and referenced from the item
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (photoInputRef.current) {
+      photoInputRef.current.value = "";
+    }
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await apiRequest("POST", getDocumentsKey(taskId), formData);
+      const document = (await response.json()) as Document;
+      queryClient.invalidateQueries({ queryKey: [getDocumentsKey(taskId)] });
+      onUpdate({ photoDocumentId: document.id });
+      setExpanded(true);
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon foto niet uploaden",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-md" data-testid={`checklist-item-${item.id}`}>
+      <div className="flex items-center gap-2 p-2">
+        <Checkbox
+          checked={item.isDone}
+          onCheckedChange={(checked) => onUpdate({
+            isDone: checked === true,
+            completedAt: checked === true ? new Date() : null,
+          })}
+          data-testid={`checkbox-checklist-item-${item.id}`}
+        />
+        <button
+          type="button"
+          className={`flex-1 text-left text-sm ${item.isDone ? "line-through text-muted-foreground" : ""}`}
+          onClick={() => setExpanded(!expanded)}
+        >
+          {item.title}
+        </button>
+        {item.notes && !expanded && <MessageSquare className="h-3 w-3 text-muted-foreground" />}
+        {item.photoDocumentId && !expanded && <Camera className="h-3 w-3 text-muted-foreground" />}
+        <input
+          ref={photoInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handlePhotoSelect}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => photoInputRef.current?.click()}
+          disabled={isUploading}
+          data-testid={`button-checklist-photo-${item.id}`}
+        >
+          {isUploading ? <Loader2 className="h-3 w-3 animate-spin" /> : <Camera className="h-3 w-3" />}
+        </Button>
+        <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => onMove(-1)} disabled={isFirst}>
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => onMove(1)} disabled={isLast}>
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onDelete}
+          data-testid={`button-delete-checklist-item-${item.id}`}
+        >
+          <X className="h-3 w-3 text-destructive" />
+        </Button>
+      </div>
+      {expanded && (
+        <div className="flex gap-3 px-2 pb-2">
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            onBlur={() => notes !== (item.notes ?? "") && onUpdate({ notes: notes || null })}
+            placeholder="Notities bij dit controlepunt"
+            className="min-h-[60px] text-sm"
+            data-testid={`input-checklist-notes-${item.id}`}
+          />
+          {photo && (
+            <div className="relative h-[60px] w-[80px] shrink-0 border rounded-md overflow-hidden bg-muted flex items-center justify-center">
+              <Thumbnail document={photo} />
+              <Button
+                type="button"
+                size="icon"
+                variant="secondary"
+                className="absolute top-0.5 right-0.5 h-5 w-5"
+                onClick={() => onUpdate({ photoDocumentId: null })}
+                data-testid={`button-remove-checklist-photo-${item.id}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Ordered checklist of a task with done state, notes and a photo per item
+export function MaintenanceChecklist({ taskId }: { taskId: string }) {
+  const [newItemTitle, setNewItemTitle] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [templatePopoverOpen, setTemplatePopoverOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: items = [], isLoading } = useQuery<MaintenanceChecklistItem[]>({
+    queryKey: [getChecklistKey(taskId)],
+  });
+
+  const { data: documents = [] } = useQuery<Document[]>({
+    queryKey: [getDocumentsKey(taskId)],
+  });
+
+  const { data: templates = [] } = useChecklistTemplates();
+
+  const sortedItems = [...items].sort((a, b) => a.order - b.order);
+  const doneCount = items.filter(item => item.isDone).length;
+
+  const addItemMutation = useMutation<void, Error, string>({
+    mutationFn: async (title) => {
+      const order = sortedItems.length > 0 ? sortedItems[sortedItems.length - 1].order + 1 : 0;
+      await apiRequest("POST", getChecklistKey(taskId), { title, order });
+    },
+    onSuccess: () => {
+      invalidateChecklist(taskId);
+      setNewItemTitle("");
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon controlepunt niet toevoegen",
+      });
+    },
+  });
+
+  // Optimistic so ticking off a long round of checks stays responsive
+  const updateItemMutation = useMutation<void, Error, { id: string; data: Partial<ClientInsertMaintenanceChecklistItem> }, { previous?: MaintenanceChecklistItem[] }>({
+    mutationFn: async ({ id, data }) => {
+      await apiRequest("PATCH", `${getChecklistKey(taskId)}/${id}`, data);
+    },
+    onMutate: async ({ id, data }) => {
+      await queryClient.cancelQueries({ queryKey: [getChecklistKey(taskId)] });
+      const previous = queryClient.getQueryData<MaintenanceChecklistItem[]>([getChecklistKey(taskId)]);
+      queryClient.setQueryData<MaintenanceChecklistItem[]>([getChecklistKey(taskId)], (old = []) =>
+        old.map(item => (item.id === id ? { ...item, ...data } as MaintenanceChecklistItem : item))
+      );
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData([getChecklistKey(taskId)], context.previous);
+      }
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon controlepunt niet bijwerken",
+      });
+    },
+    onSettled: () => {
+      invalidateChecklist(taskId);
+    },
+  });
+
+  const deleteItemMutation = useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      await apiRequest("DELETE", `${getChecklistKey(taskId)}/${id}`);
+    },
+    onSuccess: () => {
+      invalidateChecklist(taskId);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon controlepunt niet verwijderen",
+      });
+    },
+  });
+
+  const reorderMutation = useMutation<void, Error, string[]>({
+    mutationFn: async (itemIds) => {
+      await apiRequest("POST", `${getChecklistKey(taskId)}/reorder`, { itemIds });
+    },
+    onMutate: (itemIds) => {
+      queryClient.setQueryData<MaintenanceChecklistItem[]>([getChecklistKey(taskId)], (old = []) =>
+        old.map(item => ({ ...item, order: itemIds.indexOf(item.id) }))
+      );
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon volgorde niet opslaan",
+      });
+    },
+    onSettled: () => {
+      invalidateChecklist(taskId);
+    },
+  });
+
+  const applyTemplateMutation = useMutation<void, Error, string>({
+    mutationFn: (templateId) => applyChecklistTemplate(taskId, templateId),
+    onSuccess: () => {
+      toast({
+        title: "Succes",
+        description: "Sjabloon toegevoegd aan checklist",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon sjabloon niet toepassen",
+      });
+    },
+  });
+
+  const saveAsTemplateMutation = useMutation<void, Error, ClientInsertChecklistTemplate>({
+    mutationFn: async (data) => {
+      await apiRequest("POST", "/api/checklist-templates", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checklist-templates"] });
+      setTemplatePopoverOpen(false);
+      setTemplateName("");
+      toast({
+        title: "Succes",
+        description: "Checklist opgeslagen als sjabloon",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon sjabloon niet opslaan",
+      });
+    },
+  });
+
+  const handleAddItem = () => {
+    const title = newItemTitle.trim();
+    if (!title) return;
+    addItemMutation.mutate(title);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = sortedItems.map(item => item.id);
+    const target = index + direction;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  return (
+    <div className="space-y-2" data-testid={`checklist-${taskId}`}>
+      <div className="flex items-center justify-between gap-2">
+        <ChecklistProgress done={doneCount} total={items.length} />
+        <div className="flex items-center gap-2 ml-auto">
+          {templates.length > 0 && (
+            <Select
+              value={NONE}
+              onValueChange={(templateId) => templateId !== NONE && applyTemplateMutation.mutate(templateId)}
+            >
+              <SelectTrigger className="h-8 w-[180px]" data-testid="select-apply-checklist-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE} disabled>Sjabloon toevoegen</SelectItem>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name} ({template.items.length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {items.length > 0 && (
+            <Popover open={templatePopoverOpen} onOpenChange={setTemplatePopoverOpen}>
+              <PopoverTrigger asChild>
+                <Button type="button" variant="outline" size="sm" data-testid="button-save-checklist-template">
+                  <Save className="h-4 w-4 mr-2" />
+                  Als sjabloon
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-2" align="end">
+                <Label htmlFor="checklist-template-name">Naam sjabloon</Label>
+                <Input
+                  id="checklist-template-name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="Bijv. Jaarlijkse opname"
+                  data-testid="input-checklist-template-name"
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  className="w-full"
+                  disabled={!templateName.trim() || saveAsTemplateMutation.isPending}
+                  onClick={() => saveAsTemplateMutation.mutate({
+                    name: templateName.trim(),
+                    items: sortedItems.map(item => item.title),
+                  })}
+                >
+                  Opslaan
+                </Button>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Laden...</p>
+      ) : (
+        <div className="space-y-1">
+          {sortedItems.map((item, index) => (
+            <ChecklistRow
+              key={item.id}
+              item={item}
+              taskId={taskId}
+              photo={documents.find(doc => doc.id === item.photoDocumentId)}
+              isFirst={index === 0}
+              isLast={index === sortedItems.length - 1}
+              onUpdate={(data) => updateItemMutation.mutate({ id: item.id, data })}
+              onMove={(direction) => handleMove(index, direction)}
+              onDelete={() => deleteItemMutation.mutate(item.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newItemTitle}
+          onChange={(e) => setNewItemTitle(e.target.value)}
+          onKeyDown={(e) => {
+            // The checklist lives inside the task form; Enter adds an item instead of submitting
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAddItem();
+            }
+          }}
+          placeholder="Nieuw controlepunt"
+          data-testid="input-new-checklist-item"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAddItem}
+          disabled={!newItemTitle.trim() || addItemMutation.isPending}
+          data-testid="button-add-checklist-item"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TemplateFormState {
+  name: string;
+  items: string;
+}
+
+const emptyTemplateForm: TemplateFormState = { name: "", items: "" };
+
+// Manages the school's reusable checklist templates
+export function ChecklistTemplatesDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [editingTemplate, setEditingTemplate] = useState<ChecklistTemplate | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deleteTemplateId, setDeleteTemplateId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<TemplateFormState>(emptyTemplateForm);
+  const { toast } = useToast();
+
+  const { data: templates = [], isLoading } = useChecklistTemplates();
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingTemplate(null);
+    setFormData(emptyTemplateForm);
+  };
+
+  const saveTemplateMutation = useMutation<void, Error, { id?: string; data: ClientInsertChecklistTemplate }>({
+    mutationFn: async ({ id, data }) => {
+      await apiRequest(id ? "PATCH" : "POST", id ? `/api/checklist-templates/${id}` : "/api/checklist-templates", data);
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checklist-templates"] });
+      closeForm();
+      toast({
+        title: "Succes",
+        description: id ? "Sjabloon succesvol bijgewerkt" : "Sjabloon succesvol aangemaakt",
+      });
+    },
+    onError: (_, { id }) => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: id ? "Kon sjabloon niet bijwerken" : "Kon sjabloon niet aanmaken",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      await apiRequest("DELETE", `/api/checklist-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checklist-templates"] });
+      setDeleteTemplateId(null);
+      toast({
+        title: "Succes",
+        description: "Sjabloon succesvol verwijderd",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon sjabloon niet verwijderen",
+      });
+    },
+  });
+
+  const handleEdit = (template: ChecklistTemplate) => {
+    setEditingTemplate(template);
+    setFormData({ name: template.name, items: template.items.join("\n") });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = () => {
+    const items = formData.items.split("\n").map(line => line.trim()).filter(Boolean);
+    if (!formData.name.trim() || items.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Naam en minimaal één controlepunt zijn verplicht",
+      });
+      return;
+    }
+    saveTemplateMutation.mutate({
+      id: editingTemplate?.id,
+      data: { name: formData.name.trim(), items },
+    });
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(isOpen) => { onOpenChange(isOpen); if (!isOpen) closeForm(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Checklist sjablonen</DialogTitle>
+          </DialogHeader>
+
+          {isFormOpen ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Naam *</Label>
+                <Input
+                  id="template-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Bijv. Jaarlijkse opname"
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-items">Controlepunten * (één per regel)</Label>
+                <Textarea
+                  id="template-items"
+                  value={formData.items}
+                  onChange={(e) => setFormData({ ...formData, items: e.target.value })}
+                  className="min-h-[240px]"
+                  placeholder={"Dakgoten controleren\nNoodverlichting testen\nBrandblussers controleren"}
+                  data-testid="input-template-items"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={closeForm}>Annuleren</Button>
+                <Button onClick={handleSubmit} disabled={saveTemplateMutation.isPending} data-testid="button-submit-template">
+                  {saveTemplateMutation.isPending ? "Bezig..." : editingTemplate ? "Sjabloon Bijwerken" : "Sjabloon Aanmaken"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <Button onClick={() => setIsFormOpen(true)} data-testid="button-new-template">
+                <Plus className="h-4 w-4 mr-2" />
+                Nieuw Sjabloon
+              </Button>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Laden...</p>
+              ) : templates.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">Nog geen sjablonen</p>
+              ) : (
+                <div className="space-y-2">
+                  {templates.map(template => (
+                    <div key={template.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg" data-testid={`template-${template.id}`}>
+                      <div>
+                        <p className="font-medium">{template.name}</p>
+                        <p className="text-sm text-muted-foreground">{template.items.length} controlepunten</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(template)} data-testid={`button-edit-template-${template.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setDeleteTemplateId(template.id)} data-testid={`button-delete-template-${template.id}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteTemplateId !== null} onOpenChange={() => setDeleteTemplateId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sjabloon verwijderen</AlertDialogTitle>
+            <AlertDialogDescription>
+              Weet je zeker dat je dit sjabloon wilt verwijderen? Bestaande checklists blijven behouden.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTemplateId && deleteTemplateMutation.mutate(deleteTemplateId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-template"
+            >
+              Verwijderen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
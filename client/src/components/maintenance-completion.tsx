@@ -0,0 +1,222 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DatePicker } from "@/components/date-picker";
+import { useToast } from "@/hooks/use-toast";
+import { useSchool } from "@/contexts/school-context";
+import { Euro } from "lucide-react";
+import type { MaintenanceHistory, MaintenanceCompletion, CompletionHistoryEntry, Investment, ClientInsertMaintenance } from "@shared/schema";
+
+export interface CompletionTask {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+}
+
+interface MaintenanceCompletionDialogProps {
+  // Dialog is open while a task is set
+  task: CompletionTask | null;
+  // Other task fields saved together with the status change (e.g. the edit form or a board move)
+  taskUpdate?: Partial<ClientInsertMaintenance>;
+  onOpenChange: (open: boolean) => void;
+  onCompleted?: () => void;
+}
+
+interface CompletionFormState {
+  completedDate: Date | null;
+  cost: string;
+  company: string;
+  investmentId: string | null;
+}
+
+// Sentinel for "no investment" (Radix Select does not accept empty string values)
+const NONE = "none";
+
+const formatEuro = (cents: number) =>
+  (cents / 100).toLocaleString('nl-NL', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const emptyForm = (): CompletionFormState => ({
+  completedDate: new Date(),
+  cost: "",
+  company: "",
+  investmentId: null,
+});
+
+// Asks for cost, company and completion date when a task is completed and records it in the maintenance history
+export function MaintenanceCompletionDialog({ task, taskUpdate, onOpenChange, onCompleted }: MaintenanceCompletionDialogProps) {
+  const [formData, setFormData] = useState<CompletionFormState>(emptyForm);
+  const { activeSchool } = useSchool();
+  const { toast } = useToast();
+
+  const year = (formData.completedDate ?? new Date()).getFullYear();
+
+  const { data: investments = [] } = useQuery<Investment[]>({
+    queryKey: [`/api/investments?schoolId=${activeSchool?.id}&startYear=${year}&endYear=${year}`],
+    enabled: !!task && !!activeSchool,
+  });
+
+  useEffect(() => {
+    if (task) setFormData(emptyForm());
+  }, [task?.id]);
+
+  const completeMutation = useMutation<MaintenanceHistory, Error, CompletionTask>({
+    mutationFn: async (completedTask) => {
+      const completion: MaintenanceCompletion = {
+        completedDate: formData.completedDate ?? new Date(),
+        cost: formData.cost ? Math.round(parseFloat(formData.cost.replace(',', '.')) * 100) : undefined,
+        company: formData.company || undefined,
+        investmentId: formData.investmentId,
+        taskUpdate,
+      };
+      const response = await apiRequest("POST", `/api/maintenance/${completedTask.id}/complete`, completion);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+      // Completing a task also completes the reports linked to it
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && (
+            key.startsWith('/api/maintenance-history') ||
+            key.startsWith('/api/analytics/maintenance-history') ||
+            key.startsWith('/api/analytics/budget-actuals')
+          );
+        }
+      });
+      toast({
+        title: "Succes",
+        description: "Taak afgerond en vastgelegd in onderhoud historie",
+      });
+      onOpenChange(false);
+      onCompleted?.();
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon taak niet afronden",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!task) return;
+    if (!formData.completedDate) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Datum afgerond is verplicht",
+      });
+      return;
+    }
+    if (formData.cost && isNaN(parseFloat(formData.cost.replace(',', '.')))) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kosten moeten een geldig bedrag zijn",
+      });
+      return;
+    }
+    completeMutation.mutate(task);
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Taak afronden</DialogTitle>
+          <DialogDescription>
+            {task?.title} wordt vastgelegd in de onderhoud historie.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Datum afgerond *</Label>
+            <DatePicker
+              value={formData.completedDate}
+              onChange={(date) => setFormData({ ...formData, completedDate: date })}
+              testId="input-completion-date"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="completion-cost">Kosten (€)</Label>
+              <Input
+                id="completion-cost"
+                inputMode="decimal"
+                value={formData.cost}
+                onChange={(e) => setFormData({ ...formData, cost: e.target.value })}
+                placeholder="0,00"
+                data-testid="input-completion-cost"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="completion-company">Uitvoerend bedrijf</Label>
+              <Input
+                id="completion-company"
+                value={formData.company}
+                onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+                data-testid="input-completion-company"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Investering (optioneel)</Label>
+            <Select
+              value={formData.investmentId ?? NONE}
+              onValueChange={(value) => setFormData({ ...formData, investmentId: value === NONE ? null : value })}
+            >
+              <SelectTrigger data-testid="select-completion-investment">
+                <SelectValue placeholder="Selecteer investering" />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                <SelectItem value={NONE}>Geen</SelectItem>
+                {investments.map(investment => (
+                  <SelectItem key={investment.id} value={investment.id}>{investment.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-completion">
+              Annuleren
+            </Button>
+            <Button type="submit" disabled={completeMutation.isPending} data-testid="button-submit-completion">
+              {completeMutation.isPending ? "Bezig..." : "Afronden"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Shows the maintenance history entries created when the task was completed
+export function CompletedTaskHistory({ taskId, entries }: { taskId: string; entries: CompletionHistoryEntry[] }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-1" data-testid={`task-history-${taskId}`}>
+      {entries.map(entry => (
+        <div key={entry.id} className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <Euro className="h-4 w-4" />
+          <span className="font-medium text-foreground">
+            {entry.cost != null ? `€ ${formatEuro(entry.cost)}` : "Geen kosten"}
+          </span>
+          {entry.company && <span>· {entry.company}</span>}
+          {entry.completedDate && <span>· {new Date(entry.completedDate).toLocaleDateString('nl-NL')}</span>}
+          <span>· in onderhoud historie</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,667 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Plus, Pencil, Trash2, Repeat, SkipForward, Undo2, CalendarClock, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, addMonths } from "date-fns";
+import { nl } from "date-fns/locale";
+import { DatePicker } from "@/components/date-picker";
+import { getOccurrences, formatInterval, toDayKey, type IntervalUnit, type Occurrence } from "@shared/recurrence";
+import type { Maintenance, MaintenanceSchedule, MaintenanceScheduleException, ClientInsertMaintenanceSchedule } from "@shared/schema";
+
+export type MaintenanceScheduleWithExceptions = MaintenanceSchedule & { exceptions: MaintenanceScheduleException[] };
+
+type SchedulePriority = NonNullable<ClientInsertMaintenanceSchedule['priority']>;
+
+interface ScheduleFormState {
+  title: string;
+  description: string;
+  location: string;
+  assignee: string;
+  priority: SchedulePriority;
+  intervalUnit: IntervalUnit;
+  intervalCount: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  leadTimeDays: string;
+}
+
+interface UpcomingOccurrence extends Occurrence {
+  schedule: MaintenanceScheduleWithExceptions;
+}
+
+const emptyForm: ScheduleFormState = {
+  title: "",
+  description: "",
+  location: "",
+  assignee: "",
+  priority: "medium",
+  intervalUnit: "year",
+  intervalCount: "1",
+  startDate: null,
+  endDate: null,
+  leadTimeDays: "30",
+};
+
+// Number of months shown in the "komende uitvoeringen" list
+const UPCOMING_MONTHS = 12;
+
+// Expands all active schedules into occurrences within a date range
+export function getScheduleOccurrences(
+  schedules: MaintenanceScheduleWithExceptions[],
+  from: Date,
+  to: Date,
+): UpcomingOccurrence[] {
+  return schedules
+    .filter(schedule => schedule.isActive)
+    .flatMap(schedule =>
+      getOccurrences(schedule, schedule.exceptions, from, to).map(occurrence => ({ ...occurrence, schedule }))
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function MaintenanceSchedules() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<MaintenanceScheduleWithExceptions | null>(null);
+  const [deleteScheduleId, setDeleteScheduleId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ScheduleFormState>(emptyForm);
+  const [shiftingOccurrence, setShiftingOccurrence] = useState<UpcomingOccurrence | null>(null);
+  const [shiftDate, setShiftDate] = useState<Date | null>(null);
+  const { toast } = useToast();
+
+  const { data: schedules = [], isLoading } = useQuery<MaintenanceScheduleWithExceptions[]>({
+    queryKey: ["/api/maintenance-schedules"],
+  });
+
+  const { data: tasks = [] } = useQuery<Maintenance[]>({
+    queryKey: ["/api/maintenance"],
+  });
+
+  const invalidateSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance-schedules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+  };
+
+  // Saving also generates the tasks that already fall within the lead time
+  const saveScheduleMutation = useMutation<{ created: number }, Error, { id?: string; data: ClientInsertMaintenanceSchedule }>({
+    mutationFn: async ({ id, data }) => {
+      const payload = {
+        ...data,
+        startDate: data.startDate.toISOString(),
+        endDate: data.endDate ? data.endDate.toISOString() : null,
+      };
+      await apiRequest(id ? "PATCH" : "POST", id ? `/api/maintenance-schedules/${id}` : "/api/maintenance-schedules", payload);
+      const response = await apiRequest("POST", "/api/maintenance-schedules/generate", {});
+      return response.json();
+    },
+    onSuccess: (result, { id }) => {
+      invalidateSchedules();
+      handleDialogChange(false);
+      const saved = id ? "Schema succesvol bijgewerkt" : "Schema succesvol aangemaakt";
+      toast({
+        title: "Succes",
+        description: result.created === 0
+          ? saved
+          : `${saved}, ${result.created === 1 ? "1 taak" : `${result.created} taken`} aangemaakt`,
+      });
+    },
+    onError: (_, { id }) => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: id ? "Kon schema niet bijwerken" : "Kon schema niet aanmaken",
+      });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      await apiRequest("DELETE", `/api/maintenance-schedules/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+      setDeleteScheduleId(null);
+      toast({
+        title: "Succes",
+        description: "Schema succesvol verwijderd",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon schema niet verwijderen",
+      });
+    },
+  });
+
+  // Generates maintenance tasks for occurrences that entered a schedule's lead time since the last save
+  const generateTasksMutation = useMutation<{ created: number }, Error, void>({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/maintenance-schedules/generate", {});
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidateSchedules();
+      toast({
+        title: "Succes",
+        description: result.created === 1 ? "1 taak aangemaakt" : `${result.created} taken aangemaakt`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon taken niet genereren",
+      });
+    },
+  });
+
+  const createExceptionMutation = useMutation<void, Error, { occurrence: UpcomingOccurrence; type: "skip" | "shift"; shiftedDate?: Date }>({
+    mutationFn: async ({ occurrence, type, shiftedDate }) => {
+      await apiRequest("POST", `/api/maintenance-schedules/${occurrence.schedule.id}/exceptions`, {
+        occurrenceDate: occurrence.occurrenceDate.toISOString(),
+        type,
+        shiftedDate: shiftedDate ? shiftedDate.toISOString() : null,
+      });
+    },
+    onSuccess: (_, { type }) => {
+      invalidateSchedules();
+      setShiftingOccurrence(null);
+      setShiftDate(null);
+      toast({
+        title: "Succes",
+        description: type === "skip" ? "Uitvoering overgeslagen" : "Uitvoering verplaatst",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon uitvoering niet aanpassen",
+      });
+    },
+  });
+
+  const deleteExceptionMutation = useMutation<void, Error, UpcomingOccurrence>({
+    mutationFn: async (occurrence) => {
+      await apiRequest("DELETE", `/api/maintenance-schedules/${occurrence.schedule.id}/exceptions/${occurrence.exceptionId}`);
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+      toast({
+        title: "Succes",
+        description: "Uitvoering hersteld",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon uitvoering niet herstellen",
+      });
+    },
+  });
+
+  const handleDialogChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setEditingSchedule(null);
+      setFormData(emptyForm);
+    }
+  };
+
+  const handleEdit = (schedule: MaintenanceScheduleWithExceptions) => {
+    setEditingSchedule(schedule);
+    setFormData({
+      title: schedule.title,
+      description: schedule.description || "",
+      location: schedule.location || "",
+      assignee: schedule.assignee || "",
+      priority: schedule.priority,
+      intervalUnit: schedule.intervalUnit,
+      intervalCount: schedule.intervalCount.toString(),
+      startDate: new Date(schedule.startDate),
+      endDate: schedule.endDate ? new Date(schedule.endDate) : null,
+      leadTimeDays: schedule.leadTimeDays.toString(),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const intervalCount = parseInt(formData.intervalCount, 10);
+    const leadTimeDays = parseInt(formData.leadTimeDays, 10);
+
+    if (!formData.title || !formData.startDate || isNaN(intervalCount) || intervalCount < 1) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Vul alle verplichte velden in",
+      });
+      return;
+    }
+
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      toast({
+        variant: "destructive",
+        title: "Ongeldige datums",
+        description: "Einddatum moet op of na de startdatum zijn",
+      });
+      return;
+    }
+
+    saveScheduleMutation.mutate({
+      id: editingSchedule?.id,
+      data: {
+        title: formData.title,
+        description: formData.description || null,
+        location: formData.location || null,
+        assignee: formData.assignee || null,
+        priority: formData.priority,
+        intervalUnit: formData.intervalUnit,
+        intervalCount,
+        startDate: formData.startDate,
+        endDate: formData.endDate,
+        leadTimeDays: isNaN(leadTimeDays) ? 30 : leadTimeDays,
+        isActive: editingSchedule ? editingSchedule.isActive : true,
+      },
+    });
+  };
+
+  // Occurrences that already have a maintenance task
+  const materialisedKeys = new Set(
+    tasks
+      .filter(task => task.scheduleId && task.occurrenceDate)
+      .map(task => `${task.scheduleId}:${toDayKey(task.occurrenceDate!)}`)
+  );
+
+  const now = new Date();
+  const upcoming = getScheduleOccurrences(schedules, now, addMonths(now, UPCOMING_MONTHS));
+
+  const getNextOccurrence = (schedule: MaintenanceScheduleWithExceptions) =>
+    upcoming.find(o => o.schedule.id === schedule.id && !o.skipped);
+
+  return (
+    <Card className="p-6 space-y-6" data-testid="card-maintenance-schedules">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Terugkerend onderhoud
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Taken worden automatisch aangemaakt binnen de ingestelde aanlooptijd
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => generateTasksMutation.mutate()}
+            disabled={generateTasksMutation.isPending || schedules.length === 0}
+            data-testid="button-generate-schedule-tasks"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {generateTasksMutation.isPending ? "Bezig..." : "Taken genereren"}
+          </Button>
+          <Button onClick={() => setDialogOpen(true)} data-testid="button-new-schedule">
+            <Plus className="h-4 w-4 mr-2" />
+            Nieuw Schema
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Laden...</p>
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nog geen terugkerende onderhoudsschema's</p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Schedules */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">Schema's</h3>
+            {schedules.map((schedule) => {
+              const next = getNextOccurrence(schedule);
+              return (
+                <div
+                  key={schedule.id}
+                  className="flex items-start justify-between gap-4 p-3 border rounded-md"
+                  data-testid={`schedule-${schedule.id}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{schedule.title}</span>
+                      {!schedule.isActive && <Badge variant="outline">Inactief</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {formatInterval(schedule.intervalUnit, schedule.intervalCount)}
+                      {schedule.location && ` · ${schedule.location}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {next
+                        ? `Volgende: ${format(next.date, "d MMM yyyy", { locale: nl })}`
+                        : "Geen komende uitvoeringen"}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(schedule)}
+                      data-testid={`button-edit-schedule-${schedule.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDeleteScheduleId(schedule.id)}
+                      data-testid={`button-delete-schedule-${schedule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Upcoming occurrences */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">Komende uitvoeringen</h3>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Geen uitvoeringen in de komende {UPCOMING_MONTHS} maanden</p>
+            ) : (
+              <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                {upcoming.map((occurrence) => {
+                  const key = `${occurrence.schedule.id}:${toDayKey(occurrence.occurrenceDate)}`;
+                  const isMaterialised = materialisedKeys.has(key);
+                  return (
+                    <div
+                      key={key}
+                      className={`flex items-center justify-between gap-2 p-2 border rounded-md text-sm ${occurrence.skipped ? "opacity-60" : ""}`}
+                      data-testid={`occurrence-${key}`}
+                    >
+                      <div className="min-w-0">
+                        <div className={`font-medium truncate ${occurrence.skipped ? "line-through" : ""}`}>
+                          {occurrence.schedule.title}
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <span>{format(occurrence.date, "EEEE d MMM yyyy", { locale: nl })}</span>
+                          {occurrence.shifted && (
+                            <span>(was {format(occurrence.occurrenceDate, "d MMM", { locale: nl })})</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {occurrence.skipped && <Badge variant="outline">Overgeslagen</Badge>}
+                        {isMaterialised && <Badge variant="secondary">Taak aangemaakt</Badge>}
+                        {occurrence.exceptionId ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteExceptionMutation.mutate(occurrence)}
+                            disabled={deleteExceptionMutation.isPending}
+                            title="Herstellen"
+                            data-testid={`button-restore-occurrence-${key}`}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        ) : !isMaterialised && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setShiftingOccurrence(occurrence);
+                                setShiftDate(occurrence.date);
+                              }}
+                              title="Verplaatsen"
+                              data-testid={`button-shift-occurrence-${key}`}
+                            >
+                              <CalendarClock className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => createExceptionMutation.mutate({ occurrence, type: "skip" })}
+                              disabled={createExceptionMutation.isPending}
+                              title="Overslaan"
+                              data-testid={`button-skip-occurrence-${key}`}
+                            >
+                              <SkipForward className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Schedule Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={handleDialogChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSchedule ? "Schema Bewerken" : "Nieuw Schema"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-title">Titel *</Label>
+              <Input
+                id="schedule-title"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="Bijv. Dakgoten reinigen"
+                data-testid="input-schedule-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-description">Beschrijving</Label>
+              <Textarea
+                id="schedule-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Wordt overgenomen in elke aangemaakte taak"
+                data-testid="input-schedule-description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-location">Locatie</Label>
+                <Input
+                  id="schedule-location"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  placeholder="Bijv. Hoofdgebouw"
+                  data-testid="input-schedule-location"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-assignee">Toegewezen aan</Label>
+                <Input
+                  id="schedule-assignee"
+                  value={formData.assignee}
+                  onChange={(e) => setFormData({ ...formData, assignee: e.target.value })}
+                  placeholder="Bijv. Jan de Vries"
+                  data-testid="input-schedule-assignee"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-interval-count">Elke *</Label>
+                <Input
+                  id="schedule-interval-count"
+                  type="number"
+                  min={1}
+                  value={formData.intervalCount}
+                  onChange={(e) => setFormData({ ...formData, intervalCount: e.target.value })}
+                  data-testid="input-schedule-interval-count"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-interval-unit">Eenheid</Label>
+                <Select
+                  value={formData.intervalUnit}
+                  onValueChange={(value) => setFormData({ ...formData, intervalUnit: value as IntervalUnit })}
+                >
+                  <SelectTrigger id="schedule-interval-unit" data-testid="select-schedule-interval-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Dag(en)</SelectItem>
+                    <SelectItem value="week">Week/weken</SelectItem>
+                    <SelectItem value="month">Maand(en)</SelectItem>
+                    <SelectItem value="year">Jaar</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-priority">Prioriteit</Label>
+                <Select
+                  value={formData.priority}
+                  onValueChange={(value) => setFormData({ ...formData, priority: value as SchedulePriority })}
+                >
+                  <SelectTrigger id="schedule-priority" data-testid="select-schedule-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Laag</SelectItem>
+                    <SelectItem value="medium">Gemiddeld</SelectItem>
+                    <SelectItem value="high">Hoog</SelectItem>
+                    <SelectItem value="critical">Kritiek</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Startdatum *</Label>
+                <DatePicker
+                  value={formData.startDate}
+                  onChange={(date) => setFormData({ ...formData, startDate: date })}
+                  placeholder="dd-mm-jjjj"
+                  testId="input-schedule-startDate"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Einddatum (optioneel)</Label>
+                <DatePicker
+                  value={formData.endDate}
+                  onChange={(date) => setFormData({ ...formData, endDate: date })}
+                  placeholder="dd-mm-jjjj"
+                  testId="input-schedule-endDate"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-lead-time">Aanlooptijd (dagen)</Label>
+                <Input
+                  id="schedule-lead-time"
+                  type="number"
+                  min={0}
+                  value={formData.leadTimeDays}
+                  onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })}
+                  data-testid="input-schedule-lead-time"
+                />
+              </div>
+            </div>
+            {editingSchedule && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="schedule-isActive"
+                  checked={editingSchedule.isActive}
+                  onChange={(e) => setEditingSchedule({ ...editingSchedule, isActive: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300"
+                  data-testid="checkbox-schedule-active"
+                />
+                <Label htmlFor="schedule-isActive" className="cursor-pointer">
+                  Actief (taken worden aangemaakt)
+                </Label>
+              </div>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={saveScheduleMutation.isPending}
+              data-testid="button-submit-schedule"
+            >
+              {saveScheduleMutation.isPending
+                ? "Bezig..."
+                : editingSchedule ? "Schema Bijwerken" : "Schema Aanmaken"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Shift Occurrence Dialog */}
+      <Dialog open={shiftingOccurrence !== null} onOpenChange={(open) => !open && setShiftingOccurrence(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Uitvoering verplaatsen</DialogTitle>
+          </DialogHeader>
+          {shiftingOccurrence && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {shiftingOccurrence.schedule.title} – gepland op{" "}
+                {format(shiftingOccurrence.occurrenceDate, "d MMMM yyyy", { locale: nl })}
+              </p>
+              <div className="space-y-2">
+                <Label>Nieuwe datum</Label>
+                <DatePicker
+                  value={shiftDate}
+                  onChange={setShiftDate}
+                  placeholder="dd-mm-jjjj"
+                  testId="input-shift-date"
+                />
+              </div>
+              <Button
+                className="w-full"
+                disabled={!shiftDate || createExceptionMutation.isPending}
+                onClick={() => shiftDate && createExceptionMutation.mutate({ occurrence: shiftingOccurrence, type: "shift", shiftedDate: shiftDate })}
+                data-testid="button-confirm-shift"
+              >
+                {createExceptionMutation.isPending ? "Bezig..." : "Verplaatsen"}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteScheduleId !== null} onOpenChange={() => setDeleteScheduleId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Schema verwijderen</AlertDialogTitle>
+            <AlertDialogDescription>
+              Weet je zeker dat je dit schema wilt verwijderen? Reeds aangemaakte taken blijven bestaan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-schedule">Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteScheduleId && deleteScheduleMutation.mutate(deleteScheduleId)}
+              data-testid="button-confirm-delete-schedule"
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Verwijderen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
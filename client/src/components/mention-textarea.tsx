@@ -0,0 +1,148 @@
+import { useState, useRef } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { formatMention, splitMentions } from "@shared/mentions";
+
+export interface MentionUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+}
+
+export interface MentionDraft {
+  // Plain text shown in the textarea, mentions as "@Jan Jansen"
+  text: string;
+  mentions: Array<{ name: string; userId: string }>;
+}
+
+export const emptyMentionDraft: MentionDraft = { text: "", mentions: [] };
+
+export const getMentionName = (user: MentionUser) =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Onbekend";
+
+// Converts the draft to stored content; mentions removed from the text are dropped.
+// Longest names first, so "@Jan" does not replace part of "@Jan Jansen".
+export function toMentionContent(draft: MentionDraft): string {
+  return [...draft.mentions].sort((a, b) => b.name.length - a.name.length).reduce(
+    (content, mention) => content.split(`@${mention.name}`).join(formatMention(mention.name, mention.userId)),
+    draft.text,
+  );
+}
+
+// Turns stored content back into a draft for editing
+export function fromMentionContent(content: string): MentionDraft {
+  const segments = splitMentions(content);
+  return {
+    text: segments.map(segment => (segment.type === "text" ? segment.text : `@${segment.name}`)).join(""),
+    mentions: segments.flatMap(segment => (segment.type === "mention" ? [{ name: segment.name, userId: segment.userId }] : [])),
+  };
+}
+
+interface MentionTextareaProps extends Omit<React.ComponentProps<typeof Textarea>, "value" | "onChange"> {
+  value: MentionDraft;
+  onChange: (draft: MentionDraft) => void;
+  users: MentionUser[];
+}
+
+const MAX_SUGGESTIONS = 5;
+
+// Textarea that suggests school users after typing "@"
+export function MentionTextarea({ value, onChange, users, onKeyDown, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Position of the "@" being completed and the text typed after it
+  const [query, setQuery] = useState<{ start: number; text: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = query
+    ? users
+        .filter(user => getMentionName(user).toLowerCase().includes(query.text.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+    setQuery(match ? { start: caret - match[2].length - 1, text: match[2] } : null);
+    setHighlighted(0);
+  };
+
+  const selectUser = (user: MentionUser) => {
+    if (!query) return;
+    const name = getMentionName(user);
+    const end = query.start + 1 + query.text.length;
+    const text = `${value.text.slice(0, query.start)}@${name} ${value.text.slice(end)}`;
+    const mentions = value.mentions.some(mention => mention.userId === user.id)
+      ? value.mentions
+      : [...value.mentions, { name, userId: user.id }];
+    onChange({ text, mentions });
+    setQuery(null);
+
+    // Put the caret after the inserted name
+    const caret = query.start + name.length + 2;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setHighlighted((highlighted + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        selectUser(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value.text}
+        onChange={(e) => {
+          onChange({ ...value, text: e.target.value });
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md" data-testid="mention-suggestions">
+          {suggestions.map((user, index) => (
+            <button
+              key={user.id}
+              type="button"
+              // Keep focus in the textarea so onBlur does not close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectUser(user);
+              }}
+              className={`flex w-full flex-col items-start rounded-sm px-2 py-1 text-left text-sm ${index === highlighted ? "bg-accent text-accent-foreground" : ""}`}
+              data-testid={`mention-option-${user.id}`}
+            >
+              <span>{getMentionName(user)}</span>
+              {user.email && <span className="text-xs text-muted-foreground">{user.email}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
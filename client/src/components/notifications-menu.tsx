@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, AtSign } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { nl } from "date-fns/locale";
+import type { Notification } from "@shared/schema";
+
+type NotificationWithDetails = Notification & {
+  actorFirstName: string | null;
+  actorLastName: string | null;
+  reportTitle: string | null;
+};
+
+// Poll so mentions show up without reloading the page
+const REFETCH_INTERVAL = 60 * 1000;
+
+const describeNotification = (notification: NotificationWithDetails) => {
+  const actor = [notification.actorFirstName, notification.actorLastName].filter(Boolean).join(" ") || "Iemand";
+  return `${actor} noemde je bij "${notification.reportTitle ?? "een melding"}"`;
+};
+
+// Bell in the header with the current user's notifications
+export function NotificationsMenu() {
+  const [open, setOpen] = useState(false);
+  const [, setLocation] = useLocation();
+
+  const { data: notifications = [] } = useQuery<NotificationWithDetails[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: REFETCH_INTERVAL,
+  });
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  const markReadMutation = useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const handleOpen = (notification: NotificationWithDetails) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    setOpen(false);
+    if (notification.reportId) {
+      setLocation(`/meldingen?melding=${notification.reportId}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Meldingen voor jou" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground"
+              data-testid="badge-notifications-unread"
+            >
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">Voor jou</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-notifications-read-all"
+            >
+              Alles gelezen
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-4 text-center text-sm text-muted-foreground">Geen nieuwe vermeldingen</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={`flex w-full items-start gap-2 border-b px-3 py-2 text-left text-sm last:border-b-0 hover-elevate ${notification.readAt ? "text-muted-foreground" : ""}`}
+                data-testid={`notification-${notification.id}`}
+              >
+                <AtSign className="mt-0.5 h-4 w-4 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className={notification.readAt ? "" : "font-medium"}>{describeNotification(notification)}</p>
+                  {notification.createdAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: nl })}
+                    </p>
+                  )}
+                </div>
+                {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,138 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Wrench, AlertCircle, Calendar as CalendarIcon, History } from "lucide-react";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import type { Maintenance, Report, Appointment } from "@shared/schema";
+
+export type ObjectHistoryType = "building" | "room" | "installation";
+
+interface ObjectHistoryProps {
+  type: ObjectHistoryType;
+  id: string;
+}
+
+interface HistoryItem {
+  id: string;
+  kind: "maintenance" | "report" | "appointment";
+  title: string;
+  date: Date | null;
+  status: string | null;
+  description: string | null;
+}
+
+const linkField: Record<ObjectHistoryType, "buildingId" | "roomId" | "installationId"> = {
+  building: "buildingId",
+  room: "roomId",
+  installation: "installationId",
+};
+
+const kindConfig = {
+  maintenance: { label: "Taak", icon: Wrench },
+  report: { label: "Melding", icon: AlertCircle },
+  appointment: { label: "Afspraak", icon: CalendarIcon },
+};
+
+const getTaskStatusLabel = (status: string) => {
+  switch (status) {
+    case 'pending': return 'In voorbereiding';
+    case 'in_progress': return 'In uitvoering';
+    case 'completed': return 'Afgerond';
+    case 'cancelled': return 'Geannuleerd';
+    default: return status;
+  }
+};
+
+const getReportStatusLabel = (status: string) => {
+  switch (status) {
+    case 'pending': return 'In afwachting';
+    case 'in_progress': return 'In behandeling';
+    case 'completed': return 'Afgehandeld';
+    default: return status;
+  }
+};
+
+// Lists every task, report and appointment linked to a building, room or installation, newest first
+export function ObjectHistory({ type, id }: ObjectHistoryProps) {
+  const { data: tasks = [], isLoading: tasksLoading } = useQuery<Maintenance[]>({
+    queryKey: ["/api/maintenance"],
+  });
+
+  const { data: reports = [], isLoading: reportsLoading } = useQuery<Report[]>({
+    queryKey: ["/api/reports"],
+  });
+
+  const { data: appointments = [], isLoading: appointmentsLoading } = useQuery<Appointment[]>({
+    queryKey: ["/api/appointments"],
+  });
+
+  if (tasksLoading || reportsLoading || appointmentsLoading) {
+    return <p className="text-sm text-muted-foreground">Laden...</p>;
+  }
+
+  const field = linkField[type];
+
+  const items: HistoryItem[] = [
+    ...tasks.filter(t => t[field] === id).map(t => ({
+      id: t.id,
+      kind: "maintenance" as const,
+      title: t.title,
+      date: t.dueDate ?? t.createdAt,
+      status: getTaskStatusLabel(t.status),
+      description: t.description,
+    })),
+    ...reports.filter(r => r[field] === id).map(r => ({
+      id: r.id,
+      kind: "report" as const,
+      title: r.title,
+      date: r.createdAt,
+      status: getReportStatusLabel(r.status),
+      description: r.description,
+    })),
+    ...appointments.filter(a => a[field] === id).map(a => ({
+      id: a.id,
+      kind: "appointment" as const,
+      title: a.title,
+      date: a.startDate,
+      status: null,
+      description: a.description,
+    })),
+  ].sort((a, b) => (b.date ? new Date(b.date).getTime() : 0) - (a.date ? new Date(a.date).getTime() : 0));
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground" data-testid="text-no-history">
+        <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>Nog geen gekoppelde taken, meldingen of afspraken</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid={`history-${type}-${id}`}>
+      {items.map(item => {
+        const { label, icon: Icon } = kindConfig[item.kind];
+        return (
+          <div key={`${item.kind}-${item.id}`} className="p-3 border rounded-lg" data-testid={`history-item-${item.kind}-${item.id}`}>
+            <div className="flex items-start gap-3">
+              <Icon className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{item.title}</span>
+                  <Badge variant="outline" className="text-xs shrink-0">{label}</Badge>
+                </div>
+                {item.description && (
+                  <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{item.description}</p>
+                )}
+                <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
+                  {item.date && <span>{format(new Date(item.date), "d MMM yyyy", { locale: nl })}</span>}
+                  {item.status && <span>{item.status}</span>}
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
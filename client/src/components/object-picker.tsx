@@ -0,0 +1,129 @@
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BuildingData, Room, InstallationData } from "@shared/schema";
+
+export interface ObjectLink {
+  buildingId: string | null;
+  roomId: string | null;
+  installationId: string | null;
+}
+
+export const emptyObjectLink: ObjectLink = {
+  buildingId: null,
+  roomId: null,
+  installationId: null,
+};
+
+interface ObjectPickerProps {
+  value: ObjectLink;
+  onChange: (value: ObjectLink) => void;
+  testIdPrefix?: string;
+}
+
+// Sentinel for "no selection" (Radix Select does not accept empty string values)
+const NONE = "none";
+
+// Loads buildings, rooms and installations with the same query keys as objects-page
+export function useSchoolObjects() {
+  const { data: buildings = [] } = useQuery<BuildingData[]>({
+    queryKey: ["/api/building-data"],
+  });
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+  });
+
+  const { data: wInstallations = [] } = useQuery<InstallationData[]>({
+    queryKey: ["/api/installation-data?type=w_installation"],
+  });
+
+  const { data: eInstallations = [] } = useQuery<InstallationData[]>({
+    queryKey: ["/api/installation-data?type=e_installation"],
+  });
+
+  return { buildings, rooms, installations: [...wInstallations, ...eInstallations] };
+}
+
+export function ObjectPicker({ value, onChange, testIdPrefix = "object" }: ObjectPickerProps) {
+  const { buildings, rooms, installations } = useSchoolObjects();
+  const { buildingId, roomId, installationId } = value;
+
+  const availableRooms = buildingId
+    ? rooms.filter(room => room.buildingId === buildingId)
+    : rooms;
+
+  const handleBuildingChange = (selected: string) => {
+    const nextBuildingId = selected === NONE ? null : selected;
+    const room = rooms.find(r => r.id === roomId);
+    onChange({
+      buildingId: nextBuildingId,
+      // Clear the room when it does not belong to the newly selected building
+      roomId: room && nextBuildingId && room.buildingId !== nextBuildingId ? null : roomId,
+      installationId,
+    });
+  };
+
+  const handleRoomChange = (selected: string) => {
+    const room = rooms.find(r => r.id === selected);
+    onChange({
+      buildingId: room ? room.buildingId : buildingId,
+      roomId: room ? room.id : null,
+      installationId,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label>Gebouw</Label>
+        <Select value={buildingId ?? NONE} onValueChange={handleBuildingChange}>
+          <SelectTrigger data-testid={`select-${testIdPrefix}-building`}>
+            <SelectValue placeholder="Selecteer gebouw" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Geen</SelectItem>
+            {buildings.map(building => (
+              <SelectItem key={building.id} value={building.id}>{building.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Ruimte</Label>
+        <Select value={roomId ?? NONE} onValueChange={handleRoomChange}>
+          <SelectTrigger data-testid={`select-${testIdPrefix}-room`}>
+            <SelectValue placeholder="Selecteer ruimte" />
+          </SelectTrigger>
+          <SelectContent className="max-h-[300px]">
+            <SelectItem value={NONE}>Geen</SelectItem>
+            {availableRooms.map(room => (
+              <SelectItem key={room.id} value={room.id}>
+                {room.name}{room.purpose ? ` (${room.purpose})` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Installatie</Label>
+        <Select
+          value={installationId ?? NONE}
+          onValueChange={(id) => onChange({ buildingId, roomId, installationId: id === NONE ? null : id })}
+        >
+          <SelectTrigger data-testid={`select-${testIdPrefix}-installation`}>
+            <SelectValue placeholder="Selecteer installatie" />
+          </SelectTrigger>
+          <SelectContent className="max-h-[300px]">
+            <SelectItem value={NONE}>Geen</SelectItem>
+            {installations.map(installation => (
+              <SelectItem key={installation.id} value={installation.id}>
+                {installation.type === "w_installation" ? "W" : "E"} · {installation.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
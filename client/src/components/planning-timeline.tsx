@@ -0,0 +1,484 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSchool } from "@/contexts/school-context";
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from "lucide-react";
+import { addDays, differenceInCalendarDays, eachMonthOfInterval, eachWeekOfInterval, format, startOfDay } from "date-fns";
+import { nl } from "date-fns/locale";
+import { expandAppointments, getOccurrenceKey, type AppointmentWithExceptions } from "@/components/appointment-recurrence";
+import { holidayTypeColors, holidayTypeLabels, useSchoolHolidays } from "@/components/school-holidays";
+import type { BuildingData, Investment, Maintenance } from "@shared/schema";
+
+type TimelineKind = "maintenance" | "appointment" | "investment";
+type TimelineZoom = "week" | "month" | "quarter";
+type TimelineGrouping = "building" | "category";
+
+interface TimelineItem {
+  kind: TimelineKind;
+  id: string;
+  // Unique per bar; occurrences of a recurring appointment share their id
+  key: string;
+  title: string;
+  start: Date;
+  // Inclusive last day; equal to start for single-day items
+  end: Date;
+  groupKey: string;
+  groupLabel: string;
+  // Completed tasks and recurring appointments keep their date
+  locked: boolean;
+  hasEnd: boolean;
+}
+
+interface DragState {
+  item: TimelineItem;
+  startX: number;
+  days: number;
+}
+
+// Pixels per day for each zoom level
+const dayWidths: Record<TimelineZoom, number> = {
+  week: 32,
+  month: 12,
+  quarter: 4,
+};
+
+const zoomLevels: TimelineZoom[] = ["quarter", "month", "week"];
+
+const kindLabels: Record<TimelineKind, string> = {
+  maintenance: "Onderhoud",
+  appointment: "Afspraak",
+  investment: "Investering",
+};
+
+const kindColors: Record<TimelineKind, string> = {
+  maintenance: "bg-chart-1",
+  appointment: "bg-chart-2",
+  investment: "bg-chart-3",
+};
+
+const activityTypeLabels: Record<string, string> = {
+  onderhoud: "Onderhoud",
+  keuring: "Keuringen",
+  opname: "Opnames",
+  bespreking: "Besprekingen",
+};
+
+const investmentCategoryLabels: Record<string, string> = {
+  bouwkundig: "Bouwkundig",
+  "w-installatie": "W-Installatie",
+  "e-installatie": "E-Installatie",
+  terrein: "Terrein",
+  overig: "Overig",
+};
+
+const NO_BUILDING = "none";
+
+const ROW_HEIGHT = 32;
+
+// School years run from August to July
+const getCurrentSchoolYear = () => {
+  const today = new Date();
+  return today.getMonth() >= 7 ? today.getFullYear() : today.getFullYear() - 1;
+};
+
+// Maintenance, appointments and investment phases of one school year on a shared time axis
+export function PlanningTimeline() {
+  const [schoolYear, setSchoolYear] = useState(getCurrentSchoolYear);
+  const [zoom, setZoom] = useState<TimelineZoom>("month");
+  const [grouping, setGrouping] = useState<TimelineGrouping>("building");
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { activeSchool } = useSchool();
+  const { toast } = useToast();
+
+  const rangeStart = new Date(schoolYear, 7, 1);
+  const rangeEnd = new Date(schoolYear + 1, 6, 31);
+  const totalDays = differenceInCalendarDays(rangeEnd, rangeStart) + 1;
+  const dayWidth = dayWidths[zoom];
+
+  const { data: tasks = [] } = useQuery<Maintenance[]>({
+    queryKey: ["/api/maintenance"],
+  });
+
+  const { data: appointments = [] } = useQuery<AppointmentWithExceptions[]>({
+    queryKey: ["/api/appointments"],
+  });
+
+  const { data: investments = [] } = useQuery<Investment[]>({
+    queryKey: [`/api/investments?schoolId=${activeSchool?.id}&startYear=${schoolYear}&endYear=${schoolYear + 1}`],
+    enabled: !!activeSchool,
+  });
+
+  const { data: buildings = [] } = useQuery<BuildingData[]>({
+    queryKey: ["/api/building-data"],
+  });
+
+  const { data: holidays = [] } = useSchoolHolidays();
+
+  const buildingGroup = (buildingId: string | null) => {
+    const building = buildingId ? buildings.find(b => b.id === buildingId) : undefined;
+    return building
+      ? { groupKey: building.id, groupLabel: building.name }
+      : { groupKey: NO_BUILDING, groupLabel: "Zonder gebouw" };
+  };
+
+  const items: TimelineItem[] = [
+    ...tasks.filter(task => task.dueDate).map(task => ({
+      kind: "maintenance" as const,
+      id: task.id,
+      key: task.id,
+      title: task.title,
+      start: startOfDay(new Date(task.dueDate!)),
+      end: startOfDay(new Date(task.dueDate!)),
+      ...(grouping === "building"
+        ? buildingGroup(task.buildingId)
+        : { groupKey: "maintenance", groupLabel: "Onderhoud" }),
+      locked: task.status === "completed",
+      hasEnd: false,
+    })),
+    ...expandAppointments(appointments, rangeStart, rangeEnd).map(appointment => ({
+      kind: "appointment" as const,
+      id: appointment.id,
+      key: getOccurrenceKey(appointment),
+      title: appointment.title,
+      start: startOfDay(new Date(appointment.startDate)),
+      end: startOfDay(new Date(appointment.endDate)),
+      ...(grouping === "building"
+        ? buildingGroup(appointment.buildingId)
+        : {
+            groupKey: `appointment-${appointment.activityType ?? "other"}`,
+            groupLabel: appointment.activityType ? activityTypeLabels[appointment.activityType] : "Afspraken",
+          }),
+      // Occurrences of a series are moved from the calendar, where the scope can be chosen
+      locked: !!appointment.recurrenceUnit,
+      hasEnd: true,
+    })),
+    // Investments are not linked to a building
+    ...investments.filter(investment => investment.startDate).map(investment => ({
+      kind: "investment" as const,
+      id: investment.id,
+      key: investment.id,
+      title: investment.title,
+      start: startOfDay(new Date(investment.startDate!)),
+      end: startOfDay(new Date(investment.completedDate ?? investment.startDate!)),
+      ...(grouping === "building"
+        ? buildingGroup(null)
+        : {
+            groupKey: `investment-${investment.category ?? "other"}`,
+            groupLabel: `Investeringen${investment.category ? ` - ${investmentCategoryLabels[investment.category] ?? investment.category}` : ""}`,
+          }),
+      locked: false,
+      hasEnd: !!investment.completedDate,
+    })),
+  ]
+    .filter(item => item.end >= rangeStart && item.start <= rangeEnd)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const groups = Array.from(
+    items.reduce((acc, item) => {
+      const group = acc.get(item.groupKey) ?? { key: item.groupKey, label: item.groupLabel, items: [] as TimelineItem[] };
+      group.items.push(item);
+      acc.set(item.groupKey, group);
+      return acc;
+    }, new Map<string, { key: string; label: string; items: TimelineItem[] }>()).values()
+  ).sort((a, b) => {
+    // Items without building go last
+    if (a.key === NO_BUILDING) return 1;
+    if (b.key === NO_BUILDING) return -1;
+    return a.label.localeCompare(b.label);
+  });
+
+  const months = eachMonthOfInterval({ start: rangeStart, end: rangeEnd });
+  const weeks = eachWeekOfInterval({ start: rangeStart, end: rangeEnd }, { weekStartsOn: 1 });
+  const today = startOfDay(new Date());
+  const todayOffset = differenceInCalendarDays(today, rangeStart);
+
+  const offsetOf = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+
+  // Scroll to today when opening the current school year
+  useEffect(() => {
+    if (scrollRef.current && todayOffset >= 0 && todayOffset < totalDays) {
+      scrollRef.current.scrollLeft = Math.max(0, todayOffset * dayWidth - 200);
+    }
+  }, [schoolYear, zoom]);
+
+  const rescheduleMutation = useMutation<void, Error, { item: TimelineItem; days: number }>({
+    mutationFn: async ({ item, days }) => {
+      const start = addDays(item.start, days);
+      const end = addDays(item.end, days);
+
+      if (item.kind === "maintenance") {
+        await apiRequest("PATCH", `/api/maintenance/${item.id}`, { dueDate: start.toISOString() });
+      } else if (item.kind === "appointment") {
+        // Keep the original time of day
+        const appointment = appointments.find(a => a.id === item.id)!;
+        await apiRequest("PATCH", `/api/appointments/${item.id}`, {
+          startDate: addDays(new Date(appointment.startDate), days).toISOString(),
+          endDate: addDays(new Date(appointment.endDate), days).toISOString(),
+        });
+      } else {
+        await apiRequest("PATCH", `/api/investments/${item.id}`, {
+          startDate: start.toISOString(),
+          ...(item.hasEnd ? { completedDate: end.toISOString() } : {}),
+        });
+      }
+    },
+    onSuccess: (_, { item, days }) => {
+      if (item.kind === "maintenance") {
+        queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+      } else if (item.kind === "appointment") {
+        queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      } else {
+        queryClient.invalidateQueries({
+          predicate: (query) => {
+            const key = query.queryKey[0];
+            return typeof key === 'string' && (
+              key.startsWith('/api/investments') ||
+              key.startsWith('/api/analytics/investments')
+            );
+          }
+        });
+      }
+      toast({
+        title: "Succes",
+        description: `${item.title} verplaatst naar ${format(addDays(item.start, days), "d MMMM yyyy", { locale: nl })}`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon planning niet bijwerken",
+      });
+    },
+    onSettled: () => {
+      setDrag(null);
+    },
+  });
+
+  // Track the pointer on the window so the drag continues outside the bar
+  useEffect(() => {
+    if (!drag || rescheduleMutation.isPending) return;
+
+    const handleMove = (e: PointerEvent) => {
+      setDrag(prev => prev && { ...prev, days: Math.round((e.clientX - prev.startX) / dayWidth) });
+    };
+    const handleUp = () => {
+      if (drag.days === 0) {
+        setDrag(null);
+      } else {
+        rescheduleMutation.mutate({ item: drag.item, days: drag.days });
+      }
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [drag, dayWidth, rescheduleMutation.isPending]);
+
+  const zoomIndex = zoomLevels.indexOf(zoom);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setSchoolYear(schoolYear - 1)}
+            aria-label="Vorig schooljaar"
+            data-testid="button-timeline-previous"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-semibold min-w-[120px] text-center" data-testid="text-timeline-year">
+            {schoolYear}-{schoolYear + 1}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setSchoolYear(schoolYear + 1)}
+            aria-label="Volgend schooljaar"
+            data-testid="button-timeline-next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as TimelineGrouping)}>
+            <SelectTrigger className="w-[180px]" data-testid="select-timeline-grouping">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="building">Per gebouw</SelectItem>
+              <SelectItem value="category">Per categorie</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setZoom(zoomLevels[zoomIndex - 1])}
+            disabled={zoomIndex === 0}
+            aria-label="Uitzoomen"
+            data-testid="button-timeline-zoom-out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setZoom(zoomLevels[zoomIndex + 1])}
+            disabled={zoomIndex === zoomLevels.length - 1}
+            aria-label="Inzoomen"
+            data-testid="button-timeline-zoom-in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        {(Object.keys(kindLabels) as TimelineKind[]).map(kind => (
+          <div key={kind} className="flex items-center gap-2">
+            <span className={`h-3 w-3 rounded-sm ${kindColors[kind]}`} />
+            {kindLabels[kind]}
+          </div>
+        ))}
+        {(Object.keys(holidayTypeLabels) as Array<keyof typeof holidayTypeLabels>).map(type => (
+          <div key={type} className="flex items-center gap-2">
+            <span className={`h-3 w-3 rounded-sm border ${holidayTypeColors[type]}`} />
+            {holidayTypeLabels[type]}
+          </div>
+        ))}
+        <span>Sleep een balk om de planning te verschuiven</span>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">Geen geplande activiteiten in dit schooljaar</p>
+      ) : (
+        <div className="flex border rounded-md overflow-hidden" data-testid="planning-timeline">
+          {/* Labels */}
+          <div className="w-56 shrink-0 border-r bg-background">
+            <div className="h-10 border-b" />
+            {groups.map(group => (
+              <div key={group.key}>
+                <div className="px-3 flex items-center bg-muted/50 font-medium text-sm border-b" style={{ height: ROW_HEIGHT }}>
+                  {group.label}
+                </div>
+                {group.items.map(item => (
+                  <div
+                    key={`${item.kind}-${item.key}`}
+                    className="px-3 flex items-center text-sm truncate border-b"
+                    style={{ height: ROW_HEIGHT }}
+                    title={item.title}
+                  >
+                    <span className="truncate">{item.title}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Time axis */}
+          <div ref={scrollRef} className="flex-1 overflow-x-auto">
+            <div className="relative" style={{ width: totalDays * dayWidth }}>
+              <div className="h-10 border-b relative">
+                {months.map(month => (
+                  <div
+                    key={month.toISOString()}
+                    className="absolute top-0 h-full border-l px-2 flex items-center text-xs font-medium capitalize"
+                    style={{ left: offsetOf(month) }}
+                  >
+                    {format(month, zoom === "quarter" ? "MMM" : "MMMM yyyy", { locale: nl })}
+                  </div>
+                ))}
+              </div>
+
+              {/* Holidays, grid lines and today marker */}
+              <div className="absolute inset-x-0 top-10 bottom-0 pointer-events-none">
+                {holidays
+                  .filter(holiday => new Date(holiday.endDate) >= rangeStart && new Date(holiday.startDate) <= rangeEnd)
+                  .map(holiday => {
+                    const start = new Date(holiday.startDate) < rangeStart ? rangeStart : new Date(holiday.startDate);
+                    const end = new Date(holiday.endDate) > rangeEnd ? rangeEnd : new Date(holiday.endDate);
+                    const width = (differenceInCalendarDays(end, start) + 1) * dayWidth;
+                    return (
+                      <div
+                        key={holiday.id}
+                        className={`absolute top-0 bottom-0 ${holidayTypeColors[holiday.type]}`}
+                        style={{ left: offsetOf(start), width }}
+                        data-testid={`timeline-holiday-${holiday.id}`}
+                      >
+                        {width >= 60 && (
+                          <span className="block px-1 text-[10px] text-muted-foreground truncate">{holiday.name}</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                {zoom === "week" && weeks.map(week => (
+                  <div key={week.toISOString()} className="absolute top-0 bottom-0 border-l border-dashed opacity-50" style={{ left: offsetOf(week) }} />
+                ))}
+                {months.map(month => (
+                  <div key={month.toISOString()} className="absolute top-0 bottom-0 border-l" style={{ left: offsetOf(month) }} />
+                ))}
+                {todayOffset >= 0 && todayOffset < totalDays && (
+                  <div className="absolute top-0 bottom-0 w-px bg-destructive" style={{ left: todayOffset * dayWidth }} data-testid="timeline-today" />
+                )}
+              </div>
+
+              {groups.map(group => (
+                <div key={group.key}>
+                  <div className="bg-muted/50 border-b" style={{ height: ROW_HEIGHT }} />
+                  {group.items.map(item => {
+                    const isDragged = drag?.item.kind === item.kind && drag.item.key === item.key;
+                    const shift = isDragged ? drag.days : 0;
+                    const left = offsetOf(addDays(item.start, shift));
+                    const width = Math.max((differenceInCalendarDays(item.end, item.start) + 1) * dayWidth, 8);
+                    const tooltip = [
+                      `${kindLabels[item.kind]}: ${item.title}`,
+                      item.hasEnd
+                        ? `${format(addDays(item.start, shift), "d MMM yyyy", { locale: nl })} - ${format(addDays(item.end, shift), "d MMM yyyy", { locale: nl })}`
+                        : format(addDays(item.start, shift), "d MMM yyyy", { locale: nl }),
+                    ].join("\n");
+
+                    return (
+                      <div key={`${item.kind}-${item.key}`} className="relative border-b" style={{ height: ROW_HEIGHT }}>
+                        <div
+                          className={`absolute top-1.5 bottom-1.5 rounded-sm text-xs text-white px-1 overflow-hidden whitespace-nowrap select-none touch-none ${kindColors[item.kind]} ${
+                            item.locked ? "opacity-50" : "cursor-grab active:cursor-grabbing"
+                          } ${isDragged ? "ring-2 ring-primary shadow-md" : ""}`}
+                          style={{ left, width }}
+                          title={tooltip}
+                          onPointerDown={(e) => {
+                            if (item.locked || rescheduleMutation.isPending) return;
+                            e.preventDefault();
+                            setDrag({ item, startX: e.clientX, days: 0 });
+                          }}
+                          data-testid={`timeline-bar-${item.kind}-${item.key}`}
+                        >
+                          {width >= 40 && item.title}
+                        </div>
+                        {isDragged && shift !== 0 && (
+                          <div className="absolute top-1.5 text-xs bg-popover border rounded px-1 shadow-sm z-10" style={{ left: left + width + 4 }}>
+                            {format(addDays(item.start, shift), "d MMM", { locale: nl })}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatIndexationRate } from "@shared/indexation";
+import type { PriceIndexationInput, PriceIndexationSetting } from "@shared/schema";
+
+// Indexation of the active school, inherited from its board when the school has none
+export function usePriceIndexation() {
+  const { data = null } = useQuery<PriceIndexationSetting | null>({
+    queryKey: ["/api/price-indexation"],
+  });
+  return data;
+}
+
+interface PriceBasisToggleProps {
+  indexed: boolean;
+  onIndexedChange: (indexed: boolean) => void;
+  testIdPrefix?: string;
+}
+
+// Switch between entered (base year) prices and indexed prices
+export function PriceBasisToggle({ indexed, onIndexedChange, testIdPrefix = "price" }: PriceBasisToggleProps) {
+  const indexation = usePriceIndexation();
+  const id = `${testIdPrefix}-indexed`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Switch
+        id={id}
+        checked={indexed && !!indexation}
+        onCheckedChange={onIndexedChange}
+        disabled={!indexation}
+        data-testid={`switch-${testIdPrefix}-indexed`}
+      />
+      <Label htmlFor={id} className="text-sm font-normal text-muted-foreground">
+        {indexation
+          ? `Geïndexeerd (${formatIndexationRate(indexation.rate)} per jaar vanaf ${indexation.baseYear})`
+          : "Geen indexatie ingesteld"}
+      </Label>
+    </div>
+  );
+}
+
+interface PriceIndexationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PriceIndexationDialog({ open, onOpenChange }: PriceIndexationDialogProps) {
+  const indexation = usePriceIndexation();
+  const { hasAccess } = useAuth();
+  const { toast } = useToast();
+  const [rate, setRate] = useState("");
+  const [baseYear, setBaseYear] = useState("");
+  const [scope, setScope] = useState<PriceIndexationInput["scope"]>("school");
+
+  useEffect(() => {
+    if (!open) return;
+    setRate(indexation ? (indexation.rate / 100).toString() : "");
+    setBaseYear((indexation?.baseYear ?? new Date().getFullYear()).toString());
+    // Only admins can change the board setting; others override it for their school
+    setScope(hasAccess("beheer") ? indexation?.scope ?? "school" : "school");
+  }, [open]);
+
+  const saveMutation = useMutation<void, Error, PriceIndexationInput>({
+    mutationFn: async (data) => {
+      await apiRequest("PUT", "/api/price-indexation", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/price-indexation"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && key.startsWith('/api/analytics/investments');
+        }
+      });
+      onOpenChange(false);
+      toast({
+        title: "Succes",
+        description: "Indexatie opgeslagen",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon indexatie niet opslaan",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedRate = parseFloat(rate.replace(",", "."));
+    const parsedYear = parseInt(baseYear);
+    if (isNaN(parsedRate) || parsedRate < 0 || isNaN(parsedYear)) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Vul een percentage (0 of hoger) en een basisjaar in",
+      });
+      return;
+    }
+    saveMutation.mutate({ rate: Math.round(parsedRate * 100), baseYear: parsedYear, scope });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Indexatie</DialogTitle>
+          <DialogDescription>
+            Bedragen in het investeringsplan zijn ingevoerd in prijzen van het basisjaar. Latere jaren worden met dit percentage per jaar verhoogd.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="indexation-rate">Percentage per jaar</Label>
+              <Input
+                id="indexation-rate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="2,5"
+                data-testid="input-indexation-rate"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="indexation-base-year">Basisjaar</Label>
+              <Input
+                id="indexation-base-year"
+                type="number"
+                value={baseYear}
+                onChange={(e) => setBaseYear(e.target.value)}
+                data-testid="input-indexation-base-year"
+              />
+            </div>
+          </div>
+          {hasAccess("beheer") && (
+            <div className="space-y-2">
+              <Label>Geldt voor</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as PriceIndexationInput["scope"])}>
+                <SelectTrigger data-testid="select-indexation-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="school">Deze school</SelectItem>
+                  <SelectItem value="board">Alle scholen van het bestuur</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Een instelling van de school gaat voor die van het bestuur.
+              </p>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annuleren
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-indexation">
+              {saveMutation.isPending ? "Bezig..." : "Opslaan"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Award, FileText } from "lucide-react";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import { openDocument } from "@/components/attachment-gallery";
+import type { Document, Investment, InvestmentYear, Quote, QuoteAward } from "@shared/schema";
+
+type InvestmentWithYears = Investment & { years: InvestmentYear[] };
+
+const quoteStatusLabels: Record<Quote["status"], string> = {
+  draft: "Concept",
+  sent: "Verzonden",
+  accepted: "Geaccepteerd",
+  rejected: "Afgewezen",
+  expired: "Verlopen",
+};
+
+const getStatusVariant = (status: Quote["status"]) =>
+  status === "accepted" ? "default" :
+  status === "sent" ? "secondary" :
+  status === "rejected" ? "destructive" : "outline";
+
+const formatEuro = (cents: number): string =>
+  (cents / 100).toLocaleString("nl-NL", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const formatDate = (date: Date | string | null) =>
+  date ? format(new Date(date), "d MMM yyyy", { locale: nl }) : "-";
+
+function QuoteDocuments({ quote }: { quote: Quote }) {
+  const { toast } = useToast();
+  const { data: documents = [] } = useQuery<Document[]>({
+    queryKey: [`/api/quotes/${quote.id}/documents`],
+  });
+
+  if (documents.length === 0) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {documents.map(doc => (
+        <button
+          key={doc.id}
+          type="button"
+          onClick={() => openDocument(doc).catch(() => toast({
+            variant: "destructive",
+            title: "Fout",
+            description: "Download mislukt",
+          }))}
+          className="flex items-center gap-1 text-left text-primary hover:underline"
+          data-testid={`button-compare-doc-${doc.id}`}
+        >
+          <FileText className="h-3 w-3 shrink-0" />
+          <span className="truncate">{doc.originalName}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface QuoteComparisonDialogProps {
+  investment: InvestmentWithYears | null;
+  quotes: Quote[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Quotes of one investment side by side; awarding one accepts it and rejects the others
+export function QuoteComparisonDialog({ investment, quotes, onOpenChange }: QuoteComparisonDialogProps) {
+  const [awardQuote, setAwardQuote] = useState<Quote | null>(null);
+  const { toast } = useToast();
+
+  const budget = investment?.years.reduce((sum, year) => sum + year.amount, 0) ?? 0;
+  const lowestAmount = Math.min(...quotes.map(quote => quote.quotedAmount));
+  const sortedQuotes = [...quotes].sort((a, b) => a.quotedAmount - b.quotedAmount);
+  const now = new Date();
+
+  const awardMutation = useMutation<Investment, Error, QuoteAward>({
+    mutationFn: async (data) => {
+      const response = await apiRequest("POST", `/api/investments/${investment?.id}/award`, data);
+      return response.json();
+    },
+    onSuccess: (_, { quoteId }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && (
+            key.startsWith('/api/quotes') ||
+            key.startsWith('/api/investments') ||
+            key.startsWith('/api/analytics/investments') ||
+            key.startsWith('/api/analytics/budget-actuals')
+          );
+        }
+      });
+      toast({
+        title: "Succes",
+        description: `Opdracht gegund aan ${quotes.find(quote => quote.id === quoteId)?.vendor ?? "leverancier"}`,
+      });
+      setAwardQuote(null);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon offerte niet gunnen",
+      });
+      setAwardQuote(null);
+    },
+  });
+
+  const rows: Array<{ key: string; label: string; render: (quote: Quote) => React.ReactNode }> = [
+    {
+      key: "amount",
+      label: "Bedrag",
+      render: (quote) => (
+        <div className="flex items-center gap-2">
+          <span className="font-semibold">€ {formatEuro(quote.quotedAmount)}</span>
+          {quotes.length > 1 && quote.quotedAmount === lowestAmount && (
+            <Badge variant="secondary">Laagste</Badge>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "budget",
+      label: "T.o.v. budget",
+      render: (quote) => {
+        if (budget === 0) return <span className="text-muted-foreground">Geen budget</span>;
+        const difference = quote.quotedAmount - budget;
+        return (
+          <span className={difference > 0 ? "text-destructive" : "text-muted-foreground"}>
+            {difference > 0 ? "+" : difference < 0 ? "-" : ""}€ {formatEuro(Math.abs(difference))} ({difference > 0 ? "+" : ""}{Math.round((difference / budget) * 100)}%)
+          </span>
+        );
+      },
+    },
+    {
+      key: "date",
+      label: "Offertedatum",
+      render: (quote) => formatDate(quote.quoteDate),
+    },
+    {
+      key: "expiry",
+      label: "Geldig tot",
+      render: (quote) => {
+        const isExpired = !!quote.expiryDate && new Date(quote.expiryDate) < now;
+        return (
+          <span className={isExpired ? "text-destructive" : undefined}>
+            {formatDate(quote.expiryDate)}{isExpired && " (verlopen)"}
+          </span>
+        );
+      },
+    },
+    {
+      key: "status",
+      label: "Status",
+      render: (quote) => <Badge variant={getStatusVariant(quote.status)}>{quoteStatusLabels[quote.status]}</Badge>,
+    },
+    {
+      key: "documents",
+      label: "Documenten",
+      render: (quote) => <QuoteDocuments quote={quote} />,
+    },
+  ];
+
+  return (
+    <>
+      <Dialog open={!!investment} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto" data-testid="dialog-compare-quotes">
+          <DialogHeader>
+            <DialogTitle>Offertes vergelijken: {investment?.title}</DialogTitle>
+            <DialogDescription>
+              {budget > 0 ? `Begroot: € ${formatEuro(budget)}` : "Geen budget begroot voor deze investering"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="border rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 border-b">
+                  <tr>
+                    <th className="w-36" />
+                    {sortedQuotes.map(quote => (
+                      <th key={quote.id} className="text-left p-3 font-semibold min-w-[180px]">
+                        {quote.vendor}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-b">
+                      <td className="p-3 text-muted-foreground">{row.label}</td>
+                      {sortedQuotes.map(quote => (
+                        <td key={quote.id} className="p-3 align-top" data-testid={`compare-${row.key}-${quote.id}`}>
+                          {row.render(quote)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="p-3" />
+                    {sortedQuotes.map(quote => (
+                      <td key={quote.id} className="p-3">
+                        <Button
+                          size="sm"
+                          variant={quote.status === "accepted" ? "secondary" : "default"}
+                          disabled={quote.status === "accepted" || awardMutation.isPending}
+                          onClick={() => setAwardQuote(quote)}
+                          data-testid={`button-award-quote-${quote.id}`}
+                        >
+                          <Award className="h-4 w-4 mr-2" />
+                          {quote.status === "accepted" ? "Gegund" : "Gunnen"}
+                        </Button>
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={awardQuote !== null} onOpenChange={(open) => !open && setAwardQuote(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Opdracht gunnen aan {awardQuote?.vendor}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Deze offerte wordt geaccepteerd
+              {quotes.length === 2 && " en de andere offerte wordt afgewezen"}
+              {quotes.length > 2 && ` en de overige ${quotes.length - 1} offertes worden afgewezen`}.
+              {investment?.status === "afwachting" && " De investering gaat naar voorbereiding."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => awardQuote && awardMutation.mutate({ quoteId: awardQuote.id })}
+              data-testid="button-confirm-award"
+            >
+              Gunnen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
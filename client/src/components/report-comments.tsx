@@ -1,11 +1,16 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { format } from "date-fns";
-import { MessageSquare, Send } from "lucide-react";
+import { MessageSquare, Send, History, Paperclip, Pencil, Trash2, X } from "lucide-react";
+import { Thumbnail, openDocument, uploadAttachments } from "@/components/attachment-gallery";
+import { MentionTextarea, emptyMentionDraft, fromMentionContent, toMentionContent, type MentionDraft, type MentionUser } from "@/components/mention-textarea";
+import { extractMentionIds, splitMentions } from "@shared/mentions";
+import type { Document, ReportEvent } from "@shared/schema";
 
 interface ReportComment {
   id: string;
@@ -14,20 +19,101 @@ interface ReportComment {
   content: string;
   schoolId: string;
   createdAt: Date;
+  editedAt: Date | null;
   userFirstName: string | null;
   userLastName: string | null;
+  // Documents with module "report-comments" and entityId = comment id
+  attachments?: Document[];
 }
 
+type ReportEventWithUser = ReportEvent & {
+  userFirstName: string | null;
+  userLastName: string | null;
+};
+
+type TimelineEntry =
+  | { kind: "comment"; createdAt: Date | null; comment: ReportComment }
+  | { kind: "event"; createdAt: Date | null; event: ReportEventWithUser };
+
 interface ReportCommentsProps {
   reportId: string;
 }
 
+const statusLabels: Record<string, string> = {
+  pending: "In afwachting",
+  in_progress: "In behandeling",
+  completed: "Afgehandeld",
+};
+
+const priorityLabels: Record<string, string> = {
+  low: "Laag",
+  medium: "Gemiddeld",
+  high: "Hoog",
+  critical: "Kritiek",
+};
+
+const fieldLabels: Record<string, string> = {
+  title: "de titel",
+  description: "de beschrijving",
+  location: "de locatie",
+  reportedBy: "de melder",
+  buildingId: "het gebouw",
+  roomId: "de ruimte",
+  installationId: "de installatie",
+  attachmentUrl: "de bijlage",
+};
+
+const getUserName = (firstName: string | null, lastName: string | null) =>
+  firstName && lastName ? `${firstName} ${lastName}` : 'Onbekend';
+
+const describeChange = (from: string | null, to: string | null, labels: Record<string, string>) =>
+  from ? `van ${labels[from] ?? from} naar ${labels[to ?? ""] ?? to}` : `naar ${labels[to ?? ""] ?? to}`;
+
+// Sentence for an audit event, e.g. "wijzigde de status van In afwachting naar In behandeling"
+const describeEvent = (event: ReportEventWithUser) => {
+  switch (event.field) {
+    case 'created': return event.userId ? 'maakte de melding aan' : 'Melding ontvangen via QR-code';
+    case 'status': return `wijzigde de status ${describeChange(event.oldValue, event.newValue, statusLabels)}`;
+    case 'priority': return `wijzigde de prioriteit ${describeChange(event.oldValue, event.newValue, priorityLabels)}`;
+    case 'maintenanceId': return event.newValue ? 'koppelde een onderhoudstaak' : 'ontkoppelde de onderhoudstaak';
+    // oldValue holds the title of the merged report
+    case 'merged': return `voegde de melding "${event.oldValue}" hiermee samen`;
+    default: return `wijzigde ${fieldLabels[event.field] ?? event.field}`;
+  }
+};
+
+const commentsKey = (reportId: string) => ["/api/reports", reportId, "comments"];
+
+// Comment text with mentions highlighted
+function CommentContent({ content }: { content: string }) {
+  return (
+    <p className="whitespace-pre-wrap">
+      {splitMentions(content).map((segment, index) =>
+        segment.type === "mention" ? (
+          <span key={index} className="font-medium text-primary" data-testid={`mention-${segment.userId}`}>
+            @{segment.name}
+          </span>
+        ) : (
+          segment.text
+        )
+      )}
+    </p>
+  );
+}
+
+// Comment thread merged with the report's change history, oldest first
 export function ReportComments({ reportId }: ReportCommentsProps) {
-  const [newComment, setNewComment] = useState("");
+  const [newComment, setNewComment] = useState<MentionDraft>(emptyMentionDraft);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<MentionDraft>(emptyMentionDraft);
+  const [deleteCommentId, setDeleteCommentId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
   const { toast } = useToast();
 
   const { data: comments = [], isLoading } = useQuery<ReportComment[]>({
-    queryKey: ["/api/reports", reportId, "comments"],
+    queryKey: commentsKey(reportId),
     queryFn: async () => {
       const response = await fetch(`/api/reports/${reportId}/comments`);
       if (!response.ok) throw new Error("Failed to fetch comments");
@@ -35,19 +121,45 @@ export function ReportComments({ reportId }: ReportCommentsProps) {
     },
   });
 
-  const createCommentMutation = useMutation({
-    mutationFn: async (content: string) => {
-      return apiRequest("POST", `/api/reports/${reportId}/comments`, { content });
+  // Invalidated together with the report list, which shares the "/api/reports" prefix
+  const { data: events = [], isLoading: eventsLoading } = useQuery<ReportEventWithUser[]>({
+    queryKey: ["/api/reports", reportId, "events"],
+  });
+
+  // Users of the active school that can be mentioned
+  const { data: schoolUsers = [] } = useQuery<MentionUser[]>({
+    queryKey: ["/api/school-users"],
+  });
+
+  const timeline: TimelineEntry[] = [
+    ...comments.map(comment => ({ kind: "comment" as const, createdAt: comment.createdAt, comment })),
+    ...events.map(event => ({ kind: "event" as const, createdAt: event.createdAt, event })),
+  ].sort((a, b) => (a.createdAt ? new Date(a.createdAt).getTime() : 0) - (b.createdAt ? new Date(b.createdAt).getTime() : 0));
+
+  // The backend notifies the mentioned users
+  const createCommentMutation = useMutation<void, Error, { content: string; files: File[] }>({
+    mutationFn: async ({ content, files }) => {
+      const response = await apiRequest("POST", `/api/reports/${reportId}/comments`, {
+        content,
+        mentionedUserIds: extractMentionIds(content),
+      });
+      const comment: ReportComment = await response.json();
+      if (files.length > 0) {
+        await uploadAttachments("report-comments", comment.id, files);
+      }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "comments"] });
-      setNewComment("");
+      queryClient.invalidateQueries({ queryKey: commentsKey(reportId) });
+      setNewComment(emptyMentionDraft);
+      setPendingFiles([]);
       toast({
         title: "Opmerking toegevoegd",
         description: "Je opmerking is succesvol toegevoegd",
       });
     },
     onError: () => {
+      // The comment may exist without its attachments
+      queryClient.invalidateQueries({ queryKey: commentsKey(reportId) });
       toast({
         variant: "destructive",
         title: "Fout",
@@ -56,9 +168,55 @@ export function ReportComments({ reportId }: ReportCommentsProps) {
     },
   });
 
+  const updateCommentMutation = useMutation<void, Error, { id: string; content: string }>({
+    mutationFn: async ({ id, content }) => {
+      await apiRequest("PATCH", `/api/reports/${reportId}/comments/${id}`, {
+        content,
+        mentionedUserIds: extractMentionIds(content),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey(reportId) });
+      setEditingCommentId(null);
+      toast({
+        title: "Succes",
+        description: "Opmerking bijgewerkt",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon opmerking niet bijwerken",
+      });
+    },
+  });
+
+  const deleteCommentMutation = useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      await apiRequest("DELETE", `/api/reports/${reportId}/comments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey(reportId) });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      setDeleteCommentId(null);
+      toast({
+        title: "Succes",
+        description: "Opmerking verwijderd",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon opmerking niet verwijderen",
+      });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newComment.trim()) {
+    if (!newComment.text.trim() && pendingFiles.length === 0) {
       toast({
         variant: "destructive",
         title: "Fout",
@@ -66,63 +224,224 @@ export function ReportComments({ reportId }: ReportCommentsProps) {
       });
       return;
     }
-    createCommentMutation.mutate(newComment);
+    createCommentMutation.mutate({ content: toMentionContent(newComment), files: pendingFiles });
+  };
+
+  const handleEdit = (comment: ReportComment) => {
+    setEditingCommentId(comment.id);
+    setEditDraft(fromMentionContent(comment.content));
+  };
+
+  const handleOpenAttachment = async (doc: Document) => {
+    try {
+      await openDocument(doc);
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon bijlage niet openen",
+      });
+    }
   };
 
   return (
     <div className="mt-4 pt-4 border-t space-y-3">
       <div className="flex items-center gap-2 text-sm font-medium">
         <MessageSquare className="h-4 w-4" />
-        <span>Opmerkingen ({comments.length})</span>
+        <span>Tijdlijn ({comments.length} {comments.length === 1 ? "opmerking" : "opmerkingen"})</span>
       </div>
 
-      {isLoading ? (
+      {isLoading || eventsLoading ? (
         <p className="text-sm text-muted-foreground">Laden...</p>
-      ) : comments.length > 0 ? (
-        <div className="space-y-2 max-h-60 overflow-y-auto">
-          {comments.map((comment) => (
+      ) : timeline.length > 0 ? (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {timeline.map((entry) => entry.kind === "event" ? (
+            <div
+              key={`event-${entry.event.id}`}
+              className="flex items-start gap-2 px-3 py-1 text-xs text-muted-foreground"
+              data-testid={`report-event-${entry.event.id}`}
+            >
+              <History className="h-3 w-3 mt-0.5 shrink-0" />
+              <span>
+                {entry.event.userId && (
+                  <span className="font-medium text-foreground">
+                    {getUserName(entry.event.userFirstName, entry.event.userLastName)}{" "}
+                  </span>
+                )}
+                {describeEvent(entry.event)}
+                {entry.event.createdAt && ` · ${format(new Date(entry.event.createdAt), "dd MMM yyyy HH:mm")}`}
+              </span>
+            </div>
+          ) : (
             <div
-              key={comment.id}
-              className="bg-muted/50 rounded-md p-3 text-sm"
-              data-testid={`comment-${comment.id}`}
+              key={`comment-${entry.comment.id}`}
+              className="group bg-muted/50 rounded-md p-3 text-sm"
+              data-testid={`comment-${entry.comment.id}`}
             >
               <div className="flex items-center gap-2 mb-1">
                 <span className="font-medium text-foreground">
-                  {comment.userFirstName && comment.userLastName 
-                    ? `${comment.userFirstName} ${comment.userLastName}` 
-                    : 'Onbekend'}
+                  {getUserName(entry.comment.userFirstName, entry.comment.userLastName)}
                 </span>
                 <span className="text-xs text-muted-foreground">
-                  {comment.createdAt && format(new Date(comment.createdAt), "dd MMM yyyy HH:mm")}
+                  {entry.comment.createdAt && format(new Date(entry.comment.createdAt), "dd MMM yyyy HH:mm")}
+                  {entry.comment.editedAt && " (bewerkt)"}
                 </span>
+                {entry.comment.userId === user?.id && editingCommentId !== entry.comment.id && (
+                  <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleEdit(entry.comment)}
+                      aria-label="Opmerking bewerken"
+                      data-testid={`button-edit-comment-${entry.comment.id}`}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setDeleteCommentId(entry.comment.id)}
+                      aria-label="Opmerking verwijderen"
+                      data-testid={`button-delete-comment-${entry.comment.id}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
               </div>
-              <p className="whitespace-pre-wrap">{comment.content}</p>
+              {editingCommentId === entry.comment.id ? (
+                <div className="space-y-2">
+                  <MentionTextarea
+                    value={editDraft}
+                    onChange={setEditDraft}
+                    users={schoolUsers}
+                    className="resize-none bg-background"
+                    rows={2}
+                    data-testid={`input-edit-comment-${entry.comment.id}`}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => updateCommentMutation.mutate({ id: entry.comment.id, content: toMentionContent(editDraft) })}
+                      disabled={updateCommentMutation.isPending || !editDraft.text.trim()}
+                      data-testid={`button-save-comment-${entry.comment.id}`}
+                    >
+                      {updateCommentMutation.isPending ? "Bezig..." : "Opslaan"}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditingCommentId(null)}>
+                      Annuleren
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                entry.comment.content && <CommentContent content={entry.comment.content} />
+              )}
+              {entry.comment.attachments && entry.comment.attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {entry.comment.attachments.map(doc => (
+                    <button
+                      key={doc.id}
+                      type="button"
+                      onClick={() => handleOpenAttachment(doc)}
+                      className="flex h-16 w-16 items-center justify-center overflow-hidden rounded-md border bg-background"
+                      title={doc.originalName}
+                      data-testid={`comment-attachment-${doc.id}`}
+                    >
+                      <Thumbnail document={doc} />
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
       ) : (
-        <p className="text-sm text-muted-foreground">Nog geen opmerkingen</p>
+        <p className="text-sm text-muted-foreground">Nog geen opmerkingen of wijzigingen</p>
       )}
 
       <form onSubmit={handleSubmit} className="space-y-2">
-        <Textarea
+        <MentionTextarea
           value={newComment}
-          onChange={(e) => setNewComment(e.target.value)}
-          placeholder="Voeg een opmerking toe..."
+          onChange={setNewComment}
+          users={schoolUsers}
+          placeholder="Voeg een opmerking toe... Gebruik @ om iemand te noemen"
           className="resize-none"
           rows={2}
           data-testid={`input-comment-${reportId}`}
         />
-        <Button
-          type="submit"
-          size="sm"
-          disabled={createCommentMutation.isPending || !newComment.trim()}
-          data-testid={`button-add-comment-${reportId}`}
-        >
-          <Send className="h-3 w-3 mr-2" />
-          {createCommentMutation.isPending ? "Bezig..." : "Opmerking toevoegen"}
-        </Button>
+        {pendingFiles.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {pendingFiles.map((file, index) => (
+              <div key={`${file.name}-${index}`} className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs">
+                <span className="max-w-[160px] truncate">{file.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setPendingFiles(pendingFiles.filter((_, i) => i !== index))}
+                  aria-label="Bijlage verwijderen"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept="image/*,.pdf,.doc,.docx,.xls,.xlsx"
+            className="hidden"
+            onChange={(e) => {
+              setPendingFiles([...pendingFiles, ...Array.from(e.target.files ?? [])]);
+              e.target.value = "";
+            }}
+            data-testid={`input-comment-files-${reportId}`}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={createCommentMutation.isPending || (!newComment.text.trim() && pendingFiles.length === 0)}
+            data-testid={`button-add-comment-${reportId}`}
+          >
+            <Send className="h-3 w-3 mr-2" />
+            {createCommentMutation.isPending ? "Bezig..." : "Opmerking toevoegen"}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            data-testid={`button-comment-attach-${reportId}`}
+          >
+            <Paperclip className="h-3 w-3 mr-2" />
+            Bijlage
+          </Button>
+        </div>
       </form>
+
+      <AlertDialog open={deleteCommentId !== null} onOpenChange={(open) => !open && setDeleteCommentId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Opmerking verwijderen</AlertDialogTitle>
+            <AlertDialogDescription>
+              Weet je zeker dat je deze opmerking en de bijlagen wilt verwijderen? Deze actie kan niet ongedaan worden gemaakt.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-comment">Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteCommentId && deleteCommentMutation.mutate(deleteCommentId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-comment"
+            >
+              Verwijderen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { Maintenance, ClientInsertMaintenance, ReportsToTask } from "@shared/schema";
+
+export interface LinkableReport {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  priority: string;
+}
+
+interface ReportsToTaskDialogProps {
+  // Dialog is open while reports are set
+  reports: LinkableReport[] | null;
+  onOpenChange: (open: boolean) => void;
+  onDone?: () => void;
+}
+
+type TaskMode = "new" | "existing";
+
+const priorityOrder = ["low", "medium", "high", "critical"];
+
+const highestPriority = (reports: LinkableReport[]) =>
+  reports.reduce((highest, report) =>
+    priorityOrder.indexOf(report.priority) > priorityOrder.indexOf(highest) ? report.priority : highest,
+  "low");
+
+// Shared location when all reports have the same one
+const commonLocation = (reports: LinkableReport[]) => {
+  const locations = Array.from(new Set(reports.map(report => report.location).filter(Boolean)));
+  return locations.length === 1 ? locations[0] : null;
+};
+
+const defaultDescription = (reports: LinkableReport[]) =>
+  reports.length === 1
+    ? reports[0].description ?? ""
+    : `Naar aanleiding van ${reports.length} meldingen:\n${reports
+        .map(report => `- ${report.title}${report.location ? ` (${report.location})` : ""}`)
+        .join("\n")}`;
+
+// Creates one maintenance task for several reports, or links them to an existing task
+export function ReportsToTaskDialog({ reports, onOpenChange, onDone }: ReportsToTaskDialogProps) {
+  const [mode, setMode] = useState<TaskMode>("new");
+  const [formData, setFormData] = useState({ title: "", description: "", priority: "medium" });
+  const [maintenanceId, setMaintenanceId] = useState("");
+  const { toast } = useToast();
+
+  const { data: tasks = [] } = useQuery<Maintenance[]>({
+    queryKey: ["/api/maintenance"],
+    enabled: reports !== null,
+  });
+
+  const openTasks = tasks.filter(task => task.status === "pending" || task.status === "in_progress");
+
+  useEffect(() => {
+    if (!reports || reports.length === 0) return;
+    setMode("new");
+    setMaintenanceId("");
+    setFormData({
+      title: reports[0].title,
+      description: defaultDescription(reports),
+      priority: highestPriority(reports),
+    });
+  }, [reports]);
+
+  const linkMutation = useMutation<Maintenance, Error, ReportsToTask>({
+    mutationFn: async (data) => {
+      const response = await apiRequest("POST", "/api/maintenance/from-reports", data);
+      return response.json();
+    },
+    onSuccess: (task, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+      const count = data.reportIds.length;
+      toast({
+        title: "Succes",
+        description: "task" in data
+          ? `Taak aangemaakt voor ${count} ${count === 1 ? "melding" : "meldingen"}`
+          : `${count} ${count === 1 ? "melding" : "meldingen"} gekoppeld aan "${task.title}"`,
+      });
+      onOpenChange(false);
+      onDone?.();
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon meldingen niet aan een taak koppelen",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reports) return;
+    const reportIds = reports.map(report => report.id);
+
+    if (mode === "existing") {
+      if (!maintenanceId) {
+        toast({
+          variant: "destructive",
+          title: "Fout",
+          description: "Kies een taak",
+        });
+        return;
+      }
+      linkMutation.mutate({ reportIds, maintenanceId });
+      return;
+    }
+
+    if (!formData.title.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Vul een titel in",
+      });
+      return;
+    }
+    linkMutation.mutate({
+      reportIds,
+      task: {
+        title: formData.title.trim(),
+        description: formData.description || null,
+        location: commonLocation(reports),
+        priority: formData.priority as ClientInsertMaintenance["priority"],
+      },
+    });
+  };
+
+  return (
+    <Dialog open={reports !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Onderhoudstaak voor {reports?.length === 1 ? "melding" : `${reports?.length ?? 0} meldingen`}</DialogTitle>
+          <DialogDescription>
+            Wordt de taak afgerond, dan worden alle gekoppelde meldingen ook afgehandeld.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <ul className="max-h-32 overflow-y-auto rounded-md border p-2 text-sm space-y-1" data-testid="list-linked-reports">
+            {reports?.map(report => (
+              <li key={report.id} className="truncate">
+                {report.title}
+                {report.location && <span className="text-muted-foreground"> - {report.location}</span>}
+              </li>
+            ))}
+          </ul>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as TaskMode)} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="new" id="task-mode-new" data-testid="radio-task-new" />
+              <Label htmlFor="task-mode-new">Nieuwe taak</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="existing" id="task-mode-existing" disabled={openTasks.length === 0} data-testid="radio-task-existing" />
+              <Label htmlFor="task-mode-existing">Bestaande taak</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === "new" ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="task-from-reports-title">Titel *</Label>
+                <Input
+                  id="task-from-reports-title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  data-testid="input-task-from-reports-title"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="task-from-reports-description">Beschrijving</Label>
+                <Textarea
+                  id="task-from-reports-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={4}
+                  data-testid="input-task-from-reports-description"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Prioriteit</Label>
+                <Select value={formData.priority} onValueChange={(value) => setFormData({ ...formData, priority: value })}>
+                  <SelectTrigger data-testid="select-task-from-reports-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="critical">Kritiek</SelectItem>
+                    <SelectItem value="high">Hoog</SelectItem>
+                    <SelectItem value="medium">Gemiddeld</SelectItem>
+                    <SelectItem value="low">Laag</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label>Taak</Label>
+              <Select value={maintenanceId} onValueChange={setMaintenanceId}>
+                <SelectTrigger data-testid="select-existing-task">
+                  <SelectValue placeholder="Kies een openstaande taak" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openTasks.map(task => (
+                    <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annuleren
+            </Button>
+            <Button type="submit" disabled={linkMutation.isPending} data-testid="button-submit-task-from-reports">
+              {linkMutation.isPending ? "Bezig..." : mode === "new" ? "Taak aanmaken" : "Koppelen"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
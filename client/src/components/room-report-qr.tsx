@@ -0,0 +1,158 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Printer, RefreshCw } from "lucide-react";
+import type { RoomReportLink } from "@shared/schema";
+
+export interface QrRoom {
+  id: string;
+  name: string;
+  buildingName: string;
+}
+
+interface RoomReportQrDialogProps {
+  // Dialog is open while a room is set
+  room: QrRoom | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const getLinkKey = (roomId: string) => `/api/rooms/${roomId}/report-link`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Opens a print view with the QR code and room name, to hang in the room
+const printQrCode = (room: QrRoom, link: RoomReportLink) => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return;
+  printWindow.document.write(`<!DOCTYPE html>
+<html lang="nl">
+<head>
+<title>QR-code ${escapeHtml(room.name)}</title>
+<style>
+  body { font-family: sans-serif; text-align: center; padding: 48px; }
+  img { width: 320px; height: 320px; }
+  h1 { margin-bottom: 4px; }
+  p { color: #555; }
+</style>
+</head>
+<body>
+  <h1>Iets kapot of defect?</h1>
+  <p>Scan de code en maak direct een melding</p>
+  <img src="${escapeHtml(link.qrCodeDataUrl)}" alt="QR-code" />
+  <h2>${escapeHtml(room.buildingName)} - ${escapeHtml(room.name)}</h2>
+  <p>${escapeHtml(link.url)}</p>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.onload = () => printWindow.print();
+};
+
+// Printable QR code that opens the public report form for a room
+export function RoomReportQrDialog({ room, onOpenChange }: RoomReportQrDialogProps) {
+  const { toast } = useToast();
+
+  // The backend creates the token on first request
+  const { data: link, isLoading } = useQuery<RoomReportLink>({
+    queryKey: [room ? getLinkKey(room.id) : ""],
+    enabled: !!room,
+  });
+
+  const rotateMutation = useMutation<RoomReportLink, Error, string>({
+    mutationFn: async (roomId) => {
+      const response = await apiRequest("POST", getLinkKey(roomId));
+      return response.json();
+    },
+    onSuccess: (newLink, roomId) => {
+      queryClient.setQueryData([getLinkKey(roomId)], newLink);
+      toast({
+        title: "Succes",
+        description: "Nieuwe QR-code aangemaakt. Vervang de geprinte code in de ruimte.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon geen nieuwe QR-code aanmaken",
+      });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast({
+        title: "Succes",
+        description: "Link gekopieerd",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon link niet kopiëren",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={room !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>QR-code: {room?.name}</DialogTitle>
+          <DialogDescription>
+            Iedereen met deze code kan zonder account een melding maken voor deze ruimte.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !link ? (
+          <p className="text-center text-muted-foreground py-8">Laden...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <img src={link.qrCodeDataUrl} alt={`QR-code ${room?.name}`} className="h-56 w-56" data-testid="img-room-qr" />
+            </div>
+            <div className="flex gap-2">
+              <Input value={link.url} readOnly data-testid="input-room-report-url" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Link kopiëren" data-testid="button-copy-report-url">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex justify-between gap-2">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={rotateMutation.isPending} data-testid="button-rotate-qr">
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Nieuwe code
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Nieuwe QR-code aanmaken</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      De huidige code werkt daarna niet meer. Gebruik dit als de code misbruikt wordt.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Annuleren</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => room && rotateMutation.mutate(room.id)} data-testid="button-confirm-rotate-qr">
+                      Nieuwe code
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Button onClick={() => room && printQrCode(room, link)} data-testid="button-print-qr">
+                <Printer className="h-4 w-4 mr-2" />
+                Afdrukken
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
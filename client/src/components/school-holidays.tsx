@@ -0,0 +1,413 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, Download, Volume2 } from "lucide-react";
+import { eachDayOfInterval, endOfDay, format, isSameDay, isWeekend, startOfDay } from "date-fns";
+import { nl } from "date-fns/locale";
+import { DatePicker } from "@/components/date-picker";
+import type { ClientInsertSchoolHoliday, SchoolHoliday, SchoolHolidayImport, SchoolHolidayImportResult } from "@shared/schema";
+
+type HolidayType = SchoolHoliday["type"];
+type HolidayRegion = SchoolHolidayImport["region"];
+
+export const holidayTypeLabels: Record<HolidayType, string> = {
+  vakantie: "Vakantie",
+  studiedag: "Studiedag",
+};
+
+// Background of days in a holiday period or on a study day
+export const holidayTypeColors: Record<HolidayType, string> = {
+  vakantie: "bg-chart-4/15",
+  studiedag: "bg-chart-5/15",
+};
+
+const regionLabels: Record<HolidayRegion, string> = {
+  noord: "Regio Noord",
+  midden: "Regio Midden",
+  zuid: "Regio Zuid",
+};
+
+// Activity types that cause noise or disruption in the building
+const NOISY_ACTIVITY_TYPES = new Set<string>(["onderhoud"]);
+
+// School years run from August to July
+const getCurrentSchoolYear = () => {
+  const today = new Date();
+  return today.getMonth() >= 7 ? today.getFullYear() : today.getFullYear() - 1;
+};
+
+export function useSchoolHolidays() {
+  return useQuery<SchoolHoliday[]>({
+    queryKey: ["/api/school-holidays"],
+  });
+}
+
+// Holiday period or study day covering the day
+export const getHoliday = (holidays: SchoolHoliday[], day: Date) =>
+  holidays.find(holiday => startOfDay(new Date(holiday.startDate)) <= day && endOfDay(new Date(holiday.endDate)) >= day);
+
+// Weekdays outside holiday periods and study days
+export const isRegularSchoolDay = (holidays: SchoolHoliday[], day: Date) =>
+  !isWeekend(day) && !getHoliday(holidays, day);
+
+interface SchoolDayWarningProps {
+  activityType: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+/**
+ * Warns when a noisy activity is planned on a regular school day. Without configured
+ * holidays every weekday would count as a school day, so nothing is shown then.
+ */
+export function SchoolDayWarning({ activityType, startDate, endDate }: SchoolDayWarningProps) {
+  const { data: holidays = [] } = useSchoolHolidays();
+  if (!activityType || !NOISY_ACTIVITY_TYPES.has(activityType) || !startDate || holidays.length === 0) return null;
+
+  const end = endDate && endDate > startDate ? endDate : startDate;
+  const schoolDays = eachDayOfInterval({ start: startOfDay(startDate), end: startOfDay(end) })
+    .filter(day => isRegularSchoolDay(holidays, day));
+  if (schoolDays.length === 0) return null;
+
+  return (
+    <div className="border border-chart-4/40 bg-chart-4/10 rounded-md p-3 space-y-1" data-testid="school-day-warning">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Volume2 className="h-4 w-4" />
+        Gepland op een schooldag
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {schoolDays.length === 1
+          ? format(schoolDays[0], "EEEE d MMMM", { locale: nl })
+          : `${schoolDays.length} schooldagen, vanaf ${format(schoolDays[0], "EEEE d MMMM", { locale: nl })}`}
+        {" "}is een gewone lesdag. Plan werkzaamheden met geluidsoverlast bij voorkeur in een vakantie of op een studiedag.
+      </p>
+    </div>
+  );
+}
+
+// Short label for a day in a calendar, e.g. "Kerstvakantie"
+export function HolidayLabel({ holiday }: { holiday: SchoolHoliday }) {
+  return (
+    <div className="text-[10px] leading-tight text-muted-foreground truncate" title={`${holidayTypeLabels[holiday.type]}: ${holiday.name}`}>
+      {holiday.name}
+    </div>
+  );
+}
+
+interface HolidayFormState {
+  name: string;
+  type: HolidayType;
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+const emptyHolidayForm: HolidayFormState = {
+  name: "",
+  type: "vakantie",
+  startDate: null,
+  endDate: null,
+};
+
+export function SchoolHolidaysDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [editingHoliday, setEditingHoliday] = useState<SchoolHoliday | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deleteHolidayId, setDeleteHolidayId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<HolidayFormState>(emptyHolidayForm);
+  const [region, setRegion] = useState<HolidayRegion>("midden");
+  const [schoolYear, setSchoolYear] = useState(getCurrentSchoolYear);
+  const { toast } = useToast();
+
+  const { data: holidays = [], isLoading } = useSchoolHolidays();
+  const sortedHolidays = [...holidays].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  const currentSchoolYear = getCurrentSchoolYear();
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingHoliday(null);
+    setFormData(emptyHolidayForm);
+  };
+
+  const saveHolidayMutation = useMutation<void, Error, { id?: string; data: ClientInsertSchoolHoliday }>({
+    mutationFn: async ({ id, data }) => {
+      await apiRequest(id ? "PATCH" : "POST", id ? `/api/school-holidays/${id}` : "/api/school-holidays", data);
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school-holidays"] });
+      closeForm();
+      toast({
+        title: "Succes",
+        description: id ? "Periode succesvol bijgewerkt" : "Periode succesvol toegevoegd",
+      });
+    },
+    onError: (_, { id }) => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: id ? "Kon periode niet bijwerken" : "Kon periode niet toevoegen",
+      });
+    },
+  });
+
+  const deleteHolidayMutation = useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      await apiRequest("DELETE", `/api/school-holidays/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school-holidays"] });
+      setDeleteHolidayId(null);
+      toast({
+        title: "Succes",
+        description: "Periode succesvol verwijderd",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon periode niet verwijderen",
+      });
+    },
+  });
+
+  const importMutation = useMutation<SchoolHolidayImportResult, Error, SchoolHolidayImport>({
+    mutationFn: async (data) => {
+      const response = await apiRequest("POST", "/api/school-holidays/import", data);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school-holidays"] });
+      toast({
+        title: "Succes",
+        description: `${result.imported} ${result.imported === 1 ? "vakantie" : "vakanties"} toegevoegd${result.skipped > 0 ? `, ${result.skipped} al aanwezig` : ""}`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon schoolvakanties niet ophalen",
+      });
+    },
+  });
+
+  const handleEdit = (holiday: SchoolHoliday) => {
+    setEditingHoliday(holiday);
+    setFormData({
+      name: holiday.name,
+      type: holiday.type,
+      startDate: new Date(holiday.startDate),
+      endDate: new Date(holiday.endDate),
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name.trim() || !formData.startDate) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Naam en startdatum zijn verplicht",
+      });
+      return;
+    }
+    const endDate = formData.endDate ?? formData.startDate;
+    if (endDate < formData.startDate) {
+      toast({
+        variant: "destructive",
+        title: "Ongeldige datums",
+        description: "Einddatum moet op of na de startdatum zijn",
+      });
+      return;
+    }
+    saveHolidayMutation.mutate({
+      id: editingHoliday?.id,
+      data: {
+        name: formData.name.trim(),
+        type: formData.type,
+        startDate: startOfDay(formData.startDate),
+        endDate: endOfDay(endDate),
+        // Edited periods no longer follow the national schedule
+        region: null,
+      },
+    });
+  };
+
+  const formatPeriod = (holiday: SchoolHoliday) => {
+    const start = new Date(holiday.startDate);
+    const end = new Date(holiday.endDate);
+    return isSameDay(start, end)
+      ? format(start, "EEEE d MMMM yyyy", { locale: nl })
+      : `${format(start, "d MMM", { locale: nl })} - ${format(end, "d MMM yyyy", { locale: nl })}`;
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(isOpen) => { onOpenChange(isOpen); if (!isOpen) closeForm(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Vakanties en studiedagen</DialogTitle>
+            <DialogDescription>
+              Deze periodes worden in de planning getoond. Werkzaamheden met geluidsoverlast plan je bij voorkeur hierin.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isFormOpen ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="holiday-name">Naam *</Label>
+                  <Input
+                    id="holiday-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Bijv. Herfstvakantie"
+                    data-testid="input-holiday-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Soort</Label>
+                  <Select value={formData.type} onValueChange={(type) => setFormData({ ...formData, type: type as HolidayType })}>
+                    <SelectTrigger data-testid="select-holiday-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(holidayTypeLabels) as HolidayType[]).map(type => (
+                        <SelectItem key={type} value={type}>{holidayTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Van *</Label>
+                  <DatePicker
+                    value={formData.startDate}
+                    onChange={(startDate) => setFormData({ ...formData, startDate })}
+                    placeholder="dd-mm-jjjj"
+                    testId="input-holiday-start"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Tot en met</Label>
+                  <DatePicker
+                    value={formData.endDate}
+                    onChange={(endDate) => setFormData({ ...formData, endDate })}
+                    placeholder="dd-mm-jjjj"
+                    testId="input-holiday-end"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={closeForm}>Annuleren</Button>
+                <Button onClick={handleSubmit} disabled={saveHolidayMutation.isPending} data-testid="button-submit-holiday">
+                  {saveHolidayMutation.isPending ? "Bezig..." : editingHoliday ? "Periode Bijwerken" : "Periode Toevoegen"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+                <div className="space-y-2">
+                  <Label>Schoolvakanties van</Label>
+                  <Select value={region} onValueChange={(value) => setRegion(value as HolidayRegion)}>
+                    <SelectTrigger className="w-[160px]" data-testid="select-holiday-region">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(regionLabels) as HolidayRegion[]).map(value => (
+                        <SelectItem key={value} value={value}>{regionLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Select value={schoolYear.toString()} onValueChange={(value) => setSchoolYear(parseInt(value))}>
+                  <SelectTrigger className="w-[130px]" data-testid="select-holiday-school-year">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[currentSchoolYear - 1, currentSchoolYear, currentSchoolYear + 1, currentSchoolYear + 2].map(year => (
+                      <SelectItem key={year} value={year.toString()}>{year}-{year + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => importMutation.mutate({ region, schoolYear })}
+                  disabled={importMutation.isPending}
+                  data-testid="button-import-holidays"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  {importMutation.isPending ? "Bezig..." : "Ophalen"}
+                </Button>
+              </div>
+
+              <Button onClick={() => setIsFormOpen(true)} data-testid="button-new-holiday">
+                <Plus className="h-4 w-4 mr-2" />
+                Periode Toevoegen
+              </Button>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Laden...</p>
+              ) : sortedHolidays.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">Nog geen vakanties of studiedagen</p>
+              ) : (
+                <div className="space-y-2">
+                  {sortedHolidays.map(holiday => (
+                    <div key={holiday.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg" data-testid={`holiday-${holiday.id}`}>
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className={`h-3 w-3 shrink-0 rounded-sm ${holidayTypeColors[holiday.type]}`} />
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium truncate">{holiday.name}</p>
+                            <Badge variant="outline">{holidayTypeLabels[holiday.type]}</Badge>
+                            {holiday.region && <Badge variant="secondary">{regionLabels[holiday.region]}</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">{formatPeriod(holiday)}</p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(holiday)} data-testid={`button-edit-holiday-${holiday.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setDeleteHolidayId(holiday.id)} data-testid={`button-delete-holiday-${holiday.id}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteHolidayId !== null} onOpenChange={() => setDeleteHolidayId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Periode verwijderen</AlertDialogTitle>
+            <AlertDialogDescription>
+              Weet je zeker dat je deze periode wilt verwijderen?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteHolidayId && deleteHolidayMutation.mutate(deleteHolidayId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-holiday"
+            >
+              Verwijderen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Copy, MapPin, MessageSquarePlus } from "lucide-react";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import type { DuplicateMatch } from "@shared/report-duplicates";
+
+export interface SimilarReport {
+  id: string;
+  title: string;
+  location: string | null;
+  status: string;
+  createdAt: Date | string | null;
+}
+
+interface SimilarReportsProps {
+  matches: DuplicateMatch<SimilarReport>[];
+  onAddComment: (reportId: string) => void;
+  isPending: boolean;
+}
+
+const getStatusLabel = (status: string) => {
+  switch (status) {
+    case 'pending': return 'In afwachting';
+    case 'in_progress': return 'In behandeling';
+    default: return status;
+  }
+};
+
+// Open reports that look like the one being created, so it can be added to an existing one instead
+export function SimilarReports({ matches, onAddComment, isPending }: SimilarReportsProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="border border-primary/40 bg-primary/5 rounded-md p-3 space-y-2" data-testid="similar-reports">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Copy className="h-4 w-4" />
+        <span>Is dit al gemeld? {matches.length === 1 ? "Deze open melding lijkt erop" : "Deze open meldingen lijken erop"}</span>
+      </div>
+      {matches.map(({ report }) => (
+        <div
+          key={report.id}
+          className="flex items-center justify-between gap-3 p-2 bg-background border rounded-md"
+          data-testid={`similar-report-${report.id}`}
+        >
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{report.title}</p>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline" className="text-xs">{getStatusLabel(report.status)}</Badge>
+              {report.location && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-3 w-3" />
+                  {report.location}
+                </span>
+              )}
+              {report.createdAt && <span>{format(new Date(report.createdAt), "d MMM yyyy", { locale: nl })}</span>}
+            </div>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="shrink-0"
+            onClick={() => onAddComment(report.id)}
+            disabled={isPending}
+            data-testid={`button-add-to-report-${report.id}`}
+          >
+            <MessageSquarePlus className="h-4 w-4 mr-2" />
+            Voeg toe als opmerking
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Clock } from "lucide-react";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import { getSlaState, resolveSlaTargets, formatSlaHours, SLA_PRIORITIES, type SlaItem, type SlaPriority, type SlaTargets } from "@shared/sla";
+import type { SlaTarget, ClientInsertSlaTarget } from "@shared/schema";
+
+const priorityLabels: Record<SlaPriority, string> = {
+  critical: "Kritiek",
+  high: "Hoog",
+  medium: "Gemiddeld",
+  low: "Laag",
+};
+
+// School's SLA targets merged over the defaults
+export function useSlaTargets(): SlaTargets {
+  const { data: rows = [] } = useQuery<SlaTarget[]>({
+    queryKey: ["/api/sla-targets"],
+  });
+  return resolveSlaTargets(rows);
+}
+
+interface SlaBadgeProps {
+  item: SlaItem;
+  targets: SlaTargets;
+  className?: string;
+}
+
+// Overdue badge, or the resolve deadline while the item is still on time
+export function SlaBadge({ item, targets, className = "" }: SlaBadgeProps) {
+  const sla = getSlaState(item, targets);
+  if (item.status === "completed" || item.status === "cancelled") return null;
+
+  const title = [
+    sla.responseDeadline && `Reactie uiterlijk ${format(sla.responseDeadline, "d MMM HH:mm", { locale: nl })}`,
+    sla.resolveDeadline && `Afhandeling uiterlijk ${format(sla.resolveDeadline, "d MMM HH:mm", { locale: nl })}`,
+  ].filter(Boolean).join("\n");
+
+  if (sla.overdue) {
+    return (
+      <Badge variant="destructive" className={`gap-1 ${className}`} title={title} data-testid="badge-sla-overdue">
+        <AlertTriangle className="h-3 w-3" />
+        {sla.resolveOverdue ? "Over tijd" : "Reactie te laat"}
+      </Badge>
+    );
+  }
+
+  if (!sla.resolveDeadline) return null;
+
+  return (
+    <Badge variant="outline" className={`gap-1 ${className}`} title={title} data-testid="badge-sla-deadline">
+      <Clock className="h-3 w-3" />
+      Uiterlijk {format(sla.resolveDeadline, "d MMM", { locale: nl })}
+    </Badge>
+  );
+}
+
+type SlaFormState = Record<SlaPriority, { responseHours: string; resolveHours: string }>;
+
+const toFormState = (targets: SlaTargets): SlaFormState =>
+  Object.fromEntries(SLA_PRIORITIES.map(priority => [priority, {
+    responseHours: targets[priority].responseHours?.toString() ?? "",
+    resolveHours: targets[priority].resolveHours?.toString() ?? "",
+  }])) as SlaFormState;
+
+const parseHours = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+
+// Configures response and resolve targets per priority for the active school
+export function SlaSettingsDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const targets = useSlaTargets();
+  const [formData, setFormData] = useState<SlaFormState>(() => toFormState(targets));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setFormData(toFormState(targets));
+  }, [open]);
+
+  const saveMutation = useMutation<void, Error, ClientInsertSlaTarget[]>({
+    mutationFn: async (data) => {
+      await apiRequest("PUT", "/api/sla-targets", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-targets"] });
+      onOpenChange(false);
+      toast({
+        title: "Succes",
+        description: "Reactietijden opgeslagen",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon reactietijden niet opslaan",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rows = SLA_PRIORITIES.map(priority => ({
+      priority,
+      responseHours: parseHours(formData[priority].responseHours),
+      resolveHours: parseHours(formData[priority].resolveHours),
+    }));
+    const invalid = rows.some(row =>
+      [row.responseHours, row.resolveHours].some(hours => hours !== null && (isNaN(hours) || hours < 1))
+    );
+    if (invalid) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Vul een geheel aantal uren in (minimaal 1) of laat het veld leeg",
+      });
+      return;
+    }
+    saveMutation.mutate(rows);
+  };
+
+  const updateField = (priority: SlaPriority, field: "responseHours" | "resolveHours", value: string) => {
+    setFormData({ ...formData, [priority]: { ...formData[priority], [field]: value } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Reactietijden</DialogTitle>
+          <DialogDescription>
+            Termijnen in uren vanaf het aanmaken van een melding of taak. Laat een veld leeg voor geen termijn.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-[1fr_1fr_1fr] gap-x-4 gap-y-2 items-center">
+            <span className="text-sm font-medium">Prioriteit</span>
+            <span className="text-sm font-medium">Reactie (uren)</span>
+            <span className="text-sm font-medium">Afhandeling (uren)</span>
+            {SLA_PRIORITIES.map(priority => (
+              <div key={priority} className="contents">
+                <span className="text-sm">{priorityLabels[priority]}</span>
+                <div>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={formData[priority].responseHours}
+                    onChange={(e) => updateField(priority, "responseHours", e.target.value)}
+                    data-testid={`input-sla-response-${priority}`}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">{formatSlaHours(parseHours(formData[priority].responseHours))}</p>
+                </div>
+                <div>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={formData[priority].resolveHours}
+                    onChange={(e) => updateField(priority, "resolveHours", e.target.value)}
+                    data-testid={`input-sla-resolve-${priority}`}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">{formatSlaHours(parseHours(formData[priority].resolveHours))}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annuleren
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-sla">
+              {saveMutation.isPending ? "Bezig..." : "Opslaan"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
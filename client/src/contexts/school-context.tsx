@@ -61,6 +61,7 @@ export function SchoolProvider({
               key.startsWith('/api/contracts') ||
               key.startsWith('/api/reports') ||
               key.startsWith('/api/building-data') ||
+              key.startsWith('/api/rooms') ||
               key.startsWith('/api/installation-data') ||
               key.startsWith('/api/contact-data') ||
               key.startsWith('/api/drawings') ||
@@ -69,7 +70,14 @@ export function SchoolProvider({
               key.startsWith('/api/analytics') ||
               key.startsWith('/api/maintenance-history') ||
               key.startsWith('/api/investments') ||
-              key.startsWith('/api/year-plan')
+              key.startsWith('/api/year-plan') ||
+              key.startsWith('/api/checklist-templates') ||
+              key.startsWith('/api/sla-targets') ||
+              key.startsWith('/api/school-users') ||
+              key.startsWith('/api/notifications') ||
+              key.startsWith('/api/calendar-feed') ||
+              key.startsWith('/api/school-holidays') ||
+              key.startsWith('/api/price-indexation')
             );
           }
         });
@@ -0,0 +1,67 @@
+import { useState, useEffect } from "react";
+
+// Multi-select over an ordered list; shift-click selects the range from the last clicked item
+export function useBulkSelection(orderedIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  // Drop selections of items that disappeared (deleted, filtered or school switched)
+  const idsKey = orderedIds.join(",");
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = new Set(orderedIds);
+      const next = new Set(Array.from(prev).filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [idsKey]);
+
+  const toggle = (id: string, shiftKey = false) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1;
+      const index = orderedIds.indexOf(id);
+
+      if (shiftKey && anchorIndex !== -1 && index !== -1) {
+        // Range takes the state of the anchor, like file managers do
+        const select = prev.has(anchorId!);
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        for (const rangeId of orderedIds.slice(from, to + 1)) {
+          if (select) next.add(rangeId);
+          else next.delete(rangeId);
+        }
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    setAnchorId(id);
+  };
+
+  const allSelected = orderedIds.length > 0 && orderedIds.every(id => selectedIds.has(id));
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(orderedIds));
+    setAnchorId(null);
+  };
+
+  const clear = () => {
+    setSelectedIds(new Set());
+    setAnchorId(null);
+  };
+
+  return {
+    selectedIds: Array.from(selectedIds),
+    count: selectedIds.size,
+    isSelected: (id: string) => selectedIds.has(id),
+    allSelected,
+    toggle,
+    toggleAll,
+    // Replaces the selection, e.g. to keep only the items that failed
+    select: (ids: string[]) => setSelectedIds(new Set(ids)),
+    clear,
+  };
+}
+
+export type BulkSelection = ReturnType<typeof useBulkSelection>;
@@ -15,6 +15,7 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Checkbox } from "@/components/ui/checkbox";
+import { LegacyAttachmentMigration } from "@/components/attachment-gallery";
 
 interface Board {
   id: string;
@@ -1313,6 +1314,10 @@ export default function AdminPage() {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <Card className="p-6">
+          <LegacyAttachmentMigration />
+        </Card>
       </div>
 
       {/* Entity Dialog (Board or School) */}
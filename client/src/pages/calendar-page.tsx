@@ -9,13 +9,33 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Plus, Calendar as CalendarIcon, MapPin, Pencil, Trash2, Clock } from "lucide-react";
+import { Plus, Calendar as CalendarIcon, MapPin, Pencil, Trash2, Clock, List, GanttChart, CalendarDays, Repeat, Upload, Rss, Users, CalendarOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
+import { format, addMonths, startOfMonth, eachDayOfInterval } from "date-fns";
 import { nl } from "date-fns/locale";
 import { DatePicker } from "@/components/date-picker";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { Appointment } from "@shared/schema";
+import { ObjectPicker, emptyObjectLink } from "@/components/object-picker";
+import { PlanningTimeline } from "@/components/planning-timeline";
+import { CalendarFeedDialog } from "@/components/calendar-feed";
+import { IcsImportDialog } from "@/components/ics-import";
+import { CalendarNavigation, TimeGridView, AgendaView, getViewRange, useRescheduleAppointment, type CalendarView } from "@/components/calendar-views";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  RecurrenceFields,
+  RecurrenceScopeDialog,
+  expandAppointments,
+  formatRecurrence,
+  getOccurrenceKey,
+  isRecurring,
+  toRecurrenceForm,
+  toRecurrencePayload,
+  validateRecurrence,
+  emptyRecurrence,
+} from "@/components/appointment-recurrence";
+import { SchoolHolidaysDialog, getHoliday, useSchoolHolidays } from "@/components/school-holidays";
+import { ParticipantPicker, AppointmentConflictWarning, findAppointmentConflicts, toParticipantInputs, useParticipantOptions, type AppointmentWithParticipants } from "@/components/appointment-participants";
+import type { Appointment, AppointmentParticipantInput, AppointmentScope } from "@shared/schema";
 
 // Genereer tijdsopties in halve uur intervallen (00 en 30 minuten)
 const generateTimeOptions = () => {
@@ -29,10 +49,25 @@ const generateTimeOptions = () => {
 
 const timeOptions = generateTimeOptions();
 
+// Months ahead for which recurring appointments are listed
+const UPCOMING_MONTHS = 3;
+
+// Edit or delete of a recurring appointment, waiting for the choice of occurrences
+type ScopeRequest =
+  | { action: "edit"; appointment: Appointment; data: any }
+  | { action: "delete"; appointment: Appointment };
+
 export default function CalendarPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingAppointment, setEditingAppointment] = useState<Appointment | null>(null);
   const [deleteAppointmentId, setDeleteAppointmentId] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState(emptyRecurrence);
+  const [scopeRequest, setScopeRequest] = useState<ScopeRequest | null>(null);
+  const [feedDialogOpen, setFeedDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [holidaysOpen, setHolidaysOpen] = useState(false);
+  const [calendarView, setCalendarView] = useState<CalendarView>("week");
+  const [calendarDate, setCalendarDate] = useState(new Date());
   const { toast } = useToast();
 
   const [formData, setFormData] = useState({
@@ -41,12 +76,20 @@ export default function CalendarPage() {
     date: null as Date | null,
     startTime: "",
     location: "",
+    participants: [] as AppointmentParticipantInput[],
+    ...emptyObjectLink,
   });
 
-  const { data: appointments = [], isLoading } = useQuery<Appointment[]>({
+  const { data: appointments = [], isLoading } = useQuery<AppointmentWithParticipants[]>({
     queryKey: ["/api/appointments"],
   });
 
+  const { data: holidays = [] } = useSchoolHolidays();
+
+  const now = new Date();
+  const upcomingAppointments = expandAppointments(appointments, startOfMonth(now), addMonths(now, UPCOMING_MONTHS))
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       return apiRequest("POST", "/api/appointments", data);
@@ -77,6 +120,7 @@ export default function CalendarPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       setDialogOpen(false);
       setEditingAppointment(null);
+      setScopeRequest(null);
       resetForm();
       toast({
         title: "Succes",
@@ -93,12 +137,16 @@ export default function CalendarPage() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
-      return apiRequest("DELETE", `/api/appointments/${id}`);
+    mutationFn: async ({ id, scope, occurrenceDate }: { id: string; scope?: AppointmentScope; occurrenceDate?: Date | null }) => {
+      const params = scope && occurrenceDate
+        ? `?${new URLSearchParams({ scope, occurrenceDate: new Date(occurrenceDate).toISOString() })}`
+        : "";
+      return apiRequest("DELETE", `/api/appointments/${id}${params}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       setDeleteAppointmentId(null);
+      setScopeRequest(null);
       toast({
         title: "Succes",
         description: "Afspraak succesvol verwijderd",
@@ -120,10 +168,13 @@ export default function CalendarPage() {
       date: null,
       startTime: "",
       location: "",
+      participants: [],
+      ...emptyObjectLink,
     });
+    setRecurrence(emptyRecurrence);
   };
 
-  const handleEdit = (appointment: Appointment) => {
+  const handleEdit = (appointment: AppointmentWithParticipants) => {
     setEditingAppointment(appointment);
     const appointmentDate = new Date(appointment.startDate);
     
@@ -140,10 +191,92 @@ export default function CalendarPage() {
       date: appointmentDate,
       startTime: startTime,
       location: appointment.location || "",
+      buildingId: appointment.buildingId,
+      roomId: appointment.roomId,
+      installationId: appointment.installationId,
+      participants: toParticipantInputs(appointment),
     });
+    setRecurrence(toRecurrenceForm(appointment));
     setDialogOpen(true);
   };
 
+  const handleDelete = (appointment: Appointment) => {
+    if (isRecurring(appointment)) {
+      setScopeRequest({ action: "delete", appointment });
+    } else {
+      setDeleteAppointmentId(appointment.id);
+    }
+  };
+
+  const handleScopeConfirm = (scope: AppointmentScope) => {
+    if (!scopeRequest) return;
+    const { appointment } = scopeRequest;
+    if (scopeRequest.action === "delete") {
+      deleteMutation.mutate({ id: appointment.id, scope, occurrenceDate: appointment.occurrenceDate });
+      return;
+    }
+    updateMutation.mutate({
+      id: appointment.id,
+      data: {
+        ...scopeRequest.data,
+        // A single edited occurrence does not repeat itself
+        ...(scope === "this" ? toRecurrencePayload(emptyRecurrence) : {}),
+        scope,
+        occurrenceDate: appointment.occurrenceDate,
+      },
+    });
+  };
+
+  // Dragged in the week or day view; recurring appointments ask for the scope first
+  const rescheduleAppointment = useRescheduleAppointment((appointment, data) =>
+    setScopeRequest({ action: "edit", appointment, data })
+  );
+
+  // Click on an empty slot in the week or day view
+  const handleCreateAt = (date: Date) => {
+    resetForm();
+    setFormData(prev => ({ ...prev, date, startTime: format(date, "HH:mm") }));
+    setEditingAppointment(null);
+    setDialogOpen(true);
+  };
+
+  const calendarRange = getViewRange(calendarView, calendarDate);
+  const calendarAppointments = expandAppointments(appointments, calendarRange.start, calendarRange.end);
+
+  // Occurrences edited on their own are single appointments within a series
+  const canRepeat = !editingAppointment?.seriesId;
+
+  // Start and end of the appointment in the form; an edited appointment keeps its duration
+  const getFormRange = () => {
+    if (!formData.date) return null;
+    // Create the date with optional time
+    const startDate = new Date(formData.date);
+    if (formData.startTime) {
+      const [hours, minutes] = formData.startTime.split(':');
+      startDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+    } else {
+      startDate.setHours(9, 0, 0, 0); // Default to 9:00 if no time specified
+    }
+    const duration = editingAppointment
+      ? new Date(editingAppointment.endDate).getTime() - new Date(editingAppointment.startDate).getTime()
+      : 0;
+    return { startDate, endDate: new Date(startDate.getTime() + duration) };
+  };
+
+  // Overlapping appointments with the same participants, room or location
+  const { getParticipantName } = useParticipantOptions();
+  const formRange = dialogOpen ? getFormRange() : null;
+  const conflicts = formRange
+    ? findAppointmentConflicts(appointments, {
+        id: editingAppointment?.id ?? null,
+        ...formRange,
+        recurrence: canRepeat ? recurrence : null,
+        roomId: formData.roomId,
+        location: formData.location || null,
+        participants: formData.participants,
+      }, getParticipantName)
+    : [];
+
   const handleDialogChange = (open: boolean) => {
     setDialogOpen(open);
     if (!open) {
@@ -163,38 +296,48 @@ export default function CalendarPage() {
       return;
     }
 
-    // Create the date with optional time
-    const startDate = new Date(formData.date);
-    if (formData.startTime) {
-      const [hours, minutes] = formData.startTime.split(':');
-      startDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-    } else {
-      startDate.setHours(9, 0, 0, 0); // Default to 9:00 if no time specified
+    const { startDate, endDate } = getFormRange()!;
+
+    const recurrenceError = canRepeat ? validateRecurrence(recurrence, startDate) : null;
+    if (recurrenceError) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: recurrenceError,
+      });
+      return;
     }
 
     const appointmentData = {
       title: formData.title,
       description: formData.description || null,
       startDate: startDate.toISOString(),
-      endDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
       location: formData.location || null,
+      buildingId: formData.buildingId,
+      roomId: formData.roomId,
+      installationId: formData.installationId,
+      participants: formData.participants,
+      ...(canRepeat ? toRecurrencePayload(recurrence) : {}),
     };
 
-    if (editingAppointment) {
+    if (editingAppointment && isRecurring(editingAppointment)) {
+      setScopeRequest({ action: "edit", appointment: editingAppointment, data: appointmentData });
+    } else if (editingAppointment) {
       updateMutation.mutate({ id: editingAppointment.id, data: appointmentData });
     } else {
       createMutation.mutate(appointmentData);
     }
   };
 
-  const thisWeekCount = appointments.filter(a => {
+  const thisWeekCount = upcomingAppointments.filter(a => {
     const start = new Date(a.startDate);
     const now = new Date();
     const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
     return start >= now && start <= weekFromNow;
   }).length;
 
-  const thisMonthCount = appointments.filter(a => {
+  const thisMonthCount = upcomingAppointments.filter(a => {
     const start = new Date(a.startDate);
     const now = new Date();
     return start.getMonth() === now.getMonth() && start.getFullYear() === now.getFullYear();
@@ -212,173 +355,275 @@ export default function CalendarPage() {
             <h1 className="text-3xl font-bold mb-2" data-testid="text-calendar-title">Planning</h1>
             <p className="text-muted-foreground">Bekijk en beheer geplande activiteiten</p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={handleDialogChange}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-new-appointment">
-                <Plus className="h-4 w-4 mr-2" />
-                Nieuwe Afspraak
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>{editingAppointment ? "Afspraak Bewerken" : "Nieuwe Afspraak"}</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Titel *</Label>
-                  <Input
-                    id="title"
-                    value={formData.title}
-                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                    placeholder="Bijv. Brandinstallatie inspectie"
-                    data-testid="input-title"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Beschrijving</Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    placeholder="Bijv. Jaarlijkse controle van brandveiligheid"
-                    data-testid="input-description"
-                  />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setFeedDialogOpen(true)} data-testid="button-calendar-feed">
+              <Rss className="h-4 w-4 mr-2" />
+              Agenda-abonnement
+            </Button>
+            <Button variant="outline" onClick={() => setHolidaysOpen(true)} data-testid="button-school-holidays">
+              <CalendarOff className="h-4 w-4 mr-2" />
+              Vakanties
+            </Button>
+            <Button variant="outline" onClick={() => setImportDialogOpen(true)} data-testid="button-import-appointments">
+              <Upload className="h-4 w-4 mr-2" />
+              Importeren
+            </Button>
+            <Dialog open={dialogOpen} onOpenChange={handleDialogChange}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-new-appointment">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nieuwe Afspraak
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingAppointment ? "Afspraak Bewerken" : "Nieuwe Afspraak"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="space-y-2">
-                    <Label>Datum *</Label>
-                    <DatePicker
-                      value={formData.date}
-                      onChange={(date) => setFormData({ ...formData, date })}
-                      placeholder="dd-mm-jjjj"
-                      testId="input-date"
+                    <Label htmlFor="title">Titel *</Label>
+                    <Input
+                      id="title"
+                      value={formData.title}
+                      onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                      placeholder="Bijv. Brandinstallatie inspectie"
+                      data-testid="input-title"
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="startTime">Starttijd (optioneel)</Label>
-                    <Select
-                      value={formData.startTime}
-                      onValueChange={(value) => setFormData({ ...formData, startTime: value })}
-                    >
-                      <SelectTrigger id="startTime" data-testid="input-startTime">
-                        <SelectValue placeholder="Selecteer tijd" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-[300px]">
-                        {timeOptions.map((time) => (
-                          <SelectItem key={time} value={time}>
-                            {time}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <Label htmlFor="description">Beschrijving</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      placeholder="Bijv. Jaarlijkse controle van brandveiligheid"
+                      data-testid="input-description"
+                    />
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="location">Locatie *</Label>
-                  <Input
-                    id="location"
-                    value={formData.location}
-                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                    placeholder="Bijv. Gehele school"
-                    data-testid="input-location"
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Datum *</Label>
+                      <DatePicker
+                        value={formData.date}
+                        onChange={(date) => setFormData({ ...formData, date })}
+                        placeholder="dd-mm-jjjj"
+                        testId="input-date"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="startTime">Starttijd (optioneel)</Label>
+                      <Select
+                        value={formData.startTime}
+                        onValueChange={(value) => setFormData({ ...formData, startTime: value })}
+                      >
+                        <SelectTrigger id="startTime" data-testid="input-startTime">
+                          <SelectValue placeholder="Selecteer tijd" />
+                        </SelectTrigger>
+                        <SelectContent className="max-h-[300px]">
+                          {timeOptions.map((time) => (
+                            <SelectItem key={time} value={time}>
+                              {time}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="location">Locatie *</Label>
+                    <Input
+                      id="location"
+                      value={formData.location}
+                      onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                      placeholder="Bijv. Gehele school"
+                      data-testid="input-location"
+                    />
+                  </div>
+                  <ObjectPicker
+                    value={formData}
+                    onChange={(link) => setFormData({ ...formData, ...link })}
+                    testIdPrefix="appointment"
                   />
-                </div>
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={createMutation.isPending || updateMutation.isPending}
-                  data-testid="button-submit-appointment"
-                >
-                  {(createMutation.isPending || updateMutation.isPending) 
-                    ? "Bezig..." 
-                    : editingAppointment ? "Afspraak Bijwerken" : "Afspraak Aanmaken"}
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <div className="space-y-2">
+                    <Label>Deelnemers</Label>
+                    <ParticipantPicker
+                      value={formData.participants}
+                      onChange={(participants) => setFormData({ ...formData, participants })}
+                    />
+                  </div>
+                  <AppointmentConflictWarning conflicts={conflicts} />
+                  {canRepeat && (
+                    <RecurrenceFields value={recurrence} onChange={setRecurrence} testIdPrefix="appointment" />
+                  )}
+                  <Button 
+                    type="submit" 
+                    className="w-full" 
+                    disabled={createMutation.isPending || updateMutation.isPending}
+                    data-testid="button-submit-appointment"
+                  >
+                    {(createMutation.isPending || updateMutation.isPending) 
+                      ? "Bezig..." 
+                      : editingAppointment ? "Afspraak Bijwerken" : "Afspraak Aanmaken"}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
-        <div className="grid gap-6 lg:grid-cols-3">
-          <div className="lg:col-span-2">
-            <Card className="p-6">
-              <h2 className="text-xl font-semibold mb-4">Aankomende Afspraken</h2>
-              {appointments.length === 0 ? (
-                <p className="text-center text-muted-foreground py-8">Geen afspraken gevonden</p>
-              ) : (
-                <div className="space-y-4">
-                  {appointments.map((appointment) => (
-                    <div
-                      key={appointment.id}
-                      className="flex items-start gap-4 p-4 rounded-md hover-elevate border"
-                      data-testid={`appointment-${appointment.id}`}
-                    >
-                      <div className="flex flex-col items-center justify-center bg-primary text-primary-foreground rounded-md p-3 min-w-[60px]">
-                        <span className="text-xs font-medium">{format(new Date(appointment.startDate), "MMM")}</span>
-                        <span className="text-2xl font-bold">{format(new Date(appointment.startDate), "dd")}</span>
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <h3 className="font-semibold">{appointment.title}</h3>
-                        </div>
-                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                          <div className="flex items-center gap-1">
-                            <CalendarIcon className="h-4 w-4" />
-                            <span>{format(new Date(appointment.startDate), "HH:mm")}</span>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <MapPin className="h-4 w-4" />
-                            <span>{appointment.location}</span>
+        <Tabs defaultValue="list" className="w-full">
+          <TabsList className="mb-6">
+            <TabsTrigger value="list" data-testid="tab-appointments">
+              <List className="h-4 w-4 mr-2" />
+              Afspraken
+            </TabsTrigger>
+            <TabsTrigger value="calendar" data-testid="tab-calendar">
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Kalender
+            </TabsTrigger>
+            <TabsTrigger value="timeline" data-testid="tab-timeline">
+              <GanttChart className="h-4 w-4 mr-2" />
+              Tijdlijn
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="list">
+            <div className="grid gap-6 lg:grid-cols-3">
+              <div className="lg:col-span-2">
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">Aankomende Afspraken</h2>
+                  {upcomingAppointments.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">Geen afspraken gevonden</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {upcomingAppointments.map((appointment) => {
+                        const holiday = getHoliday(holidays, new Date(appointment.startDate));
+                        return (
+                          <div
+                            key={getOccurrenceKey(appointment)}
+                            className="flex items-start gap-4 p-4 rounded-md hover-elevate border"
+                            data-testid={`appointment-${getOccurrenceKey(appointment)}`}
+                          >
+                            <div className="flex flex-col items-center justify-center bg-primary text-primary-foreground rounded-md p-3 min-w-[60px]">
+                              <span className="text-xs font-medium">{format(new Date(appointment.startDate), "MMM")}</span>
+                              <span className="text-2xl font-bold">{format(new Date(appointment.startDate), "dd")}</span>
+                            </div>
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-1">
+                                <h3 className="font-semibold">{appointment.title}</h3>
+                                {isRecurring(appointment) && (
+                                  <Badge variant="outline" className="gap-1">
+                                    <Repeat className="h-3 w-3" />
+                                    {formatRecurrence(appointment)}
+                                  </Badge>
+                                )}
+                                {holiday && (
+                                  <Badge variant="secondary" className="gap-1">
+                                    <CalendarOff className="h-3 w-3" />
+                                    {holiday.name}
+                                  </Badge>
+                                )}
+                              </div>
+                              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                                <div className="flex items-center gap-1">
+                                  <CalendarIcon className="h-4 w-4" />
+                                  <span>{format(new Date(appointment.startDate), "HH:mm")}</span>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <MapPin className="h-4 w-4" />
+                                  <span>{appointment.location}</span>
+                                </div>
+                                {appointment.participants && appointment.participants.length > 0 && (
+                                  <div className="flex items-center gap-1">
+                                    <Users className="h-4 w-4" />
+                                    <span>{appointment.participants.map(getParticipantName).join(", ")}</span>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex gap-2">
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleEdit(appointment)}
+                                data-testid={`button-edit-${getOccurrenceKey(appointment)}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleDelete(appointment)}
+                                data-testid={`button-delete-${getOccurrenceKey(appointment)}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
                           </div>
-                        </div>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          onClick={() => handleEdit(appointment)}
-                          data-testid={`button-edit-${appointment.id}`}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          onClick={() => setDeleteAppointmentId(appointment.id)}
-                          data-testid={`button-delete-${appointment.id}`}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                        );
+                      })}
                     </div>
-                  ))}
-                </div>
-              )}
-            </Card>
-          </div>
+                  )}
+                </Card>
+              </div>
 
-          <div>
-            <Card className="p-6">
-              <h2 className="text-xl font-semibold mb-4">Overzicht</h2>
-              <div className="space-y-4">
-                <div className="p-4 bg-muted/50 rounded-md">
-                  <p className="text-sm text-muted-foreground">Deze Week</p>
-                  <p className="text-2xl font-bold" data-testid="text-week-count">{thisWeekCount}</p>
-                  <p className="text-sm text-muted-foreground mt-1">Afspraken</p>
-                </div>
-                <div className="p-4 bg-muted/50 rounded-md">
-                  <p className="text-sm text-muted-foreground">Deze Maand</p>
-                  <p className="text-2xl font-bold" data-testid="text-month-count">{thisMonthCount}</p>
-                  <p className="text-sm text-muted-foreground mt-1">Afspraken</p>
-                </div>
-                <div className="p-4 bg-muted/50 rounded-md">
-                  <p className="text-sm text-muted-foreground">Totaal</p>
-                  <p className="text-2xl font-bold" data-testid="text-total-count">{appointments.length}</p>
-                  <p className="text-sm text-muted-foreground mt-1">Afspraken</p>
-                </div>
+              <div>
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">Overzicht</h2>
+                  <div className="space-y-4">
+                    <div className="p-4 bg-muted/50 rounded-md">
+                      <p className="text-sm text-muted-foreground">Deze Week</p>
+                      <p className="text-2xl font-bold" data-testid="text-week-count">{thisWeekCount}</p>
+                      <p className="text-sm text-muted-foreground mt-1">Afspraken</p>
+                    </div>
+                    <div className="p-4 bg-muted/50 rounded-md">
+                      <p className="text-sm text-muted-foreground">Deze Maand</p>
+                      <p className="text-2xl font-bold" data-testid="text-month-count">{thisMonthCount}</p>
+                      <p className="text-sm text-muted-foreground mt-1">Afspraken</p>
+                    </div>
+                    <div className="p-4 bg-muted/50 rounded-md">
+                      <p className="text-sm text-muted-foreground">Totaal</p>
+                      <p className="text-2xl font-bold" data-testid="text-total-count">{appointments.length}</p>
+                      <p className="text-sm text-muted-foreground mt-1">Afspraken</p>
+                    </div>
+                  </div>
+                </Card>
               </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="calendar">
+            <Card className="p-6">
+              <CalendarNavigation
+                view={calendarView}
+                views={["week", "day", "agenda"]}
+                date={calendarDate}
+                onViewChange={setCalendarView}
+                onDateChange={setCalendarDate}
+              />
+              {calendarView === "agenda" ? (
+                <AgendaView
+                  from={calendarRange.start}
+                  to={calendarRange.end}
+                  appointments={calendarAppointments}
+                  onSelect={handleEdit}
+                />
+              ) : (
+                <TimeGridView
+                  days={eachDayOfInterval(calendarRange)}
+                  appointments={calendarAppointments}
+                  onSelect={handleEdit}
+                  onCreate={handleCreateAt}
+                  onReschedule={rescheduleAppointment}
+                />
+              )}
             </Card>
-          </div>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="timeline">
+            <PlanningTimeline />
+          </TabsContent>
+        </Tabs>
       </div>
 
       <AlertDialog open={deleteAppointmentId !== null} onOpenChange={() => setDeleteAppointmentId(null)}>
@@ -392,7 +637,7 @@ export default function CalendarPage() {
           <AlertDialogFooter>
             <AlertDialogCancel data-testid="button-cancel-delete">Annuleren</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => deleteAppointmentId && deleteMutation.mutate(deleteAppointmentId)}
+              onClick={() => deleteAppointmentId && deleteMutation.mutate({ id: deleteAppointmentId })}
               data-testid="button-confirm-delete"
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
@@ -401,6 +646,17 @@ export default function CalendarPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <CalendarFeedDialog open={feedDialogOpen} onOpenChange={setFeedDialogOpen} />
+      <IcsImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
+      <SchoolHolidaysDialog open={holidaysOpen} onOpenChange={setHolidaysOpen} />
+
+      <RecurrenceScopeDialog
+        action={scopeRequest?.action ?? null}
+        onOpenChange={(open) => !open && setScopeRequest(null)}
+        onConfirm={handleScopeConfirm}
+        isPending={updateMutation.isPending || deleteMutation.isPending}
+      />
     </div>
   );
 }
@@ -65,6 +65,10 @@ import { Input } from "@/components/ui/input";
 import { useSchool } from "@/contexts/school-context";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { useSlaTargets } from "@/components/sla-targets";
+import { BudgetActualsOverview } from "@/components/budget-actuals";
+import { PriceBasisToggle, usePriceIndexation } from "@/components/price-indexation";
+import { countOverdue } from "@shared/sla";
 import type { Maintenance, Appointment, Report, School } from "@shared/schema";
 
 // Generic API helper for JSON requests
@@ -83,14 +87,6 @@ const formatEuro = (cents: number): string => {
   });
 };
 
-// Format euros with Dutch locale (no conversion needed)
-const formatEuroAmount = (euros: number): string => {
-  return euros.toLocaleString('nl-NL', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  });
-};
-
 // File upload response
 interface UploadResponse {
   success: boolean;
@@ -166,6 +162,7 @@ export default function DashboardPage() {
   const currentYear = new Date().getFullYear();
   const [startYear, setStartYear] = useState(currentYear);
   const [endYear, setEndYear] = useState(currentYear + 5);
+  const [showIndexedPrices, setShowIndexedPrices] = useState(false);
 
   // --- QUERIES ---
   const { data: schoolInfo, isLoading: schoolInfoLoading } = useQuery<
@@ -194,6 +191,10 @@ export default function DashboardPage() {
     queryFn: () => apiJson<Report[]>("/api/reports"),
   });
 
+  const slaTargets = useSlaTargets();
+  const overdueReportsCount = countOverdue(reports, slaTargets);
+  const overdueMaintenanceCount = countOverdue(maintenance, slaTargets);
+
   const { data: availableYears } = useQuery<{
     minYear: number;
     maxYear: number;
@@ -203,27 +204,19 @@ export default function DashboardPage() {
     queryFn: () => apiJson("/api/analytics/available-years"),
   });
 
-  const { data: budgetOverview = [] } = useQuery<
-    Array<{ category: string; budget: number; spent: number; percentage: number }>
-  >({
-    queryKey: [
-      `/api/analytics/budget-overview?startYear=${startYear}&endYear=${endYear}`,
-    ],
-    queryFn: () =>
-      apiJson(
-        `/api/analytics/budget-overview?startYear=${startYear}&endYear=${endYear}`
-      ),
-  });
+  // Investment amounts in base year prices unless indexed prices are requested
+  const priceIndexation = usePriceIndexation();
+  const indexedParam = showIndexedPrices && priceIndexation ? "&indexed=true" : "";
 
   const { data: investmentsSummary = [] } = useQuery<
     Array<{ category: string; total_budgeted: number }>
   >({
     queryKey: [
-      `/api/analytics/investments-summary?startYear=${startYear}&endYear=${endYear}`,
+      `/api/analytics/investments-summary?startYear=${startYear}&endYear=${endYear}${indexedParam}`,
     ],
     queryFn: () =>
       apiJson(
-        `/api/analytics/investments-summary?startYear=${startYear}&endYear=${endYear}`
+        `/api/analytics/investments-summary?startYear=${startYear}&endYear=${endYear}${indexedParam}`
       ),
   });
 
@@ -232,11 +225,11 @@ export default function DashboardPage() {
     total_count: number;
   }>({
     queryKey: [
-      `/api/analytics/investments-total?startYear=${startYear}&endYear=${endYear}`,
+      `/api/analytics/investments-total?startYear=${startYear}&endYear=${endYear}${indexedParam}`,
     ],
     queryFn: () =>
       apiJson(
-        `/api/analytics/investments-total?startYear=${startYear}&endYear=${endYear}`
+        `/api/analytics/investments-total?startYear=${startYear}&endYear=${endYear}${indexedParam}`
       ),
   });
 
@@ -495,13 +488,6 @@ export default function DashboardPage() {
     });
   };
 
-  // Transform budget overview data from cents to euros for display
-  const budgetCategories = budgetOverview.map(cat => ({
-    name: cat.category,
-    budget: cat.budget / 100,
-    spent: cat.spent / 100,
-  }));
-
   // Get year range label for display
   const yearRangeLabel = startYear === endYear ? startYear.toString() : `${startYear}-${endYear}`;
 
@@ -526,12 +512,22 @@ export default function DashboardPage() {
               <TabsTrigger value="reports" data-testid="tab-reports">
                 <AlertCircle className="h-4 w-4 mr-2" />
                 Meldingen
+                {overdueReportsCount > 0 && (
+                  <Badge variant="destructive" className="ml-2 px-1.5" title="Meldingen over tijd" data-testid="badge-reports-overdue">
+                    {overdueReportsCount}
+                  </Badge>
+                )}
               </TabsTrigger>
             )}
             {hasAccess("dashboard_onderhoud") && (
               <TabsTrigger value="maintenance" data-testid="tab-maintenance">
                 <Wrench className="h-4 w-4 mr-2" />
                 Onderhoud
+                {overdueMaintenanceCount > 0 && (
+                  <Badge variant="destructive" className="ml-2 px-1.5" title="Taken over tijd" data-testid="badge-maintenance-overdue">
+                    {overdueMaintenanceCount}
+                  </Badge>
+                )}
               </TabsTrigger>
             )}
           </TabsList>
@@ -732,6 +728,7 @@ export default function DashboardPage() {
                   <p className="text-xs text-muted-foreground">
                     Totaal begroot voor {investmentsTotal.total_count} {investmentsTotal.total_count === 1 ? 'investering' : 'investeringen'}
                   </p>
+                  <PriceBasisToggle indexed={showIndexedPrices} onIndexedChange={setShowIndexedPrices} testIdPrefix="investments-total" />
                 </CardContent>
               </Card>
             )}
@@ -740,53 +737,10 @@ export default function DashboardPage() {
               <Card>
                 <CardHeader>
                   <CardTitle>Budgettering</CardTitle>
-                  <p className="text-sm text-muted-foreground">Begroot vs bestedingen per categorie</p>
+                  <p className="text-sm text-muted-foreground">Begroot, verplicht en besteed per categorie</p>
                 </CardHeader>
                 <CardContent>
-                  {budgetCategories.length > 0 ? (
-                    <div className="space-y-4">
-                      {budgetCategories.map((cat, index) => {
-                        const percentage = cat.budget > 0 ? Math.min((cat.spent / cat.budget) * 100, 100) : 0;
-                        const remaining = Math.max(cat.budget - cat.spent, 0);
-                        return (
-                          <div key={cat.name} className="space-y-1" data-testid={`budget-bar-${index}`}>
-                            <div className="flex items-center justify-between text-sm">
-                              <span className="font-medium capitalize">{cat.name}</span>
-                              <span className="text-muted-foreground">
-                                {percentage.toFixed(0)}% verbruikt
-                              </span>
-                            </div>
-                            <div className="relative h-8 w-full rounded-md overflow-hidden bg-muted-foreground/30">
-                              <div 
-                                className="absolute inset-y-0 left-0 bg-primary transition-all duration-300"
-                                style={{ width: `${percentage}%` }}
-                              />
-                              <div className="absolute inset-0 flex items-center justify-between px-3 text-xs font-medium">
-                                <span className={cat.spent > 0 ? "text-primary-foreground" : "text-foreground"}>
-                                  €{formatEuroAmount(cat.spent)}
-                                </span>
-                                <span className={percentage < 85 ? "text-foreground" : "text-primary-foreground"}>
-                                  €{formatEuroAmount(cat.budget)}
-                                </span>
-                              </div>
-                            </div>
-                          </div>
-                        );
-                      })}
-                      <div className="flex items-center gap-4 pt-2 text-xs text-muted-foreground">
-                        <div className="flex items-center gap-1.5">
-                          <div className="w-3 h-3 rounded-sm bg-primary" />
-                          <span>Verbruikt</span>
-                        </div>
-                        <div className="flex items-center gap-1.5">
-                          <div className="w-3 h-3 rounded-sm bg-muted border" />
-                          <span>Resterend budget</span>
-                        </div>
-                      </div>
-                    </div>
-                  ) : (
-                    <p className="text-sm text-muted-foreground text-center py-8">Geen budgetgegevens beschikbaar</p>
-                  )}
+                  <BudgetActualsOverview startYear={startYear} endYear={endYear} />
                 </CardContent>
               </Card>
 
@@ -17,6 +17,8 @@ import { useToast } from "@/hooks/use-toast";
 import { format, differenceInDays } from "date-fns";
 import { nl } from "date-fns/locale";
 import { DatePicker } from "@/components/date-picker";
+import { BulkActionBar, SelectCheckbox, runBulkAction, getBulkResultToast, type BulkAction } from "@/components/bulk-action-bar";
+import { useBulkSelection } from "@/hooks/use-bulk-selection";
 import type { Document } from "@shared/schema";
 
 interface Folder {
@@ -731,6 +733,36 @@ export default function DocumentsPage() {
     return acc;
   }, {} as Record<string, Document[]>);
 
+  // Bulk selection over the documents without folder; folder contents are handled in the folder page
+  const selection = useBulkSelection(documentsWithoutFolder.map(doc => doc.id));
+
+  const bulkActions: BulkAction[] = [
+    {
+      key: "move",
+      label: "Verplaatsen naar map",
+      options: sortedFolders.map(folder => ({ value: folder.id, label: folder.name })),
+      describe: (count, valueLabel) => `${count} ${count === 1 ? "document" : "documenten"} verplaatsen naar ${valueLabel}?`,
+    },
+    {
+      key: "delete",
+      label: "Verwijderen",
+      icon: Trash2,
+      destructive: true,
+      describe: (count) => `Weet je zeker dat je ${count} ${count === 1 ? "document" : "documenten"} wilt verwijderen? Dit kan niet ongedaan worden gemaakt.`,
+    },
+  ];
+
+  const handleBulkAction = async (actionKey: string, value: string) => {
+    const result = await runBulkAction(selection.selectedIds, (id) =>
+      actionKey === "delete"
+        ? apiRequest("DELETE", `/api/documents/${id}`)
+        : apiRequest("PATCH", `/api/documents/${id}`, { folderId: value })
+    );
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    toast(getBulkResultToast(result, { singular: "document", plural: "documenten" }, actionKey === "delete" ? "verwijderd" : "verplaatst"));
+    selection.select(result.failed);
+  };
+
   const isLoading = documentsLoading || contractsLoading || drawingsLoading || foldersLoading;
 
   if (isLoading) {
@@ -912,13 +944,15 @@ export default function DocumentsPage() {
                           </Badge>
                         </div>
                         <div className="space-y-2 ml-7">
+                          <BulkActionBar selection={selection} actions={bulkActions} onRun={handleBulkAction} />
                           {documentsWithoutFolder.map((doc) => (
                             <div
                               key={doc.id}
-                              className="flex items-center justify-between p-4 border rounded-md hover-elevate"
+                              className={`flex items-center justify-between p-4 border rounded-md hover-elevate ${selection.isSelected(doc.id) ? "ring-2 ring-primary" : ""}`}
                               data-testid={`document-${doc.id}`}
                             >
                               <div className="flex items-center gap-4 flex-1 min-w-0">
+                                <SelectCheckbox id={doc.id} selection={selection} />
                                 <div className="flex-shrink-0">
                                   <File className="h-8 w-8 text-muted-foreground" />
                                 </div>
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,13 +12,19 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Euro, TrendingUp, History, Building2, Plus, Pencil, Trash2, FileText, Download, X } from "lucide-react";
+import { Euro, TrendingUp, History, Building2, Plus, Pencil, Trash2, FileText, Download, X, Wrench, PiggyBank, Columns3, Settings, Upload } from "lucide-react";
 import { DatePicker } from "@/components/date-picker";
 import { MonthYearPicker } from "@/components/month-year-picker";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { MaintenanceHistory, Investment, InvestmentYear, Quote, Document, ClientInsertMaintenanceHistory, ClientInsertInvestment, ClientInsertQuote } from "@shared/schema";
+import type { Maintenance, MaintenanceHistory, Investment, InvestmentYear, Quote, Document, ClientInsertMaintenanceHistory, ClientInsertInvestment, ClientInsertQuote } from "@shared/schema";
 import { InvestmentsTable } from "@/components/investments-table";
+import { BudgetActualsOverview } from "@/components/budget-actuals";
+import { QuoteComparisonDialog } from "@/components/quote-comparison";
+import { PriceBasisToggle, PriceIndexationDialog, usePriceIndexation } from "@/components/price-indexation";
+import { InvestmentExportButton } from "@/components/investment-export";
+import { InvestmentImportDialog } from "@/components/investment-import";
+import { DEFAULT_PROJECTION_HORIZON } from "@shared/investment-projection";
 
 type InvestmentWithYears = Investment & { years: InvestmentYear[] };
 import { useSchool } from "@/contexts/school-context";
@@ -69,6 +76,9 @@ const locations = [
   { value: "geheel_gebouw", label: "Geheel gebouw" },
 ];
 
+const PROJECTION_HORIZON_KEY = "eduvium_investment_projection_horizon";
+const PROJECTION_HORIZONS = [0, 10, 20, 30];
+
 // Format bedrag volgens Nederlandse notatie (duizendtallen met punt, centen met komma)
 const formatEuro = (cents: number): string => {
   const euros = cents / 100;
@@ -245,6 +255,14 @@ export default function FinancialPage() {
   const [investmentEndYear, setInvestmentEndYear] = useState<number>(new Date().getFullYear());
   const [quoteStartYear, setQuoteStartYear] = useState<number>(new Date().getFullYear());
   const [quoteEndYear, setQuoteEndYear] = useState<number>(new Date().getFullYear());
+  const [budgetStartYear, setBudgetStartYear] = useState<number>(new Date().getFullYear());
+  const [budgetEndYear, setBudgetEndYear] = useState<number>(new Date().getFullYear());
+
+  // Years ahead cyclic investments are projected into; 0 disables projection
+  const [projectionHorizon, setProjectionHorizon] = useState<number>(() => {
+    const stored = localStorage.getItem(PROJECTION_HORIZON_KEY);
+    return PROJECTION_HORIZONS.find(horizon => horizon.toString() === stored) ?? DEFAULT_PROJECTION_HORIZON;
+  });
 
   // Fetch available years
   const { data: availableYears } = useQuery<{ minYear: number; maxYear: number; years: number[] }>({
@@ -258,6 +276,12 @@ export default function FinancialPage() {
     enabled: !!activeSchool,
   });
 
+  // Tasks linked to history entries created on completion
+  const { data: maintenanceTasks = [] } = useQuery<Maintenance[]>({
+    queryKey: ["/api/maintenance"],
+    enabled: !!activeSchool,
+  });
+
   // Fetch investments
   const { data: investments = [], isLoading: isLoadingInvestments } = useQuery<InvestmentWithYears[]>({
     queryKey: [`/api/investments?schoolId=${activeSchool?.id}&startYear=${investmentStartYear}&endYear=${investmentEndYear}`],
@@ -317,6 +341,14 @@ export default function FinancialPage() {
     expiryDate: null as Date | null,
   });
   const [quoteFile, setQuoteFile] = useState<File | null>(null);
+  const [compareInvestmentId, setCompareInvestmentId] = useState<string | null>(null);
+
+  // Indexation of multi-year amounts
+  const priceIndexation = usePriceIndexation();
+  const [showIndexedPrices, setShowIndexedPrices] = useState(false);
+  const [indexationDialogOpen, setIndexationDialogOpen] = useState(false);
+  const projectionUntilYear = projectionHorizon > 0 ? new Date().getFullYear() + projectionHorizon : null;
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
 
   // Filtered data
   const filteredHistory = maintenanceHistory.filter(item => {
@@ -376,7 +408,7 @@ export default function FinancialPage() {
           const key = query.queryKey[0];
           return typeof key === 'string' && (
             key.startsWith('/api/analytics/maintenance-history') ||
-            key.startsWith('/api/analytics/budget-overview')
+            key.startsWith('/api/analytics/budget-actuals')
           );
         }
       });
@@ -416,7 +448,7 @@ export default function FinancialPage() {
           const key = query.queryKey[0];
           return typeof key === 'string' && (
             key.startsWith('/api/analytics/maintenance-history') ||
-            key.startsWith('/api/analytics/budget-overview')
+            key.startsWith('/api/analytics/budget-actuals')
           );
         }
       });
@@ -449,7 +481,8 @@ export default function FinancialPage() {
           const key = query.queryKey[0];
           return typeof key === 'string' && (
             key.startsWith('/api/investments') ||
-            key.startsWith('/api/analytics/investments')
+            key.startsWith('/api/analytics/investments') ||
+            key.startsWith('/api/analytics/budget-actuals')
           );
         }
       });
@@ -478,7 +511,8 @@ export default function FinancialPage() {
           const key = query.queryKey[0];
           return typeof key === 'string' && (
             key.startsWith('/api/investments') ||
-            key.startsWith('/api/analytics/investments')
+            key.startsWith('/api/analytics/investments') ||
+            key.startsWith('/api/analytics/budget-actuals')
           );
         }
       });
@@ -498,6 +532,39 @@ export default function FinancialPage() {
     },
   });
 
+  const saveInvestmentYearMutation = useMutation<InvestmentYear, Error, { investmentId: string; year: number; amount: number }>({
+    mutationFn: ({ investmentId, year, amount }) =>
+      apiJson<InvestmentYear>("PUT", `/api/investments/${investmentId}/years/${year}`, { amount }),
+    onSuccess: (_, { year }) => {
+      queryClient.invalidateQueries({ 
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && (
+            key.startsWith('/api/investments') ||
+            key.startsWith('/api/analytics/investments') ||
+            key.startsWith('/api/analytics/budget-actuals')
+          );
+        }
+      });
+      toast({
+        title: "Succes",
+        description: `Budget voor ${year} vastgelegd`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon budget niet opslaan",
+      });
+    },
+  });
+
+  const handleProjectionHorizonChange = (value: string) => {
+    setProjectionHorizon(parseInt(value));
+    localStorage.setItem(PROJECTION_HORIZON_KEY, value);
+  };
+
   const createQuoteMutation = useMutation<Quote, Error, ClientInsertQuote>({
     mutationFn: (data) => {
       console.log('[DEBUG] Mutation payload:', data);
@@ -541,7 +608,10 @@ export default function FinancialPage() {
       queryClient.invalidateQueries({ 
         predicate: (query) => {
           const key = query.queryKey[0];
-          return typeof key === 'string' && key.startsWith('/api/quotes');
+          return typeof key === 'string' && (
+            key.startsWith('/api/quotes') ||
+            key.startsWith('/api/analytics/budget-actuals')
+          );
         }
       });
       toast({
@@ -569,7 +639,10 @@ export default function FinancialPage() {
       queryClient.invalidateQueries({ 
         predicate: (query) => {
           const key = query.queryKey[0];
-          return typeof key === 'string' && key.startsWith('/api/quotes');
+          return typeof key === 'string' && (
+            key.startsWith('/api/quotes') ||
+            key.startsWith('/api/analytics/budget-actuals')
+          );
         }
       });
       toast({
@@ -830,6 +903,14 @@ export default function FinancialPage() {
                 <FileText className="h-4 w-4" />
                 Offertes
               </TabsTrigger>
+              <TabsTrigger 
+                value="budget" 
+                className="gap-2"
+                data-testid="tab-budget"
+              >
+                <PiggyBank className="h-4 w-4" />
+                Budget
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -1110,6 +1191,17 @@ export default function FinancialPage() {
                               {item.completedDate && (
                                 <span>📅 {new Date(item.completedDate).toLocaleDateString('nl-NL')}</span>
                               )}
+                              {item.maintenanceId && (() => {
+                                const linkedTask = maintenanceTasks.find(t => t.id === item.maintenanceId);
+                                return linkedTask ? (
+                                  <Link href="/onderhoud">
+                                    <Badge variant="outline" className="gap-1 cursor-pointer" data-testid={`link-history-task-${item.id}`}>
+                                      <Wrench className="h-3 w-3" />
+                                      Taak: {linkedTask.title}
+                                    </Badge>
+                                  </Link>
+                                ) : null;
+                              })()}
                             </div>
                           </div>
                         ))}
@@ -1381,6 +1473,54 @@ export default function FinancialPage() {
                           </SelectContent>
                         </Select>
 
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">Projectie cyclisch:</span>
+                          <Select value={projectionHorizon.toString()} onValueChange={handleProjectionHorizonChange}>
+                            <SelectTrigger className="w-[120px]" data-testid="filter-projection-horizon">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {PROJECTION_HORIZONS.map(horizon => (
+                                <SelectItem key={horizon} value={horizon.toString()}>
+                                  {horizon === 0 ? "Geen" : `${horizon} jaar`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          <PriceBasisToggle indexed={showIndexedPrices} onIndexedChange={setShowIndexedPrices} testIdPrefix="investments" />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setIndexationDialogOpen(true)}
+                            title="Indexatie instellen"
+                            data-testid="button-indexation-settings"
+                          >
+                            <Settings className="h-4 w-4" />
+                          </Button>
+                        </div>
+
+                        <InvestmentExportButton
+                          options={{
+                            startYear: investmentStartYear,
+                            endYear: investmentEndYear,
+                            category: investmentCategory !== "all" ? investmentCategory : undefined,
+                            status: investmentStatus !== "all" ? investmentStatus : undefined,
+                            indexed: showIndexedPrices && !!priceIndexation,
+                            projectionUntilYear: projectionUntilYear ?? undefined,
+                          }}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => setImportDialogOpen(true)}
+                          data-testid="button-import-investments"
+                        >
+                          <Upload className="h-4 w-4 mr-2" />
+                          Importeren
+                        </Button>
+
                         {(investmentCategory !== "all" || investmentStatus !== "all") && (
                           <Badge variant="secondary" data-testid="badge-investment-count">
                             {filteredInvestments.length} resultaten
@@ -1415,10 +1555,16 @@ export default function FinancialPage() {
                         formatEuro={formatEuro}
                         startYear={investmentStartYear}
                         endYear={investmentEndYear}
+                        projectionUntilYear={projectionUntilYear}
+                        onSaveYear={(investmentId, year, amount) => saveInvestmentYearMutation.mutate({ investmentId, year, amount })}
+                        indexation={showIndexedPrices ? priceIndexation : null}
                       />
                     )}
                   </CardContent>
                 </Card>
+
+                <PriceIndexationDialog open={indexationDialogOpen} onOpenChange={setIndexationDialogOpen} />
+                <InvestmentImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
               </TabsContent>
 
               {/* Tab 4: Offertes - New Grouped Structure */}
@@ -1506,13 +1652,25 @@ export default function FinancialPage() {
                               )}
                             </div>
                             {investmentId !== '__unmapped__' && (
-                              <Button 
-                                onClick={() => openAddQuoteDialog(investmentId)}
-                                data-testid={`button-add-quote-${investmentId}`}
-                              >
-                                <Plus className="h-4 w-4 mr-2" />
-                                Offerte toevoegen
-                              </Button>
+                              <div className="flex gap-2">
+                                {group.quotes.length > 0 && (
+                                  <Button
+                                    variant="outline"
+                                    onClick={() => setCompareInvestmentId(investmentId)}
+                                    data-testid={`button-compare-quotes-${investmentId}`}
+                                  >
+                                    <Columns3 className="h-4 w-4 mr-2" />
+                                    Vergelijken
+                                  </Button>
+                                )}
+                                <Button 
+                                  onClick={() => openAddQuoteDialog(investmentId)}
+                                  data-testid={`button-add-quote-${investmentId}`}
+                                >
+                                  <Plus className="h-4 w-4 mr-2" />
+                                  Offerte toevoegen
+                                </Button>
+                              </div>
                             )}
                           </div>
                           
@@ -1548,6 +1706,12 @@ export default function FinancialPage() {
                   </CardContent>
                 </Card>
 
+                <QuoteComparisonDialog
+                  investment={investments.find(inv => inv.id === compareInvestmentId) ?? null}
+                  quotes={quotesData.filter(quote => quote.investmentId === compareInvestmentId)}
+                  onOpenChange={(open) => !open && setCompareInvestmentId(null)}
+                />
+
                 {/* Add/Edit Quote Dialog */}
                 <Dialog open={quoteDialogOpen} onOpenChange={(open) => !open && resetQuoteDialog()}>
                   <DialogContent className="max-w-2xl" data-testid="dialog-add-quote">
@@ -1661,6 +1825,62 @@ export default function FinancialPage() {
                   </DialogContent>
                 </Dialog>
               </TabsContent>
+
+              {/* Tab 5: Budget */}
+              <TabsContent value="budget" className="mt-0" data-testid="content-budget">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <PiggyBank className="h-5 w-5 text-primary" />
+                      Budget
+                    </CardTitle>
+                    <CardDescription>
+                      Begroot budget tegenover geaccepteerde offertes en uitgevoerd onderhoud per categorie
+                    </CardDescription>
+                    
+                    {/* Year Filters */}
+                    <div className="flex items-center gap-2 mt-4">
+                      <span className="text-sm text-muted-foreground">Periode:</span>
+                      <Select 
+                        value={budgetStartYear.toString()} 
+                        onValueChange={(value) => setBudgetStartYear(parseInt(value))}
+                      >
+                        <SelectTrigger className="w-[120px]" data-testid="filter-budget-start-year">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from(
+                            { length: 2060 - 2020 + 1 },
+                            (_, i) => 2060 - i
+                          ).map(year => (
+                            <SelectItem key={year} value={year.toString()}>{year}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-sm text-muted-foreground">-</span>
+                      <Select 
+                        value={budgetEndYear.toString()} 
+                        onValueChange={(value) => setBudgetEndYear(parseInt(value))}
+                      >
+                        <SelectTrigger className="w-[120px]" data-testid="filter-budget-end-year">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from(
+                            { length: 2060 - 2020 + 1 },
+                            (_, i) => 2060 - i
+                          ).map(year => (
+                            <SelectItem key={year} value={year.toString()}>{year}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <BudgetActualsOverview startYear={budgetStartYear} endYear={budgetEndYear} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </div>
           </div>
         </Tabs>
@@ -13,6 +13,8 @@ import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { nl } from "date-fns/locale";
 import type { Document } from "@shared/schema";
+import { BulkActionBar, SelectCheckbox, runBulkAction, getBulkResultToast, type BulkAction } from "@/components/bulk-action-bar";
+import { useBulkSelection } from "@/hooks/use-bulk-selection";
 
 interface Folder {
   id: string;
@@ -51,6 +53,39 @@ export default function FolderDetailPage() {
 
   const folder = folders.find(f => f.id === folderId);
   const folderDocs = documents.filter(doc => doc.folderId === folderId && doc.module === "general");
+  const sortedFolders = [...folders].sort((a, b) => a.name.localeCompare(b.name));
+
+  const selection = useBulkSelection(folderDocs.map(doc => doc.id));
+
+  const bulkActions: BulkAction[] = [
+    {
+      key: "move",
+      label: "Verplaatsen naar map",
+      options: [
+        { value: "none", label: "Geen map" },
+        ...sortedFolders.filter(f => f.id !== folderId).map(f => ({ value: f.id, label: f.name })),
+      ],
+      describe: (count, valueLabel) => `${count} ${count === 1 ? "document" : "documenten"} verplaatsen naar ${valueLabel}?`,
+    },
+    {
+      key: "delete",
+      label: "Verwijderen",
+      icon: Trash2,
+      destructive: true,
+      describe: (count) => `Weet je zeker dat je ${count} ${count === 1 ? "document" : "documenten"} wilt verwijderen? Dit kan niet ongedaan worden gemaakt.`,
+    },
+  ];
+
+  const handleBulkAction = async (actionKey: string, value: string) => {
+    const result = await runBulkAction(selection.selectedIds, (id) =>
+      actionKey === "delete"
+        ? apiRequest("DELETE", `/api/documents/${id}`)
+        : apiRequest("PATCH", `/api/documents/${id}`, { folderId: value === "none" ? null : value })
+    );
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    toast(getBulkResultToast(result, { singular: "document", plural: "documenten" }, actionKey === "delete" ? "verwijderd" : "verplaatst"));
+    selection.select(result.failed);
+  };
 
   const handleFileSelect = () => {
     if (fileInputRef.current?.files?.[0]) {
@@ -234,13 +269,15 @@ export default function FolderDetailPage() {
               </div>
             ) : (
               <div className="space-y-2">
+                <BulkActionBar selection={selection} actions={bulkActions} onRun={handleBulkAction} />
                 {folderDocs.map((doc) => (
                   <div
                     key={doc.id}
-                    className="flex items-center justify-between p-4 border rounded-md hover-elevate"
+                    className={`flex items-center justify-between p-4 border rounded-md hover-elevate ${selection.isSelected(doc.id) ? "ring-2 ring-primary" : ""}`}
                     data-testid={`document-${doc.id}`}
                   >
                     <div className="flex items-center gap-4 flex-1 min-w-0">
+                      <SelectCheckbox id={doc.id} selection={selection} />
                       <div className="flex-shrink-0">
                         <File className="h-8 w-8 text-muted-foreground" />
                       </div>
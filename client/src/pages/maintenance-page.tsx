@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card } from "@/components/ui/card";
@@ -13,13 +13,37 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
-import { Plus, Clock, CheckCircle2, AlertCircle, Pencil, Trash2, MapPin, ChevronDown, Wrench, Calendar as CalendarIcon, ChevronLeft, ChevronRight, Upload, FileText, X } from "lucide-react";
+import { Plus, Clock, CheckCircle2, AlertCircle, Pencil, Trash2, MapPin, ChevronDown, Wrench, Calendar as CalendarIcon, CalendarOff, Repeat, List, Columns3, ListChecks, Timer, User } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek, addMonths, subMonths, eachDayOfInterval, isSameMonth, isToday, isSameDay } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek, addHours, eachDayOfInterval, isSameMonth, isToday, isSameDay, startOfDay, endOfDay } from "date-fns";
 import { nl } from "date-fns/locale";
 import { DatePicker } from "@/components/date-picker";
 import { ReportComments } from "@/components/report-comments";
-import type { Appointment, ClientInsertMaintenance, ClientInsertReport, ClientInsertAppointment } from "@shared/schema";
+import { AttachmentGallery, uploadAttachments } from "@/components/attachment-gallery";
+import { ObjectPicker, emptyObjectLink, type ObjectLink } from "@/components/object-picker";
+import { MaintenanceBoard, type BoardMove } from "@/components/maintenance-board";
+import { MaintenanceSchedules, getScheduleOccurrences, type MaintenanceScheduleWithExceptions } from "@/components/maintenance-schedules";
+import { MaintenanceCompletionDialog, CompletedTaskHistory, type CompletionTask } from "@/components/maintenance-completion";
+import { SlaBadge, SlaSettingsDialog, useSlaTargets } from "@/components/sla-targets";
+import { BulkActionBar, SelectCheckbox, runBulkAction, getBulkResultToast, type BulkAction } from "@/components/bulk-action-bar";
+import { useBulkSelection } from "@/hooks/use-bulk-selection";
+import { MaintenanceChecklist, ChecklistProgress, ChecklistTemplatesDialog, applyChecklistTemplate, useChecklistTemplates } from "@/components/maintenance-checklist";
+import {
+  RecurrenceFields,
+  RecurrenceScopeDialog,
+  expandAppointments,
+  getOccurrenceKey,
+  isRecurring,
+  toRecurrenceForm,
+  toRecurrencePayload,
+  validateRecurrence,
+  emptyRecurrence,
+} from "@/components/appointment-recurrence";
+import { SchoolHolidaysDialog, SchoolDayWarning, HolidayLabel, getHoliday, holidayTypeColors, useSchoolHolidays } from "@/components/school-holidays";
+import { ParticipantPicker, AppointmentConflictWarning, findAppointmentConflicts, toParticipantInputs, useParticipantOptions, type AppointmentWithParticipants } from "@/components/appointment-participants";
+import { CalendarNavigation, TimeGridView, AgendaView, getViewRange, useRescheduleAppointment, type CalendarView } from "@/components/calendar-views";
+import type { Appointment, AppointmentParticipantInput, AppointmentScope, ClientInsertMaintenance, ClientInsertReport, ClientInsertAppointment, CompletionHistoryEntry, MaintenanceCompletion, MaintenanceHistory } from "@shared/schema";
 
 // ============================================================================
 // FORM STATE TYPES - Derived from schema unions with null sentinels
@@ -28,7 +52,7 @@ type ReportPriority = NonNullable<ClientInsertReport['priority']>;
 type ReportStatus = NonNullable<ClientInsertReport['status']>;
 type AppointmentActivityType = NonNullable<ClientInsertAppointment['activityType']>;
 
-interface ReportFormState {
+interface ReportFormState extends ObjectLink {
   title: string;
   description: string;
   location: string;
@@ -37,7 +61,7 @@ interface ReportFormState {
   reportedBy: string;
 }
 
-interface AppointmentFormState {
+interface AppointmentFormState extends ObjectLink {
   title: string;
   description: string;
   date: Date | null;
@@ -47,6 +71,39 @@ interface AppointmentFormState {
   isAllDay: boolean;
   activityType: AppointmentActivityType | null;
   location: string;
+  participants: AppointmentParticipantInput[];
+}
+
+type AppointmentPayload = ClientInsertAppointment & { participants: AppointmentParticipantInput[] };
+
+// Start and end of the appointment in the form, as saved
+function getAppointmentRange(form: AppointmentFormState): { startDate: Date; endDate: Date } | null {
+  if (!form.date) return null;
+  const startDate = new Date(form.date);
+  const endDate = new Date(form.endDate || form.date);
+
+  if (form.isAllDay) {
+    // All-day events: set times to midnight
+    startDate.setHours(0, 0, 0, 0);
+    endDate.setHours(23, 59, 59, 999);
+  } else {
+    // Timed events: apply selected times
+    if (form.startTime) {
+      const [hours, minutes] = form.startTime.split(':');
+      startDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+    } else {
+      startDate.setHours(9, 0, 0, 0);
+    }
+
+    if (form.endTime) {
+      const [hours, minutes] = form.endTime.split(':');
+      endDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+    } else {
+      // Default end time: 1 hour after start
+      endDate.setTime(startDate.getTime() + 3600000);
+    }
+  }
+  return { startDate, endDate };
 }
 
 // Deep serialization: converts Date objects to ISO strings for JSON transport
@@ -82,13 +139,21 @@ interface MaintenanceTask {
   title: string;
   description: string | null;
   location: string | null;
+  buildingId: string | null;
+  roomId: string | null;
+  installationId: string | null;
   priority: "low" | "medium" | "high" | "critical";
   status: "pending" | "in_progress" | "completed" | "cancelled";
   assignee: string | null;
   dueDate: Date | null;
   schoolId: string;
-  attachmentUrl: string | null;
-  attachmentName: string | null;
+  scheduleId: string | null;
+  occurrenceDate: Date | null;
+  // Checklist progress, included by the task list endpoint
+  checklistTotal?: number;
+  checklistDone?: number;
+  // History entries created when the task was completed
+  completionHistory?: CompletionHistoryEntry[];
   createdAt: Date | null;
 }
 
@@ -97,6 +162,10 @@ interface Report {
   title: string;
   description: string | null;
   location: string;
+  buildingId: string | null;
+  roomId: string | null;
+  installationId: string | null;
+  maintenanceId: string | null;
   priority: string;
   status: string;
   reportedBy: string;
@@ -116,34 +185,72 @@ const generateTimeOptions = () => {
 
 const timeOptions = generateTimeOptions();
 
+type TaskView = "list" | "board";
+type TaskTab = "pending" | "inProgress" | "completed";
+
+// Prefix for the per-user task view preference (list/board)
+const TASK_VIEW_KEY_PREFIX = "eduvium_maintenance_view_";
+
 export default function MaintenancePage() {
   const [mainTab, setMainTab] = useState("planning");
+  const { user } = useAuth();
+  const taskViewKey = `${TASK_VIEW_KEY_PREFIX}${user?.id ?? "anonymous"}`;
   
   // Tasks state
+  const [taskView, setTaskViewState] = useState<TaskView>(() => {
+    return (localStorage.getItem(taskViewKey) as TaskView) || "list";
+  });
+  const [taskTab, setTaskTab] = useState<TaskTab>("pending");
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<MaintenanceTask | null>(null);
   const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null);
-  const [selectedTaskFile, setSelectedTaskFile] = useState<File | null>(null);
+  const [pendingTaskFiles, setPendingTaskFiles] = useState<File[]>([]);
   const [isTaskUploading, setIsTaskUploading] = useState(false);
-  const taskFileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingChecklistTemplateId, setPendingChecklistTemplateId] = useState<string | null>(null);
+  const [checklistTemplatesOpen, setChecklistTemplatesOpen] = useState(false);
+  const [slaSettingsOpen, setSlaSettingsOpen] = useState(false);
+  const [holidaysOpen, setHolidaysOpen] = useState(false);
+  // Task being set to completed, with the changes to save alongside the status
+  const [completingTask, setCompletingTask] = useState<{ task: CompletionTask; update?: Partial<ClientInsertMaintenance> } | null>(null);
   
   // Reports state
   const [reportDialogOpen, setReportDialogOpen] = useState(false);
   const [editingReport, setEditingReport] = useState<Report | null>(null);
   const [deleteReportId, setDeleteReportId] = useState<string | null>(null);
   const [expandedReports, setExpandedReports] = useState<Set<string>>(new Set());
+  const [pendingReportFiles, setPendingReportFiles] = useState<File[]>([]);
+  const [isReportUploading, setIsReportUploading] = useState(false);
   
   // Appointments state
   const [appointmentDialogOpen, setAppointmentDialogOpen] = useState(false);
   const [editingAppointment, setEditingAppointment] = useState<Appointment | null>(null);
   const [deleteAppointmentId, setDeleteAppointmentId] = useState<string | null>(null);
   const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [calendarView, setCalendarView] = useState<CalendarView>("month");
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
   const [dayOverviewOpen, setDayOverviewOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [appointmentRecurrence, setAppointmentRecurrence] = useState(emptyRecurrence);
+  // Edit or delete of a recurring appointment, waiting for the choice of occurrences
+  const [scopeRequest, setScopeRequest] = useState<
+    | { action: "edit"; appointment: Appointment; data: Partial<AppointmentPayload> }
+    | { action: "delete"; appointment: Appointment }
+    | null
+  >(null);
   
   const { toast } = useToast();
 
+  // The user loads after the first render; read their own view once it is known
+  useEffect(() => {
+    setTaskViewState((localStorage.getItem(taskViewKey) as TaskView) || "list");
+  }, [taskViewKey]);
+
+  // Persist task view per user
+  const setTaskView = (view: TaskView) => {
+    setTaskViewState(view);
+    localStorage.setItem(taskViewKey, view);
+  };
+
   // Task form data
   const [taskFormData, setTaskFormData] = useState({
     title: "",
@@ -153,6 +260,7 @@ export default function MaintenancePage() {
     status: "pending" as "pending" | "in_progress" | "completed" | "cancelled",
     assignee: "",
     dueDate: null as Date | null,
+    ...emptyObjectLink,
   });
 
   // Report form data
@@ -163,6 +271,7 @@ export default function MaintenancePage() {
     priority: null,
     status: null,
     reportedBy: "",
+    ...emptyObjectLink,
   });
 
   // Appointment form data
@@ -176,6 +285,8 @@ export default function MaintenancePage() {
     isAllDay: false,
     activityType: null,
     location: "",
+    participants: [],
+    ...emptyObjectLink,
   });
 
   // Queries
@@ -187,10 +298,19 @@ export default function MaintenancePage() {
     queryKey: ["/api/reports"],
   });
 
-  const { data: appointments = [], isLoading: appointmentsLoading } = useQuery<Appointment[]>({
+  const { data: holidays = [] } = useSchoolHolidays();
+
+  const { data: appointments = [], isLoading: appointmentsLoading } = useQuery<AppointmentWithParticipants[]>({
     queryKey: ["/api/appointments"],
   });
 
+  const { data: schedules = [] } = useQuery<MaintenanceScheduleWithExceptions[]>({
+    queryKey: ["/api/maintenance-schedules"],
+  });
+
+  const { data: checklistTemplates = [] } = useChecklistTemplates();
+  const slaTargets = useSlaTargets();
+
   // Task mutations
   const createTaskMutation = useMutation<MaintenanceTask, Error, ClientInsertMaintenance>({
     mutationFn: (data) => apiJson<MaintenanceTask>("POST", "/api/maintenance", data),
@@ -216,6 +336,8 @@ export default function MaintenancePage() {
     mutationFn: ({ id, data }) => apiJson<MaintenanceTask>("PATCH", `/api/maintenance/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+      // Linked reports follow the task status
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
       setTaskDialogOpen(false);
       setEditingTask(null);
       resetTaskForm();
@@ -233,6 +355,33 @@ export default function MaintenancePage() {
     },
   });
 
+  // Board drag-and-drop: optimistic update so the card stays in its new column
+  const moveTaskMutation = useMutation<MaintenanceTask, Error, { id: string; data: BoardMove }, { previous?: MaintenanceTask[] }>({
+    mutationFn: ({ id, data }) => apiJson<MaintenanceTask>("PATCH", `/api/maintenance/${id}`, data),
+    onMutate: async ({ id, data }) => {
+      await queryClient.cancelQueries({ queryKey: ["/api/maintenance"] });
+      const previous = queryClient.getQueryData<MaintenanceTask[]>(["/api/maintenance"]);
+      queryClient.setQueryData<MaintenanceTask[]>(["/api/maintenance"], (old = []) =>
+        old.map(t => (t.id === id ? { ...t, ...data } : t))
+      );
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(["/api/maintenance"], context.previous);
+      }
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon taak niet verplaatsen",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+    },
+  });
+
   const deleteTaskMutation = useMutation<void, Error, string>({
     mutationFn: (id) => apiJson<void>("DELETE", `/api/maintenance/${id}`),
     onSuccess: () => {
@@ -333,7 +482,7 @@ export default function MaintenancePage() {
   });
 
   // Appointment mutations
-  const createAppointmentMutation = useMutation<Appointment, Error, ClientInsertAppointment>({
+  const createAppointmentMutation = useMutation<Appointment, Error, AppointmentPayload>({
     mutationFn: (data) => apiJson<Appointment>("POST", "/api/appointments", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
@@ -353,12 +502,13 @@ export default function MaintenancePage() {
     },
   });
 
-  const updateAppointmentMutation = useMutation<Appointment, Error, { id: string; data: Partial<ClientInsertAppointment> }>({
+  const updateAppointmentMutation = useMutation<Appointment, Error, { id: string; data: Partial<AppointmentPayload> & { scope?: AppointmentScope } }>({
     mutationFn: ({ id, data }) => apiJson<Appointment>("PATCH", `/api/appointments/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       setAppointmentDialogOpen(false);
       setEditingAppointment(null);
+      setScopeRequest(null);
       resetAppointmentForm();
       toast({
         title: "Succes",
@@ -374,11 +524,17 @@ export default function MaintenancePage() {
     },
   });
 
-  const deleteAppointmentMutation = useMutation<void, Error, string>({
-    mutationFn: (id) => apiJson<void>("DELETE", `/api/appointments/${id}`),
+  const deleteAppointmentMutation = useMutation<void, Error, { id: string; scope?: AppointmentScope; occurrenceDate?: Date | null }>({
+    mutationFn: ({ id, scope, occurrenceDate }) => {
+      const params = scope && occurrenceDate
+        ? `?${new URLSearchParams({ scope, occurrenceDate: new Date(occurrenceDate).toISOString() })}`
+        : "";
+      return apiJson<void>("DELETE", `/api/appointments/${id}${params}`);
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       setDeleteAppointmentId(null);
+      setScopeRequest(null);
       setAppointmentDialogOpen(false);
       setEditingAppointment(null);
       resetAppointmentForm();
@@ -406,42 +562,10 @@ export default function MaintenancePage() {
       status: "pending",
       assignee: "",
       dueDate: null,
+      ...emptyObjectLink,
     });
-    setSelectedTaskFile(null);
-    if (taskFileInputRef.current) {
-      taskFileInputRef.current.value = "";
-    }
-  };
-
-  const uploadTaskAttachment = async (taskId: string, file: File) => {
-    const formDataUpload = new FormData();
-    formDataUpload.append("file", file);
-    
-    const response = await fetch(`/api/maintenance/${taskId}/attachment`, {
-      method: "POST",
-      body: formDataUpload,
-      credentials: "include",
-    });
-    
-    if (!response.ok) {
-      throw new Error("Upload failed");
-    }
-    
-    return response.json();
-  };
-
-  const handleTaskFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedTaskFile(file);
-    }
-  };
-
-  const removeSelectedTaskFile = () => {
-    setSelectedTaskFile(null);
-    if (taskFileInputRef.current) {
-      taskFileInputRef.current.value = "";
-    }
+    setPendingTaskFiles([]);
+    setPendingChecklistTemplateId(null);
   };
 
   const resetReportForm = () => {
@@ -452,7 +576,9 @@ export default function MaintenancePage() {
       priority: null,
       status: null,
       reportedBy: "",
+      ...emptyObjectLink,
     });
+    setPendingReportFiles([]);
   };
 
   const resetAppointmentForm = () => {
@@ -466,7 +592,10 @@ export default function MaintenancePage() {
       isAllDay: false,
       activityType: null,
       location: "",
+      participants: [],
+      ...emptyObjectLink,
     });
+    setAppointmentRecurrence(emptyRecurrence);
   };
 
   // Task handlers
@@ -480,6 +609,9 @@ export default function MaintenancePage() {
       status: task.status,
       assignee: task.assignee || "",
       dueDate: task.dueDate ? new Date(task.dueDate) : null,
+      buildingId: task.buildingId,
+      roomId: task.roomId,
+      installationId: task.installationId,
     });
     setTaskDialogOpen(true);
   };
@@ -495,36 +627,37 @@ export default function MaintenancePage() {
       return;
     }
 
+    if (editingTask && taskFormData.status === "completed" && editingTask.status !== "completed") {
+      // Completion goes through the completion dialog, which also saves the form
+      setCompletingTask({
+        task: {
+          id: editingTask.id,
+          title: taskFormData.title,
+          description: taskFormData.description || null,
+          location: taskFormData.location || null,
+        },
+        update: taskFormData,
+      });
+      return;
+    }
+
     if (editingTask) {
+      // Attachments of existing tasks are uploaded directly from the gallery
       updateTaskMutation.mutate({ id: editingTask.id, data: taskFormData });
-      
-      if (selectedTaskFile) {
-        setIsTaskUploading(true);
-        try {
-          await uploadTaskAttachment(editingTask.id, selectedTaskFile);
-          queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
-          toast({
-            title: "Succes",
-            description: "Bijlage geüpload",
-          });
-        } catch {
-          toast({
-            variant: "destructive",
-            title: "Fout",
-            description: "Kon bijlage niet uploaden",
-          });
-        } finally {
-          setIsTaskUploading(false);
-        }
-      }
     } else {
       try {
-        const newTask = await apiJson<MaintenanceTask>("POST", "/api/maintenance", taskFormData);
+        // Tasks created as completed are completed through the completion dialog, so they
+        // get their history entry; cancelling it leaves the new task pending
+        const createsCompleted = taskFormData.status === "completed";
+        const newTask = await apiJson<MaintenanceTask>("POST", "/api/maintenance", {
+          ...taskFormData,
+          status: createsCompleted ? "pending" : taskFormData.status,
+        });
         
-        if (selectedTaskFile && newTask.id) {
+        if (pendingTaskFiles.length > 0 && newTask.id) {
           setIsTaskUploading(true);
           try {
-            await uploadTaskAttachment(newTask.id, selectedTaskFile);
+            await uploadAttachments("maintenance", newTask.id, pendingTaskFiles);
           } catch {
             toast({
               variant: "destructive",
@@ -535,6 +668,18 @@ export default function MaintenancePage() {
             setIsTaskUploading(false);
           }
         }
+
+        if (pendingChecklistTemplateId && newTask.id) {
+          try {
+            await applyChecklistTemplate(newTask.id, pendingChecklistTemplateId);
+          } catch {
+            toast({
+              variant: "destructive",
+              title: "Waarschuwing",
+              description: "Taak aangemaakt, maar checklist kon niet worden toegevoegd",
+            });
+          }
+        }
         
         queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
         setTaskDialogOpen(false);
@@ -543,6 +688,10 @@ export default function MaintenancePage() {
           title: "Succes",
           description: "Taak succesvol aangemaakt",
         });
+
+        if (createsCompleted) {
+          setCompletingTask({ task: newTask });
+        }
       } catch {
         toast({
           variant: "destructive",
@@ -571,11 +720,14 @@ export default function MaintenancePage() {
       priority: report.priority as ReportPriority,
       status: report.status as ReportStatus,
       reportedBy: report.reportedBy,
+      buildingId: report.buildingId,
+      roomId: report.roomId,
+      installationId: report.installationId,
     });
     setReportDialogOpen(true);
   };
 
-  const handleSubmitReport = (e: React.FormEvent) => {
+  const handleSubmitReport = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!reportFormData.title || !reportFormData.location || !reportFormData.priority || !reportFormData.status || !reportFormData.reportedBy) {
       toast({
@@ -594,12 +746,34 @@ export default function MaintenancePage() {
       priority: reportFormData.priority,
       status: reportFormData.status,
       reportedBy: reportFormData.reportedBy,
+      buildingId: reportFormData.buildingId,
+      roomId: reportFormData.roomId,
+      installationId: reportFormData.installationId,
     };
 
     if (editingReport) {
       updateReportMutation.mutate({ id: editingReport.id, data: reportPayload });
     } else {
-      createReportMutation.mutate(reportPayload);
+      try {
+        const newReport = await createReportMutation.mutateAsync(reportPayload);
+
+        if (pendingReportFiles.length > 0 && newReport.id) {
+          setIsReportUploading(true);
+          try {
+            await uploadAttachments("reports", newReport.id, pendingReportFiles);
+          } catch {
+            toast({
+              variant: "destructive",
+              title: "Waarschuwing",
+              description: "Melding aangemaakt, maar bijlagen konden niet worden geüpload",
+            });
+          } finally {
+            setIsReportUploading(false);
+          }
+        }
+      } catch {
+        // Error toast is shown by the mutation
+      }
     }
   };
 
@@ -624,7 +798,7 @@ export default function MaintenancePage() {
   };
 
   // Appointment handlers
-  const handleEditAppointment = (appointment: Appointment) => {
+  const handleEditAppointment = (appointment: AppointmentWithParticipants) => {
     setEditingAppointment(appointment);
     const appointmentDate = new Date(appointment.startDate);
     const endAppointmentDate = new Date(appointment.endDate);
@@ -651,10 +825,78 @@ export default function MaintenancePage() {
       isAllDay: appointment.isAllDay || false,
       activityType: (appointment.activityType as AppointmentActivityType) || null,
       location: appointment.location || "",
+      buildingId: appointment.buildingId,
+      roomId: appointment.roomId,
+      installationId: appointment.installationId,
+      participants: toParticipantInputs(appointment),
+    });
+    setAppointmentRecurrence(toRecurrenceForm(appointment));
+    setAppointmentDialogOpen(true);
+  };
+
+  const handleDeleteAppointment = (appointment: Appointment) => {
+    if (isRecurring(appointment)) {
+      setScopeRequest({ action: "delete", appointment });
+    } else {
+      setDeleteAppointmentId(appointment.id);
+    }
+  };
+
+  const handleScopeConfirm = (scope: AppointmentScope) => {
+    if (!scopeRequest) return;
+    const { appointment } = scopeRequest;
+    if (scopeRequest.action === "delete") {
+      deleteAppointmentMutation.mutate({ id: appointment.id, scope, occurrenceDate: appointment.occurrenceDate });
+      return;
+    }
+    updateAppointmentMutation.mutate({
+      id: appointment.id,
+      data: {
+        ...scopeRequest.data,
+        // A single edited occurrence does not repeat itself
+        ...(scope === "this" ? toRecurrencePayload(emptyRecurrence) : {}),
+        scope,
+        occurrenceDate: appointment.occurrenceDate,
+      },
     });
+  };
+
+  // Dragged in the week or day view; recurring appointments ask for the scope first
+  const rescheduleAppointment = useRescheduleAppointment((appointment, data) =>
+    setScopeRequest({ action: "edit", appointment, data })
+  );
+
+  // Click on an empty slot in the week or day view
+  const handleCreateAppointmentAt = (date: Date) => {
+    resetAppointmentForm();
+    setAppointmentFormData(prev => ({
+      ...prev,
+      date,
+      endDate: date,
+      startTime: format(date, "HH:mm"),
+      endTime: format(addHours(date, 1), "HH:mm"),
+    }));
+    setEditingAppointment(null);
     setAppointmentDialogOpen(true);
   };
 
+  // Occurrences edited on their own are single appointments within a series
+  const canRepeatAppointment = !editingAppointment?.seriesId;
+
+  // Overlapping appointments with the same participants, room or location
+  const { getParticipantName } = useParticipantOptions();
+  const appointmentRange = appointmentDialogOpen ? getAppointmentRange(appointmentFormData) : null;
+  const appointmentConflicts = appointmentRange
+    ? findAppointmentConflicts(appointments, {
+        id: editingAppointment?.id ?? null,
+        ...appointmentRange,
+        recurrence: canRepeatAppointment ? appointmentRecurrence : null,
+        roomId: appointmentFormData.roomId,
+        location: appointmentFormData.location || null,
+        participants: appointmentFormData.participants,
+      }, getParticipantName)
+    : [];
+
   const handleSubmitAppointment = (e: React.FormEvent) => {
     e.preventDefault();
     if (!appointmentFormData.title || !appointmentFormData.date || !appointmentFormData.location) {
@@ -666,11 +908,8 @@ export default function MaintenancePage() {
       return;
     }
 
-    const startDate = new Date(appointmentFormData.date);
-    const endDate = new Date(appointmentFormData.endDate || appointmentFormData.date);
-    
     // Validate that end date is not before start date
-    if (endDate < startDate) {
+    if (appointmentFormData.endDate && appointmentFormData.endDate < appointmentFormData.date) {
       toast({
         variant: "destructive",
         title: "Ongeldige datums",
@@ -678,31 +917,20 @@ export default function MaintenancePage() {
       });
       return;
     }
-    
-    if (appointmentFormData.isAllDay) {
-      // All-day events: set times to midnight
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
-    } else {
-      // Timed events: apply selected times
-      if (appointmentFormData.startTime) {
-        const [hours, minutes] = appointmentFormData.startTime.split(':');
-        startDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-      } else {
-        startDate.setHours(9, 0, 0, 0);
-      }
-      
-      if (appointmentFormData.endTime) {
-        const [hours, minutes] = appointmentFormData.endTime.split(':');
-        endDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-      } else {
-        // Default end time: 1 hour after start
-        endDate.setTime(startDate.getTime() + 3600000);
-      }
+
+    const { startDate, endDate } = getAppointmentRange(appointmentFormData)!;
+    const recurrenceError = canRepeatAppointment ? validateRecurrence(appointmentRecurrence, startDate) : null;
+    if (recurrenceError) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: recurrenceError,
+      });
+      return;
     }
 
     // Type-safe payload: activityType is already properly typed
-    const appointmentPayload: ClientInsertAppointment = {
+    const appointmentPayload: AppointmentPayload = {
       title: appointmentFormData.title,
       description: appointmentFormData.description || null,
       startDate: startDate,
@@ -710,9 +938,16 @@ export default function MaintenancePage() {
       location: appointmentFormData.location || null,
       isAllDay: appointmentFormData.isAllDay,
       activityType: appointmentFormData.activityType,
+      buildingId: appointmentFormData.buildingId,
+      roomId: appointmentFormData.roomId,
+      installationId: appointmentFormData.installationId,
+      participants: appointmentFormData.participants,
+      ...(canRepeatAppointment ? toRecurrencePayload(appointmentRecurrence) : {}),
     };
 
-    if (editingAppointment) {
+    if (editingAppointment && isRecurring(editingAppointment)) {
+      setScopeRequest({ action: "edit", appointment: editingAppointment, data: appointmentPayload });
+    } else if (editingAppointment) {
       updateAppointmentMutation.mutate({ id: editingAppointment.id, data: appointmentPayload });
     } else {
       createAppointmentMutation.mutate(appointmentPayload);
@@ -764,6 +999,89 @@ export default function MaintenancePage() {
     completed: tasks.filter(t => t.status === 'completed'),
   };
 
+  // Bulk selection covers the tasks of the visible list tab
+  const taskSelection = useBulkSelection(taskView === "list" ? groupedTasks[taskTab].map(t => t.id) : []);
+
+  const taskBulkActions: BulkAction[] = [
+    {
+      key: "status",
+      label: "Status wijzigen",
+      options: [
+        { value: "pending", label: "In voorbereiding" },
+        { value: "in_progress", label: "In uitvoering" },
+        { value: "completed", label: "Afgerond" },
+        { value: "cancelled", label: "Geannuleerd" },
+      ],
+      describe: (count, valueLabel) =>
+        `Status van ${count} ${count === 1 ? "taak" : "taken"} wijzigen naar ${valueLabel}?` +
+        (valueLabel === "Afgerond" ? " De taken worden zonder kosten vastgelegd in de onderhoud historie; kosten kun je daar later aanvullen." : ""),
+    },
+    {
+      key: "priority",
+      label: "Prioriteit wijzigen",
+      options: [
+        { value: "critical", label: "Kritiek" },
+        { value: "high", label: "Hoog" },
+        { value: "medium", label: "Gemiddeld" },
+        { value: "low", label: "Laag" },
+      ],
+      describe: (count, valueLabel) => `Prioriteit van ${count} ${count === 1 ? "taak" : "taken"} wijzigen naar ${valueLabel}?`,
+    },
+    {
+      key: "assignee",
+      label: "Toewijzen",
+      icon: User,
+      inputPlaceholder: "Naam (leeg = niet toegewezen)",
+      describe: (count, valueLabel) => valueLabel
+        ? `${count} ${count === 1 ? "taak" : "taken"} toewijzen aan ${valueLabel}?`
+        : `Toewijzing van ${count} ${count === 1 ? "taak" : "taken"} verwijderen?`,
+    },
+    {
+      key: "delete",
+      label: "Verwijderen",
+      icon: Trash2,
+      destructive: true,
+      describe: (count) => `Weet je zeker dat je ${count} ${count === 1 ? "taak" : "taken"} wilt verwijderen? Deze actie kan niet ongedaan worden gemaakt.`,
+    },
+  ];
+
+  const handleTaskBulkAction = async (actionKey: string, value: string) => {
+    // Completing goes through the completion endpoint, so every task gets its history entry
+    const isCompletion = actionKey === "status" && value === "completed";
+    const completion: MaintenanceCompletion = { completedDate: new Date(), investmentId: null };
+    const result = await runBulkAction(taskSelection.selectedIds, (id) =>
+      actionKey === "delete"
+        ? apiJson<void>("DELETE", `/api/maintenance/${id}`)
+        : isCompletion
+          ? apiJson<MaintenanceHistory>("POST", `/api/maintenance/${id}/complete`, completion)
+          : apiJson<MaintenanceTask>("PATCH", `/api/maintenance/${id}`, {
+              [actionKey]: actionKey === "assignee" ? value || null : value,
+            })
+    );
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+    if (isCompletion) {
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && (
+            key.startsWith('/api/maintenance-history') ||
+            key.startsWith('/api/analytics/maintenance-history') ||
+            key.startsWith('/api/analytics/budget-actuals')
+          );
+        }
+      });
+    }
+    toast(getBulkResultToast(result, { singular: "taak", plural: "taken" }, actionKey === "delete" ? "verwijderd" : "bijgewerkt"));
+    taskSelection.select(result.failed);
+  };
+
+  // Number of reports per task, a task can be created from several reports
+  const linkedReportCounts = reports.reduce((counts, report) => {
+    if (report.maintenanceId) counts.set(report.maintenanceId, (counts.get(report.maintenanceId) ?? 0) + 1);
+    return counts;
+  }, new Map<string, number>());
+
   const pendingReportsCount = reports.filter(r => r.status === 'pending').length;
 
   const thisWeekCount = appointments.filter(a => {
@@ -859,6 +1177,11 @@ export default function MaintenancePage() {
                         />
                       </div>
                     </div>
+                    <ObjectPicker
+                      value={taskFormData}
+                      onChange={(link) => setTaskFormData({ ...taskFormData, ...link })}
+                      testIdPrefix="task"
+                    />
                     <div className="grid grid-cols-3 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="priority">Prioriteit</Label>
@@ -905,57 +1228,37 @@ export default function MaintenancePage() {
                       </div>
                     </div>
                     <div className="space-y-2">
-                      <Label>Foto of document toevoegen</Label>
-                      <div className="flex items-center gap-2">
-                        <input
-                          ref={taskFileInputRef}
-                          type="file"
-                          onChange={handleTaskFileSelect}
-                          accept="image/*,.pdf,.doc,.docx,.xls,.xlsx"
-                          className="hidden"
-                          data-testid="input-task-file"
-                        />
-                        <Button
-                          type="button"
-                          variant="outline"
-                          onClick={() => taskFileInputRef.current?.click()}
-                          className="flex items-center gap-2"
-                          data-testid="button-task-upload"
+                      <Label>Checklist</Label>
+                      {editingTask ? (
+                        <MaintenanceChecklist taskId={editingTask.id} />
+                      ) : (
+                        <Select
+                          value={pendingChecklistTemplateId ?? "none"}
+                          onValueChange={(value) => setPendingChecklistTemplateId(value === "none" ? null : value)}
                         >
-                          <Upload className="h-4 w-4" />
-                          Bestand kiezen
-                        </Button>
-                        {selectedTaskFile && (
-                          <div className="flex items-center gap-2 px-3 py-2 bg-muted rounded-md">
-                            <FileText className="h-4 w-4 text-muted-foreground" />
-                            <span className="text-sm truncate max-w-[200px]">{selectedTaskFile.name}</span>
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="icon"
-                              onClick={removeSelectedTaskFile}
-                              className="h-6 w-6"
-                              data-testid="button-remove-task-file"
-                            >
-                              <X className="h-3 w-3" />
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                      {editingTask?.attachmentUrl && !selectedTaskFile && (
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <FileText className="h-4 w-4" />
-                          <a 
-                            href={editingTask.attachmentUrl} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="hover:underline"
-                          >
-                            {editingTask.attachmentName || "Bekijk bijlage"}
-                          </a>
-                        </div>
+                          <SelectTrigger data-testid="select-task-checklist-template">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Geen sjabloon</SelectItem>
+                            {checklistTemplates.map(template => (
+                              <SelectItem key={template.id} value={template.id}>
+                                {template.name} ({template.items.length})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       )}
                     </div>
+                    <div className="space-y-2">
+                      <Label>Foto's en documenten</Label>
+                      <AttachmentGallery
+                        entityType="maintenance"
+                        entityId={editingTask?.id ?? null}
+                        pendingFiles={pendingTaskFiles}
+                        onPendingFilesChange={setPendingTaskFiles}
+                      />
+                    </div>
                     <Button 
                       type="submit" 
                       className="w-full" 
@@ -971,177 +1274,273 @@ export default function MaintenancePage() {
                   </form>
                 </DialogContent>
               </Dialog>
+              <div className="flex items-center gap-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSlaSettingsOpen(true)}
+                  data-testid="button-sla-settings"
+                >
+                  <Timer className="h-4 w-4 mr-2" />
+                  Reactietijden
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setChecklistTemplatesOpen(true)}
+                  data-testid="button-checklist-templates"
+                >
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  Checklist sjablonen
+                </Button>
+                <div className="flex gap-1" role="group" aria-label="Weergave">
+                  <Button
+                    variant={taskView === "list" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setTaskView("list")}
+                    data-testid="button-view-list"
+                  >
+                    <List className="h-4 w-4 mr-2" />
+                    Lijst
+                  </Button>
+                  <Button
+                    variant={taskView === "board" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setTaskView("board")}
+                    data-testid="button-view-board"
+                  >
+                    <Columns3 className="h-4 w-4 mr-2" />
+                    Bord
+                  </Button>
+                </div>
+              </div>
             </div>
 
-            <Tabs defaultValue="pending" className="w-full">
-              <TabsList className="grid w-full max-w-md grid-cols-3">
-                <TabsTrigger value="pending" data-testid="tab-pending">
-                  In voorbereiding ({groupedTasks.pending.length})
-                </TabsTrigger>
-                <TabsTrigger value="inProgress" data-testid="tab-in-progress">
-                  In uitvoering ({groupedTasks.inProgress.length})
-                </TabsTrigger>
-                <TabsTrigger value="completed" data-testid="tab-completed">
-                  Afgerond ({groupedTasks.completed.length})
-                </TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="pending" className="mt-6 space-y-4">
-                {groupedTasks.pending.length === 0 ? (
-                  <Card className="p-6">
-                    <p className="text-center text-muted-foreground">Geen taken in deze status</p>
-                  </Card>
-                ) : (
-                  groupedTasks.pending.map((task) => (
-                    <Card key={task.id} className="p-6 hover-elevate" data-testid={`task-${task.id}`}>
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-2">
-                            <h3 className="font-semibold">{task.title}</h3>
-                            <Badge variant={getPriorityColor(task.priority) as any}>
-                              {getPriorityLabel(task.priority)}
-                            </Badge>
+            {taskView === "board" ? (
+              <MaintenanceBoard
+                tasks={tasks}
+                onEdit={handleEditTask}
+                onMove={(task, move) => {
+                  if (move.status === "completed" && task.status !== "completed") {
+                    setCompletingTask({ task, update: move });
+                    return;
+                  }
+                  moveTaskMutation.mutate({ id: task.id, data: move });
+                }}
+              />
+            ) : (
+              <div className="space-y-4">
+                <BulkActionBar selection={taskSelection} actions={taskBulkActions} onRun={handleTaskBulkAction} />
+                <Tabs value={taskTab} onValueChange={(value) => setTaskTab(value as TaskTab)} className="w-full">
+                  <TabsList className="grid w-full max-w-md grid-cols-3">
+                    <TabsTrigger value="pending" data-testid="tab-pending">
+                      In voorbereiding ({groupedTasks.pending.length})
+                    </TabsTrigger>
+                    <TabsTrigger value="inProgress" data-testid="tab-in-progress">
+                      In uitvoering ({groupedTasks.inProgress.length})
+                    </TabsTrigger>
+                    <TabsTrigger value="completed" data-testid="tab-completed">
+                      Afgerond ({groupedTasks.completed.length})
+                    </TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="pending" className="mt-6 space-y-4">
+                    {groupedTasks.pending.length === 0 ? (
+                      <Card className="p-6">
+                        <p className="text-center text-muted-foreground">Geen taken in deze status</p>
+                      </Card>
+                    ) : (
+                      groupedTasks.pending.map((task) => (
+                        <Card key={task.id} className={`p-6 hover-elevate ${taskSelection.isSelected(task.id) ? "ring-2 ring-primary" : ""}`} data-testid={`task-${task.id}`}>
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="pt-1">
+                              <SelectCheckbox id={task.id} selection={taskSelection} />
+                            </div>
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-2">
+                                <h3 className="font-semibold">{task.title}</h3>
+                                <Badge variant={getPriorityColor(task.priority) as any}>
+                                  {getPriorityLabel(task.priority)}
+                                </Badge>
+                                {task.scheduleId && (
+                                  <Badge variant="outline" className="gap-1">
+                                    <Repeat className="h-3 w-3" />
+                                    Terugkerend
+                                  </Badge>
+                                )}
+                                {(linkedReportCounts.get(task.id) ?? 0) > 0 && (
+                                  <Badge variant="outline" className="gap-1" data-testid={`badge-linked-reports-${task.id}`}>
+                                    <AlertCircle className="h-3 w-3" />
+                                    {linkedReportCounts.get(task.id)} {linkedReportCounts.get(task.id) === 1 ? "melding" : "meldingen"}
+                                  </Badge>
+                                )}
+                                <SlaBadge item={task} targets={slaTargets} />
+                              </div>
+                              {task.description && (
+                                <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
+                              )}
+                              {task.location && (
+                                <p className="text-sm text-muted-foreground mb-2">{task.location}</p>
+                              )}
+                              <ChecklistProgress done={task.checklistDone ?? 0} total={task.checklistTotal ?? 0} className="mb-2" />
+                              {task.dueDate && (
+                                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                  <Clock className="h-4 w-4" />
+                                  <span>{format(new Date(task.dueDate), "dd MMM yyyy")}</span>
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex gap-2">
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                onClick={() => handleEditTask(task)}
+                                data-testid={`button-edit-${task.id}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => setDeleteTaskId(task.id)}
+                                data-testid={`button-delete-${task.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
                           </div>
-                          {task.description && (
-                            <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
-                          )}
-                          {task.location && (
-                            <p className="text-sm text-muted-foreground mb-2">{task.location}</p>
-                          )}
-                          {task.dueDate && (
-                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                              <Clock className="h-4 w-4" />
-                              <span>{format(new Date(task.dueDate), "dd MMM yyyy")}</span>
+                        </Card>
+                      ))
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="inProgress" className="mt-6 space-y-4">
+                    {groupedTasks.inProgress.length === 0 ? (
+                      <Card className="p-6">
+                        <p className="text-center text-muted-foreground">Geen taken in deze status</p>
+                      </Card>
+                    ) : (
+                      groupedTasks.inProgress.map((task) => (
+                        <Card key={task.id} className={`p-6 hover-elevate ${taskSelection.isSelected(task.id) ? "ring-2 ring-primary" : ""}`} data-testid={`task-${task.id}`}>
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="pt-1">
+                              <SelectCheckbox id={task.id} selection={taskSelection} />
+                            </div>
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-2">
+                                <h3 className="font-semibold">{task.title}</h3>
+                                <Badge variant={getPriorityColor(task.priority) as any}>
+                                  {getPriorityLabel(task.priority)}
+                                </Badge>
+                                {task.scheduleId && (
+                                  <Badge variant="outline" className="gap-1">
+                                    <Repeat className="h-3 w-3" />
+                                    Terugkerend
+                                  </Badge>
+                                )}
+                                {(linkedReportCounts.get(task.id) ?? 0) > 0 && (
+                                  <Badge variant="outline" className="gap-1" data-testid={`badge-linked-reports-${task.id}`}>
+                                    <AlertCircle className="h-3 w-3" />
+                                    {linkedReportCounts.get(task.id)} {linkedReportCounts.get(task.id) === 1 ? "melding" : "meldingen"}
+                                  </Badge>
+                                )}
+                                <SlaBadge item={task} targets={slaTargets} />
+                              </div>
+                              {task.description && (
+                                <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
+                              )}
+                              {task.location && (
+                                <p className="text-sm text-muted-foreground mb-2">{task.location}</p>
+                              )}
+                              <ChecklistProgress done={task.checklistDone ?? 0} total={task.checklistTotal ?? 0} className="mb-2" />
+                              {task.assignee && (
+                                <div className="flex items-center gap-2 text-sm">
+                                  <span className="text-muted-foreground">Toegewezen aan:</span>
+                                  <span className="font-medium">{task.assignee}</span>
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex gap-2">
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                onClick={() => handleEditTask(task)}
+                                data-testid={`button-edit-${task.id}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => setDeleteTaskId(task.id)}
+                                data-testid={`button-delete-${task.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
                             </div>
-                          )}
-                        </div>
-                        <div className="flex gap-2">
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            onClick={() => handleEditTask(task)}
-                            data-testid={`button-edit-${task.id}`}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => setDeleteTaskId(task.id)}
-                            data-testid={`button-delete-${task.id}`}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </div>
-                    </Card>
-                  ))
-                )}
-              </TabsContent>
-
-              <TabsContent value="inProgress" className="mt-6 space-y-4">
-                {groupedTasks.inProgress.length === 0 ? (
-                  <Card className="p-6">
-                    <p className="text-center text-muted-foreground">Geen taken in deze status</p>
-                  </Card>
-                ) : (
-                  groupedTasks.inProgress.map((task) => (
-                    <Card key={task.id} className="p-6 hover-elevate" data-testid={`task-${task.id}`}>
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-2">
-                            <h3 className="font-semibold">{task.title}</h3>
-                            <Badge variant={getPriorityColor(task.priority) as any}>
-                              {getPriorityLabel(task.priority)}
-                            </Badge>
                           </div>
-                          {task.description && (
-                            <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
-                          )}
-                          {task.location && (
-                            <p className="text-sm text-muted-foreground mb-2">{task.location}</p>
-                          )}
-                          {task.assignee && (
-                            <div className="flex items-center gap-2 text-sm">
-                              <span className="text-muted-foreground">Toegewezen aan:</span>
-                              <span className="font-medium">{task.assignee}</span>
+                        </Card>
+                      ))
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="completed" className="mt-6 space-y-4">
+                    {groupedTasks.completed.length === 0 ? (
+                      <Card className="p-6">
+                        <p className="text-center text-muted-foreground">Geen taken in deze status</p>
+                      </Card>
+                    ) : (
+                      groupedTasks.completed.map((task) => (
+                        <Card key={task.id} className={`p-6 hover-elevate ${taskSelection.isSelected(task.id) ? "ring-2 ring-primary" : ""}`} data-testid={`task-${task.id}`}>
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="pt-1">
+                              <SelectCheckbox id={task.id} selection={taskSelection} />
+                            </div>
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-2">
+                                <CheckCircle2 className="h-5 w-5 text-chart-5" />
+                                <h3 className="font-semibold">{task.title}</h3>
+                              </div>
+                              {task.description && (
+                                <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
+                              )}
+                              {task.location && (
+                                <p className="text-sm text-muted-foreground mb-2">{task.location}</p>
+                              )}
+                              <ChecklistProgress done={task.checklistDone ?? 0} total={task.checklistTotal ?? 0} className="mb-2" />
+                              {task.createdAt && (
+                                <p className="text-sm text-muted-foreground">
+                                  Afgerond op {format(new Date(task.createdAt), "dd MMM yyyy")}
+                                </p>
+                              )}
+                              <CompletedTaskHistory taskId={task.id} entries={task.completionHistory ?? []} />
+                            </div>
+                            <div className="flex gap-2">
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                onClick={() => handleEditTask(task)}
+                                data-testid={`button-edit-${task.id}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => setDeleteTaskId(task.id)}
+                                data-testid={`button-delete-${task.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
                             </div>
-                          )}
-                        </div>
-                        <div className="flex gap-2">
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            onClick={() => handleEditTask(task)}
-                            data-testid={`button-edit-${task.id}`}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => setDeleteTaskId(task.id)}
-                            data-testid={`button-delete-${task.id}`}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </div>
-                    </Card>
-                  ))
-                )}
-              </TabsContent>
-
-              <TabsContent value="completed" className="mt-6 space-y-4">
-                {groupedTasks.completed.length === 0 ? (
-                  <Card className="p-6">
-                    <p className="text-center text-muted-foreground">Geen taken in deze status</p>
-                  </Card>
-                ) : (
-                  groupedTasks.completed.map((task) => (
-                    <Card key={task.id} className="p-6 hover-elevate" data-testid={`task-${task.id}`}>
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-2">
-                            <CheckCircle2 className="h-5 w-5 text-chart-5" />
-                            <h3 className="font-semibold">{task.title}</h3>
                           </div>
-                          {task.description && (
-                            <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
-                          )}
-                          {task.location && (
-                            <p className="text-sm text-muted-foreground mb-2">{task.location}</p>
-                          )}
-                          {task.createdAt && (
-                            <p className="text-sm text-muted-foreground">
-                              Afgerond op {format(new Date(task.createdAt), "dd MMM yyyy")}
-                            </p>
-                          )}
-                        </div>
-                        <div className="flex gap-2">
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            onClick={() => handleEditTask(task)}
-                            data-testid={`button-edit-${task.id}`}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => setDeleteTaskId(task.id)}
-                            data-testid={`button-delete-${task.id}`}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </div>
-                    </Card>
-                  ))
-                )}
-              </TabsContent>
-            </Tabs>
+                        </Card>
+                      ))
+                    )}
+                  </TabsContent>
+                </Tabs>
+              </div>
+            )}
           </TabsContent>
 
           {/* Meldingen Tab */}
@@ -1154,7 +1553,7 @@ export default function MaintenancePage() {
                     Nieuwe Melding
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-2xl">
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>{editingReport ? "Melding Bewerken" : "Nieuwe Melding"}</DialogTitle>
                   </DialogHeader>
@@ -1236,15 +1635,31 @@ export default function MaintenancePage() {
                         </Select>
                       </div>
                     </div>
+                    <ObjectPicker
+                      value={reportFormData}
+                      onChange={(link) => setReportFormData({ ...reportFormData, ...link })}
+                      testIdPrefix="report"
+                    />
+                    <div className="space-y-2">
+                      <Label>Foto's en documenten</Label>
+                      <AttachmentGallery
+                        entityType="reports"
+                        entityId={editingReport?.id ?? null}
+                        pendingFiles={pendingReportFiles}
+                        onPendingFilesChange={setPendingReportFiles}
+                      />
+                    </div>
                     <Button 
                       type="submit" 
                       className="w-full" 
-                      disabled={createReportMutation.isPending || updateReportMutation.isPending}
+                      disabled={createReportMutation.isPending || updateReportMutation.isPending || isReportUploading}
                       data-testid="button-submit-report"
                     >
-                      {(createReportMutation.isPending || updateReportMutation.isPending) 
-                        ? "Bezig..." 
-                        : editingReport ? "Melding Bijwerken" : "Melding Aanmaken"}
+                      {isReportUploading
+                        ? "Uploaden..."
+                        : (createReportMutation.isPending || updateReportMutation.isPending) 
+                          ? "Bezig..." 
+                          : editingReport ? "Melding Bijwerken" : "Melding Aanmaken"}
                     </Button>
                   </form>
                 </DialogContent>
@@ -1284,6 +1699,7 @@ export default function MaintenancePage() {
                                     {getPriorityLabel(report.priority)}
                                   </Badge>
                                   <Badge variant="outline">{getStatusLabel(report.status)}</Badge>
+                                  <SlaBadge item={report} targets={slaTargets} />
                                 </div>
                               </div>
                             </div>
@@ -1391,7 +1807,7 @@ export default function MaintenancePage() {
                     Nieuwe Afspraak
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-2xl">
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>{editingAppointment ? "Afspraak Bewerken" : "Nieuwe Afspraak"}</DialogTitle>
                   </DialogHeader>
@@ -1516,6 +1932,27 @@ export default function MaintenancePage() {
                         data-testid="input-location"
                       />
                     </div>
+                    <ObjectPicker
+                      value={appointmentFormData}
+                      onChange={(link) => setAppointmentFormData({ ...appointmentFormData, ...link })}
+                      testIdPrefix="appointment"
+                    />
+                    <div className="space-y-2">
+                      <Label>Deelnemers</Label>
+                      <ParticipantPicker
+                        value={appointmentFormData.participants}
+                        onChange={(participants) => setAppointmentFormData({ ...appointmentFormData, participants })}
+                      />
+                    </div>
+                    <AppointmentConflictWarning conflicts={appointmentConflicts} />
+                    <SchoolDayWarning
+                      activityType={appointmentFormData.activityType}
+                      startDate={appointmentRange?.startDate ?? null}
+                      endDate={appointmentRange?.endDate ?? null}
+                    />
+                    {canRepeatAppointment && (
+                      <RecurrenceFields value={appointmentRecurrence} onChange={setAppointmentRecurrence} testIdPrefix="appointment" />
+                    )}
                     <Button 
                       type="submit" 
                       className="w-full" 
@@ -1526,148 +1963,232 @@ export default function MaintenancePage() {
                         ? "Bezig..." 
                         : editingAppointment ? "Afspraak Bijwerken" : "Afspraak Aanmaken"}
                     </Button>
+                    {editingAppointment && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full text-destructive"
+                        onClick={() => handleDeleteAppointment(editingAppointment)}
+                        data-testid="button-delete-appointment"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Afspraak Verwijderen
+                      </Button>
+                    )}
                   </form>
                 </DialogContent>
               </Dialog>
+              <Button
+                variant="outline"
+                onClick={() => setHolidaysOpen(true)}
+                data-testid="button-school-holidays"
+              >
+                <CalendarOff className="h-4 w-4 mr-2" />
+                Vakanties
+              </Button>
             </div>
 
             {/* Calendar View */}
             <Card className="p-6">
-              {/* Calendar Header with Navigation */}
-              <div className="flex items-center justify-between mb-6">
-                <h2 className="text-2xl font-bold" data-testid="text-calendar-month">
-                  {format(currentMonth, 'MMMM yyyy', { locale: nl })}
-                </h2>
-                <div className="flex gap-2">
-                  <Button 
-                    variant="outline" 
-                    size="icon"
-                    onClick={() => setCurrentMonth(subMonths(currentMonth, 1))}
-                    data-testid="button-prev-month"
-                  >
-                    <ChevronLeft className="h-4 w-4" />
-                  </Button>
-                  <Button 
-                    variant="outline"
-                    onClick={() => setCurrentMonth(new Date())}
-                    data-testid="button-today"
-                  >
-                    Vandaag
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    size="icon"
-                    onClick={() => setCurrentMonth(addMonths(currentMonth, 1))}
-                    data-testid="button-next-month"
-                  >
-                    <ChevronRight className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-
-              {/* Day Headers */}
-              <div className="grid grid-cols-7 gap-2 mb-2">
-                {['Ma', 'Di', 'Wo', 'Do', 'Vr', 'Za', 'Zo'].map((day) => (
-                  <div key={day} className="p-2 text-center text-sm font-semibold text-muted-foreground">
-                    {day}
+              <CalendarNavigation
+                view={calendarView}
+                views={["month", "week", "day", "agenda"]}
+                date={currentMonth}
+                onViewChange={setCalendarView}
+                onDateChange={setCurrentMonth}
+              />
+
+              {calendarView === "month" && (
+                <>
+                  {/* Day Headers */}
+                  <div className="grid grid-cols-7 gap-2 mb-2">
+                    {['Ma', 'Di', 'Wo', 'Do', 'Vr', 'Za', 'Zo'].map((day) => (
+                      <div key={day} className="p-2 text-center text-sm font-semibold text-muted-foreground">
+                        {day}
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
 
-              {/* Calendar Grid */}
-              <div className="grid grid-cols-7 gap-2" data-testid="calendar-grid">
-                {(() => {
-                  const monthStart = startOfMonth(currentMonth);
-                  const monthEnd = endOfMonth(currentMonth);
-                  const calendarStart = startOfWeek(monthStart, { weekStartsOn: 1 });
-                  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 1 });
-                  const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
-
-                  // Group appointments by day - expand multi-day appointments across all days
-                  const appointmentsByDay = new Map<string, Appointment[]>();
-                  appointments.forEach(apt => {
-                    const startDate = new Date(apt.startDate);
-                    const endDate = new Date(apt.endDate);
+                  {/* Calendar Grid */}
+                  <div className="grid grid-cols-7 gap-2" data-testid="calendar-grid">
+                    {(() => {
+                      const monthStart = startOfMonth(currentMonth);
+                      const monthEnd = endOfMonth(currentMonth);
+                      const calendarStart = startOfWeek(monthStart, { weekStartsOn: 1 });
+                      const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 1 });
+                      const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
+
+                      // Upcoming schedule occurrences that have no task yet
+                      const scheduledTaskKeys = new Set(
+                        tasks
+                          .filter(t => t.scheduleId && t.occurrenceDate)
+                          .map(t => `${t.scheduleId}:${format(new Date(t.occurrenceDate!), 'yyyy-MM-dd')}`)
+                      );
+                      const occurrencesByDay = new Map<string, ReturnType<typeof getScheduleOccurrences>>();
+                      getScheduleOccurrences(schedules, calendarStart, calendarEnd)
+                        .filter(o => !o.skipped && !scheduledTaskKeys.has(`${o.schedule.id}:${format(o.occurrenceDate, 'yyyy-MM-dd')}`))
+                        .forEach(o => {
+                          const key = format(o.date, 'yyyy-MM-dd');
+                          if (!occurrencesByDay.has(key)) {
+                            occurrencesByDay.set(key, []);
+                          }
+                          occurrencesByDay.get(key)!.push(o);
+                        });
+
+                      // Group appointments by day - expand recurring appointments, and multi-day appointments across all days
+                      const appointmentsByDay = new Map<string, Appointment[]>();
+                      expandAppointments(appointments, calendarStart, calendarEnd).forEach(apt => {
+                        const startDate = new Date(apt.startDate);
+                        const endDate = new Date(apt.endDate);
                     
-                    // Get all days this appointment spans
-                    const appointmentDays = eachDayOfInterval({ start: startDate, end: endDate });
+                        // Get all days this appointment spans
+                        const appointmentDays = eachDayOfInterval({ start: startDate, end: endDate });
                     
-                    // Add this appointment to each day it spans
-                    appointmentDays.forEach(day => {
-                      const key = format(day, 'yyyy-MM-dd');
-                      if (!appointmentsByDay.has(key)) {
-                        appointmentsByDay.set(key, []);
-                      }
-                      appointmentsByDay.get(key)!.push(apt);
-                    });
-                  });
-
-                  return days.map(day => {
-                    const dayKey = format(day, 'yyyy-MM-dd');
-                    const dayAppointments = appointmentsByDay.get(dayKey) || [];
-                    const isCurrentMonthDay = isSameMonth(day, currentMonth);
-                    const isTodayDay = isToday(day);
-
-                    return (
-                      <div
-                        key={day.toString()}
-                        className={`
-                          min-h-[140px] p-2 border rounded-md cursor-pointer hover-elevate
-                          ${isCurrentMonthDay ? 'bg-background' : 'bg-muted/30'}
-                          ${isTodayDay ? 'ring-2 ring-primary' : ''}
-                        `}
-                        onClick={() => {
-                          setSelectedDate(day);
-                          setDayOverviewOpen(true);
-                        }}
-                        data-testid={`calendar-day-${dayKey}`}
-                      >
-                        <div className={`text-sm font-medium mb-1 ${!isCurrentMonthDay ? 'text-muted-foreground' : ''}`}>
-                          {format(day, 'd')}
-                        </div>
-                        <div className="space-y-1 max-h-[85px]">
-                          {dayAppointments.slice(0, 2).map((apt) => {
-                            // Check if this is the first day of the appointment
-                            const aptStartDate = new Date(apt.startDate);
-                            const isFirstDay = isSameDay(day, aptStartDate);
+                        // Add this appointment to each day it spans
+                        appointmentDays.forEach(day => {
+                          const key = format(day, 'yyyy-MM-dd');
+                          if (!appointmentsByDay.has(key)) {
+                            appointmentsByDay.set(key, []);
+                          }
+                          appointmentsByDay.get(key)!.push(apt);
+                        });
+                      });
+
+                      return days.map(day => {
+                        const dayKey = format(day, 'yyyy-MM-dd');
+                        const dayAppointments = appointmentsByDay.get(dayKey) || [];
+                        const dayOccurrences = occurrencesByDay.get(dayKey) || [];
+                        const visibleOccurrences = dayOccurrences.slice(0, Math.max(0, 2 - dayAppointments.length));
+                        const hiddenCount = dayAppointments.length + dayOccurrences.length - Math.min(dayAppointments.length, 2) - visibleOccurrences.length;
+                        const isCurrentMonthDay = isSameMonth(day, currentMonth);
+                        const isTodayDay = isToday(day);
+                        const holiday = getHoliday(holidays, day);
+
+                        return (
+                          <div
+                            key={day.toString()}
+                            className={`
+                              min-h-[140px] p-2 border rounded-md cursor-pointer hover-elevate
+                              ${holiday ? holidayTypeColors[holiday.type] : isCurrentMonthDay ? 'bg-background' : 'bg-muted/30'}
+                              ${isTodayDay ? 'ring-2 ring-primary' : ''}
+                            `}
+                            onClick={() => {
+                              setSelectedDate(day);
+                              setDayOverviewOpen(true);
+                            }}
+                            data-testid={`calendar-day-${dayKey}`}
+                          >
+                            <div className={`text-sm font-medium mb-1 ${!isCurrentMonthDay ? 'text-muted-foreground' : ''}`}>
+                              {format(day, 'd')}
+                              {holiday && <HolidayLabel holiday={holiday} />}
+                            </div>
+                            <div className="space-y-1 max-h-[85px]">
+                              {dayAppointments.slice(0, 2).map((apt) => {
+                                // Check if this is the first day of the appointment
+                                const aptStartDate = new Date(apt.startDate);
+                                const isFirstDay = isSameDay(day, aptStartDate);
                             
-                            return (
-                              <div
-                                key={`${apt.id}-${dayKey}`}
-                                className="text-xs p-1 bg-primary/10 hover:bg-primary/20 rounded cursor-pointer border-l-2 border-l-primary"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setSelectedAppointment(apt);
-                                  handleEditAppointment(apt);
-                                }}
-                                data-testid={`calendar-appointment-${apt.id}`}
-                              >
-                                <div className="font-medium truncate">
-                                  {apt.isAllDay 
-                                    ? apt.title 
-                                    : isFirstDay 
-                                      ? `${format(new Date(apt.startDate), 'HH:mm')} ${apt.title}`
-                                      : apt.title}
+                                return (
+                                  <div
+                                    key={`${getOccurrenceKey(apt)}-${dayKey}`}
+                                    className="text-xs p-1 bg-primary/10 hover:bg-primary/20 rounded cursor-pointer border-l-2 border-l-primary"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setSelectedAppointment(apt);
+                                      handleEditAppointment(apt);
+                                    }}
+                                    data-testid={`calendar-appointment-${getOccurrenceKey(apt)}`}
+                                  >
+                                    <div className="font-medium truncate flex items-center gap-1">
+                                      {isRecurring(apt) && <Repeat className="h-3 w-3 shrink-0" />}
+                                      {apt.isAllDay 
+                                        ? apt.title 
+                                        : isFirstDay 
+                                          ? `${format(new Date(apt.startDate), 'HH:mm')} ${apt.title}`
+                                          : apt.title}
+                                    </div>
+                                  </div>
+                                );
+                              })}
+                              {visibleOccurrences.map((occurrence) => (
+                                <div
+                                  key={`${occurrence.schedule.id}-${dayKey}`}
+                                  className="text-xs p-1 bg-muted rounded border-l-2 border-l-muted-foreground border-dashed"
+                                  title={`Terugkerend onderhoud: ${occurrence.schedule.title}`}
+                                  data-testid={`calendar-occurrence-${occurrence.schedule.id}-${dayKey}`}
+                                >
+                                  <div className="font-medium truncate flex items-center gap-1">
+                                    <Repeat className="h-3 w-3 shrink-0" />
+                                    {occurrence.schedule.title}
+                                  </div>
                                 </div>
-                              </div>
-                            );
-                          })}
-                          {dayAppointments.length > 2 && (
-                            <div className="text-xs text-muted-foreground pl-2">
-                              +{dayAppointments.length - 2} meer
+                              ))}
+                              {hiddenCount > 0 && (
+                                <div className="text-xs text-muted-foreground pl-2">
+                                  +{hiddenCount} meer
+                                </div>
+                              )}
                             </div>
-                          )}
-                        </div>
-                      </div>
-                    );
-                  });
-                })()}
-              </div>
+                          </div>
+                        );
+                      });
+                    })()}
+                  </div>
+                </>
+              )}
+
+              {(calendarView === "week" || calendarView === "day") && (() => {
+                const { start, end } = getViewRange(calendarView, currentMonth);
+                return (
+                  <TimeGridView
+                    days={eachDayOfInterval({ start, end })}
+                    appointments={expandAppointments(appointments, start, end)}
+                    onSelect={(apt) => {
+                      setSelectedAppointment(apt);
+                      handleEditAppointment(apt);
+                    }}
+                    onCreate={handleCreateAppointmentAt}
+                    onReschedule={rescheduleAppointment}
+                  />
+                );
+              })()}
+
+              {calendarView === "agenda" && (() => {
+                const { start, end } = getViewRange(calendarView, currentMonth);
+                return (
+                  <AgendaView
+                    from={start}
+                    to={end}
+                    appointments={expandAppointments(appointments, start, end)}
+                    onSelect={(apt) => {
+                      setSelectedAppointment(apt);
+                      handleEditAppointment(apt);
+                    }}
+                  />
+                );
+              })()}
             </Card>
+
+            <MaintenanceSchedules />
           </TabsContent>
         </Tabs>
       </div>
 
+      <ChecklistTemplatesDialog open={checklistTemplatesOpen} onOpenChange={setChecklistTemplatesOpen} />
+      <SlaSettingsDialog open={slaSettingsOpen} onOpenChange={setSlaSettingsOpen} />
+      <SchoolHolidaysDialog open={holidaysOpen} onOpenChange={setHolidaysOpen} />
+
+      <MaintenanceCompletionDialog
+        task={completingTask?.task ?? null}
+        taskUpdate={completingTask?.update}
+        onOpenChange={(open) => !open && setCompletingTask(null)}
+        onCompleted={() => {
+          setTaskDialogOpen(false);
+          setEditingTask(null);
+          resetTaskForm();
+        }}
+      />
+
       {/* Delete Dialogs */}
       <AlertDialog open={deleteTaskId !== null} onOpenChange={() => setDeleteTaskId(null)}>
         <AlertDialogContent>
@@ -1722,7 +2243,7 @@ export default function MaintenancePage() {
           <AlertDialogFooter>
             <AlertDialogCancel data-testid="button-cancel-delete">Annuleren</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => deleteAppointmentId && deleteAppointmentMutation.mutate(deleteAppointmentId)}
+              onClick={() => deleteAppointmentId && deleteAppointmentMutation.mutate({ id: deleteAppointmentId })}
               data-testid="button-confirm-delete"
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
@@ -1732,6 +2253,13 @@ export default function MaintenancePage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <RecurrenceScopeDialog
+        action={scopeRequest?.action ?? null}
+        onOpenChange={(open) => !open && setScopeRequest(null)}
+        onConfirm={handleScopeConfirm}
+        isPending={updateAppointmentMutation.isPending || deleteAppointmentMutation.isPending}
+      />
+
       {/* Day Overview Sheet */}
       <Sheet open={dayOverviewOpen} onOpenChange={setDayOverviewOpen}>
         <SheetContent className="w-full sm:max-w-lg" data-testid="sheet-day-overview">
@@ -1768,7 +2296,7 @@ export default function MaintenancePage() {
             {/* Appointments List */}
             {selectedDate && (() => {
               const dayKey = format(selectedDate, 'yyyy-MM-dd');
-              const dayAppointments = appointments.filter(apt => {
+              const dayAppointments = expandAppointments(appointments, startOfDay(selectedDate), endOfDay(selectedDate)).filter(apt => {
                 const startDate = new Date(apt.startDate);
                 const endDate = new Date(apt.endDate);
                 const appointmentDays = eachDayOfInterval({ start: startDate, end: endDate });
@@ -1792,18 +2320,19 @@ export default function MaintenancePage() {
 
                     return (
                       <div
-                        key={apt.id}
+                        key={getOccurrenceKey(apt)}
                         className="p-3 border rounded-lg hover-elevate cursor-pointer"
                         onClick={() => {
                           setSelectedAppointment(apt);
                           handleEditAppointment(apt);
                           setDayOverviewOpen(false);
                         }}
-                        data-testid={`day-overview-appointment-${apt.id}`}
+                        data-testid={`day-overview-appointment-${getOccurrenceKey(apt)}`}
                       >
                         <div className="flex items-start justify-between gap-2">
                           <div className="flex-1">
-                            <div className="font-medium">
+                            <div className="font-medium flex items-center gap-1">
+                              {isRecurring(apt) && <Repeat className="h-3 w-3 shrink-0" />}
                               {apt.isAllDay 
                                 ? apt.title 
                                 : isFirstDay 
@@ -1813,7 +2342,7 @@ export default function MaintenancePage() {
                             {apt.description && (
                               <p className="text-sm text-muted-foreground mt-1">{apt.description}</p>
                             )}
-                            <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
+                            <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-muted-foreground">
                               {apt.location && (
                                 <span className="flex items-center gap-1">
                                   <MapPin className="h-3 w-3" />
@@ -1825,6 +2354,12 @@ export default function MaintenancePage() {
                                   {apt.activityType.charAt(0).toUpperCase() + apt.activityType.slice(1)}
                                 </Badge>
                               )}
+                              {apt.participants && apt.participants.length > 0 && (
+                                <span className="flex items-center gap-1">
+                                  <User className="h-3 w-3" />
+                                  {apt.participants.map(getParticipantName).join(", ")}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -10,14 +10,17 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Building2, Plus, Factory, Pencil, Trash2, ChevronRight, DoorClosed, Trees } from "lucide-react";
+import { Building2, Plus, Factory, Pencil, Trash2, ChevronRight, DoorClosed, Trees, History, QrCode } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { nl } from "date-fns/locale";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
 import { DatePicker } from "@/components/date-picker";
 import { useSchool } from "@/contexts/school-context";
+import { ObjectHistory, type ObjectHistoryType } from "@/components/object-history";
+import { RoomReportQrDialog, type QrRoom } from "@/components/room-report-qr";
 
 interface School {
   id: string;
@@ -172,6 +175,8 @@ export default function ObjectsPage() {
   const [deleteRoomId, setDeleteRoomId] = useState<string | null>(null);
   const [expandedBuildings, setExpandedBuildings] = useState<Set<string>>(new Set());
   const [expandedInstallations, setExpandedInstallations] = useState<Set<string>>(new Set());
+  const [historyTarget, setHistoryTarget] = useState<{ type: ObjectHistoryType; id: string; name: string } | null>(null);
+  const [qrRoom, setQrRoom] = useState<QrRoom | null>(null);
   
   const { toast } = useToast();
   const { activeSchool } = useSchool();
@@ -873,6 +878,24 @@ export default function ObjectsPage() {
                                             </div>
                                           </div>
                                           <div className="flex gap-1">
+                                            <Button
+                                              variant="ghost"
+                                              size="icon"
+                                              onClick={() => setQrRoom({ id: room.id, name: room.name, buildingName: building.name })}
+                                              title="QR-code voor meldingen"
+                                              data-testid={`button-qr-room-${room.id}`}
+                                            >
+                                              <QrCode className="h-3 w-3" />
+                                            </Button>
+                                            <Button
+                                              variant="ghost"
+                                              size="icon"
+                                              onClick={() => setHistoryTarget({ type: "room", id: room.id, name: room.name })}
+                                              title="Historie"
+                                              data-testid={`button-history-room-${room.id}`}
+                                            >
+                                              <History className="h-3 w-3" />
+                                            </Button>
                                             <Button
                                               variant="ghost"
                                               size="icon"
@@ -902,6 +925,15 @@ export default function ObjectsPage() {
                             </div>
 
                             <div className="flex gap-2 pt-4 border-t mt-4">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setHistoryTarget({ type: "building", id: building.id, name: building.name })}
+                                data-testid={`button-history-building-${building.id}`}
+                              >
+                                <History className="h-4 w-4 mr-2" />
+                                Historie
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -1118,6 +1150,15 @@ export default function ObjectsPage() {
                               )}
                             </div>
                             <div className="flex gap-2 pt-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setHistoryTarget({ type: "installation", id: installation.id, name: installation.name })}
+                                data-testid={`button-history-installation-${installation.id}`}
+                              >
+                                <History className="h-4 w-4 mr-2" />
+                                Historie
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -1334,6 +1375,15 @@ export default function ObjectsPage() {
                               )}
                             </div>
                             <div className="flex gap-2 pt-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setHistoryTarget({ type: "installation", id: installation.id, name: installation.name })}
+                                data-testid={`button-history-installation-${installation.id}`}
+                              >
+                                <History className="h-4 w-4 mr-2" />
+                                Historie
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -1653,6 +1703,23 @@ export default function ObjectsPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* History Sheet */}
+      <Sheet open={historyTarget !== null} onOpenChange={(open) => !open && setHistoryTarget(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto" data-testid="sheet-object-history">
+          <SheetHeader>
+            <SheetTitle data-testid="text-history-title">Historie: {historyTarget?.name}</SheetTitle>
+            <SheetDescription>
+              Alle gekoppelde taken, meldingen en afspraken
+            </SheetDescription>
+          </SheetHeader>
+          <div className="mt-6">
+            {historyTarget && <ObjectHistory type={historyTarget.type} id={historyTarget.id} />}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <RoomReportQrDialog room={qrRoom} onOpenChange={(open) => !open && setQrRoom(null)} />
     </div>
   );
 }
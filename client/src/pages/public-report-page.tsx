@@ -0,0 +1,226 @@
+import { useState, useRef } from "react";
+import { useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Building2, Camera, CheckCircle2, MapPin, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { publicReportSchema, type PublicReport, type PublicRoomInfo } from "@shared/schema";
+
+// Error messages are formatted as "<status>: <body>" by apiRequest
+const getErrorDescription = (error: Error) => {
+  if (error.message.startsWith("429")) {
+    return "Er zijn te veel meldingen verstuurd. Probeer het later opnieuw.";
+  }
+  if (error.message.startsWith("413")) {
+    return "De foto is te groot. Kies een kleinere foto.";
+  }
+  return "Kon melding niet versturen. Probeer het later opnieuw.";
+};
+
+const emptyForm: PublicReport = {
+  title: "",
+  description: "",
+  reporterName: "",
+  reporterEmail: "",
+};
+
+// Report form behind a room's QR code; works without an account
+export default function PublicReportPage() {
+  const [, params] = useRoute("/melden/:token");
+  const token = params?.token || "";
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [formData, setFormData] = useState<PublicReport>(emptyForm);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const { data: room, isLoading, error } = useQuery<PublicRoomInfo>({
+    queryKey: [`/api/public/rooms/${token}`],
+    enabled: !!token,
+  });
+
+  const submitMutation = useMutation<void, Error, PublicReport>({
+    mutationFn: async (data) => {
+      const body = new FormData();
+      body.append("title", data.title);
+      body.append("description", data.description);
+      body.append("reporterName", data.reporterName);
+      if (data.reporterEmail) body.append("reporterEmail", data.reporterEmail);
+      if (photo) body.append("photo", photo);
+      await apiRequest("POST", `/api/public/rooms/${token}/reports`, body);
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: getErrorDescription(error),
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = publicReportSchema.safeParse(formData);
+    if (!parsed.success) {
+      const emailInvalid = parsed.error.issues.some(issue => issue.path[0] === "reporterEmail");
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: emailInvalid ? "Vul een geldig e-mailadres in" : "Vul alle verplichte velden in",
+      });
+      return;
+    }
+    submitMutation.mutate(parsed.data);
+  };
+
+  const handleReset = () => {
+    setFormData(emptyForm);
+    setPhoto(null);
+    setSubmitted(false);
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <p className="text-center text-muted-foreground py-8">Laden...</p>;
+    }
+
+    if (error || !room) {
+      return (
+        <p className="text-center text-muted-foreground py-8" data-testid="text-invalid-token">
+          Deze QR-code is niet (meer) geldig. Neem contact op met de facilitair medewerker van de school.
+        </p>
+      );
+    }
+
+    if (submitted) {
+      return (
+        <div className="text-center space-y-4 py-4" data-testid="text-report-submitted">
+          <CheckCircle2 className="h-12 w-12 text-primary mx-auto" />
+          <div>
+            <p className="font-semibold">Bedankt voor je melding</p>
+            <p className="text-sm text-muted-foreground">De melding is doorgestuurd naar de facilitaire dienst van {room.schoolName}.</p>
+          </div>
+          <Button variant="outline" onClick={handleReset} data-testid="button-new-public-report">
+            Nog een melding maken
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center gap-2 p-3 bg-muted/50 rounded-md text-sm" data-testid="text-public-room">
+          <MapPin className="h-4 w-4 text-muted-foreground shrink-0" />
+          <span>{room.buildingName} - {room.roomName}</span>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="title">Wat is er aan de hand? *</Label>
+          <Input
+            id="title"
+            value={formData.title}
+            onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            placeholder="Bijv. Radiator wordt niet warm"
+            maxLength={200}
+            data-testid="input-public-title"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="description">Omschrijving *</Label>
+          <Textarea
+            id="description"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="Beschrijf het probleem zo duidelijk mogelijk"
+            rows={4}
+            data-testid="input-public-description"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Foto (optioneel)</Label>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+            data-testid="input-public-photo"
+          />
+          {photo ? (
+            <div className="flex items-center justify-between gap-2 p-2 border rounded-md text-sm">
+              <span className="truncate">{photo.name}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  setPhoto(null);
+                  if (fileInputRef.current) fileInputRef.current.value = "";
+                }}
+                aria-label="Foto verwijderen"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <Button type="button" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <Camera className="h-4 w-4 mr-2" />
+              Foto toevoegen
+            </Button>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reporterName">Je naam *</Label>
+          <Input
+            id="reporterName"
+            value={formData.reporterName}
+            onChange={(e) => setFormData({ ...formData, reporterName: e.target.value })}
+            maxLength={200}
+            data-testid="input-public-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reporterEmail">Je e-mailadres (optioneel)</Label>
+          <Input
+            id="reporterEmail"
+            type="email"
+            value={formData.reporterEmail}
+            onChange={(e) => setFormData({ ...formData, reporterEmail: e.target.value })}
+            placeholder="Voor vragen over je melding"
+            data-testid="input-public-email"
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={submitMutation.isPending} data-testid="button-submit-public-report">
+          {submitMutation.isPending ? "Versturen..." : "Melding versturen"}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-4 text-center">
+          <div className="flex justify-center">
+            <div className="p-3 bg-primary/10 rounded-lg">
+              <Building2 className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl">Melding maken</CardTitle>
+            <CardDescription>{room ? room.schoolName : "Eduvium"}</CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -11,22 +12,36 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Plus, AlertCircle, MapPin, Clock, Pencil, Trash2, ChevronDown, Wrench, Upload, FileText, X } from "lucide-react";
+import { Plus, AlertCircle, MapPin, Clock, Pencil, Trash2, ChevronDown, Wrench, Timer, QrCode, Merge } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { ReportComments } from "@/components/report-comments";
+import { AttachmentGallery, uploadAttachments } from "@/components/attachment-gallery";
+import { ObjectPicker, emptyObjectLink } from "@/components/object-picker";
+import { SlaBadge, SlaSettingsDialog, useSlaTargets } from "@/components/sla-targets";
+import { BulkActionBar, SelectCheckbox, runBulkAction, getBulkResultToast, type BulkAction } from "@/components/bulk-action-bar";
+import { useBulkSelection } from "@/hooks/use-bulk-selection";
+import { countOverdue } from "@shared/sla";
+import { findDuplicateReports } from "@shared/report-duplicates";
+import { SimilarReports } from "@/components/similar-reports";
+import { ReportsToTaskDialog, type LinkableReport } from "@/components/reports-to-task-dialog";
+import type { Maintenance, ReportMerge } from "@shared/schema";
 
 interface Report {
   id: string;
   title: string;
   description: string | null;
   location: string;
+  buildingId: string | null;
+  roomId: string | null;
+  installationId: string | null;
+  maintenanceId: string | null;
   priority: string;
   status: string;
   reportedBy: string;
+  reporterEmail: string | null;
+  isPublic: boolean;
   schoolId: string;
-  attachmentUrl: string | null;
-  attachmentName: string | null;
   createdAt: Date | null;
 }
 
@@ -35,10 +50,12 @@ export default function ReportsPage() {
   const [editingReport, setEditingReport] = useState<Report | null>(null);
   const [deleteReportId, setDeleteReportId] = useState<string | null>(null);
   const [expandedReports, setExpandedReports] = useState<Set<string>>(new Set());
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [slaSettingsOpen, setSlaSettingsOpen] = useState(false);
+  const [taskReports, setTaskReports] = useState<LinkableReport[] | null>(null);
   const { toast } = useToast();
+  const slaTargets = useSlaTargets();
 
   const [formData, setFormData] = useState({
     title: "",
@@ -47,12 +64,31 @@ export default function ReportsPage() {
     priority: "",
     status: "",
     reportedBy: "",
+    ...emptyObjectLink,
   });
 
   const { data: reports = [], isLoading } = useQuery<Report[]>({
     queryKey: ["/api/reports"],
   });
 
+  const { data: tasks = [] } = useQuery<Maintenance[]>({
+    queryKey: ["/api/maintenance"],
+  });
+
+  const selection = useBulkSelection(reports.map(r => r.id));
+
+  // Opens the report linked from a notification (?melding=<id>)
+  const search = useSearch();
+  const linkedReportId = new URLSearchParams(search).get("melding");
+  const linkedReportLoaded = !!linkedReportId && reports.some(r => r.id === linkedReportId);
+  useEffect(() => {
+    if (!linkedReportId || !linkedReportLoaded) return;
+    setExpandedReports(prev => new Set(prev).add(linkedReportId));
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-testid="report-${linkedReportId}"]`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    });
+  }, [linkedReportId, linkedReportLoaded]);
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       return apiRequest("POST", "/api/reports", data);
@@ -148,42 +184,9 @@ export default function ReportsPage() {
       priority: "",
       status: "",
       reportedBy: "",
+      ...emptyObjectLink,
     });
-    setSelectedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
-  };
-
-  const uploadAttachment = async (reportId: string, file: File) => {
-    const formDataUpload = new FormData();
-    formDataUpload.append("file", file);
-    
-    const response = await fetch(`/api/reports/${reportId}/attachment`, {
-      method: "POST",
-      body: formDataUpload,
-      credentials: "include",
-    });
-    
-    if (!response.ok) {
-      throw new Error("Upload failed");
-    }
-    
-    return response.json();
-  };
-
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-    }
-  };
-
-  const removeSelectedFile = () => {
-    setSelectedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+    setPendingFiles([]);
   };
 
   const handleEdit = (report: Report) => {
@@ -195,6 +198,9 @@ export default function ReportsPage() {
       priority: report.priority,
       status: report.status,
       reportedBy: report.reportedBy,
+      buildingId: report.buildingId,
+      roomId: report.roomId,
+      installationId: report.installationId,
     });
     setDialogOpen(true);
   };
@@ -219,45 +225,23 @@ export default function ReportsPage() {
     }
 
     if (editingReport) {
-      // Update existing report
+      // Update existing report; attachments are uploaded directly from the gallery
       updateMutation.mutate({ id: editingReport.id, data: formData });
-      
-      // Upload file if selected
-      if (selectedFile) {
-        setIsUploading(true);
-        try {
-          await uploadAttachment(editingReport.id, selectedFile);
-          queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
-          toast({
-            title: "Succes",
-            description: "Bijlage geüpload",
-          });
-        } catch {
-          toast({
-            variant: "destructive",
-            title: "Fout",
-            description: "Kon bijlage niet uploaden",
-          });
-        } finally {
-          setIsUploading(false);
-        }
-      }
     } else {
-      // Create new report, then upload file
+      // Create new report, then upload queued files
       try {
         const response = await apiRequest("POST", "/api/reports", formData);
         const newReport = await response.json();
         
-        // Upload file if selected
-        if (selectedFile && newReport.id) {
+        if (pendingFiles.length > 0 && newReport.id) {
           setIsUploading(true);
           try {
-            await uploadAttachment(newReport.id, selectedFile);
+            await uploadAttachments("reports", newReport.id, pendingFiles);
           } catch {
             toast({
               variant: "destructive",
               title: "Waarschuwing",
-              description: "Melding aangemaakt, maar bijlage kon niet worden geüpload",
+              description: "Melding aangemaakt, maar bijlagen konden niet worden geüpload",
             });
           } finally {
             setIsUploading(false);
@@ -322,7 +306,119 @@ export default function ReportsPage() {
     });
   };
 
+  const bulkActions: BulkAction[] = [
+    {
+      key: "status",
+      label: "Status wijzigen",
+      options: [
+        { value: "pending", label: "In afwachting" },
+        { value: "in_progress", label: "In behandeling" },
+        { value: "completed", label: "Afgehandeld" },
+      ],
+      describe: (count, valueLabel) => `Status van ${count} ${count === 1 ? "melding" : "meldingen"} wijzigen naar ${valueLabel}?`,
+    },
+    {
+      key: "priority",
+      label: "Prioriteit wijzigen",
+      options: [
+        { value: "critical", label: "Kritiek" },
+        { value: "high", label: "Hoog" },
+        { value: "medium", label: "Gemiddeld" },
+        { value: "low", label: "Laag" },
+      ],
+      describe: (count, valueLabel) => `Prioriteit van ${count} ${count === 1 ? "melding" : "meldingen"} wijzigen naar ${valueLabel}?`,
+    },
+    {
+      key: "task",
+      label: "Onderhoudstaak maken",
+      icon: Wrench,
+      onSelect: () => setTaskReports(reports.filter(report => selection.isSelected(report.id))),
+    },
+    {
+      key: "merge",
+      label: "Samenvoegen in",
+      icon: Merge,
+      minCount: 2,
+      options: reports
+        .filter(report => selection.isSelected(report.id))
+        .map(report => ({ value: report.id, label: report.title })),
+      describe: (count, valueLabel) => `${count} meldingen samenvoegen in "${valueLabel}"? De opmerkingen en bijlagen van alle meldingen blijven bewaard, de andere meldingen worden verwijderd.`,
+    },
+    {
+      key: "delete",
+      label: "Verwijderen",
+      icon: Trash2,
+      destructive: true,
+      describe: (count) => `Weet je zeker dat je ${count} ${count === 1 ? "melding" : "meldingen"} wilt verwijderen? Deze actie kan niet ongedaan worden gemaakt.`,
+    },
+  ];
+
+  // Merging is one request: the backend moves comments, attachments and history to the target
+  const handleMerge = async (targetId: string) => {
+    const merge: ReportMerge = { sourceIds: selection.selectedIds.filter(id => id !== targetId) };
+    try {
+      await apiRequest("POST", `/api/reports/${targetId}/merge`, merge);
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      selection.clear();
+      setExpandedReports(prev => new Set(prev).add(targetId));
+      toast({
+        title: "Succes",
+        description: "Meldingen samengevoegd",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon meldingen niet samenvoegen",
+      });
+    }
+  };
+
+  const handleBulkAction = async (actionKey: string, value: string) => {
+    if (actionKey === "merge") return handleMerge(value);
+    const result = await runBulkAction(selection.selectedIds, (id) =>
+      actionKey === "delete"
+        ? apiRequest("DELETE", `/api/reports/${id}`)
+        : apiRequest("PATCH", `/api/reports/${id}`, { [actionKey]: value })
+    );
+    queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+    toast(getBulkResultToast(result, { singular: "melding", plural: "meldingen" }, actionKey === "delete" ? "verwijderd" : "bijgewerkt"));
+    selection.select(result.failed);
+  };
+
+  // Possible duplicates of the report being created
+  const similarReports = !editingReport && dialogOpen ? findDuplicateReports(formData, reports) : [];
+
+  // Adds the new report as comment (and its files as attachments) to an existing report instead
+  const addToExistingMutation = useMutation<void, Error, string>({
+    mutationFn: async (reportId) => {
+      const content = `Ook gemeld door ${formData.reportedBy || "onbekend"}: ${formData.title}${formData.description ? `\n\n${formData.description}` : ""}`;
+      await apiRequest("POST", `/api/reports/${reportId}/comments`, { content });
+      if (pendingFiles.length > 0) {
+        await uploadAttachments("reports", reportId, pendingFiles);
+      }
+    },
+    onSuccess: (_, reportId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      setDialogOpen(false);
+      resetForm();
+      setExpandedReports(prev => new Set(prev).add(reportId));
+      toast({
+        title: "Succes",
+        description: "Opmerking toegevoegd aan de bestaande melding",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Kon opmerking niet toevoegen aan de bestaande melding",
+      });
+    },
+  });
+
   const pendingCount = reports.filter(r => r.status === 'pending').length;
+  const overdueCount = countOverdue(reports, slaTargets);
 
   if (isLoading) {
     return <div className="flex items-center justify-center h-full">Laden...</div>;
@@ -336,164 +432,147 @@ export default function ReportsPage() {
             <h1 className="text-3xl font-bold mb-2" data-testid="text-reports-title">Meldingen</h1>
             <p className="text-muted-foreground">Bekijk en beheer incidentmeldingen</p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={handleDialogChange}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-new-report">
-                <Plus className="h-4 w-4 mr-2" />
-                Nieuwe Melding
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>{editingReport ? "Melding Bewerken" : "Nieuwe Melding"}</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Titel *</Label>
-                  <Input
-                    id="title"
-                    value={formData.title}
-                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                    placeholder="Bijv. Kapotte kraan in toilet"
-                    data-testid="input-title"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Beschrijving</Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    placeholder="Bijv. De kraan in toilet A lekt en moet vervangen worden"
-                    data-testid="input-description"
-                  />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setSlaSettingsOpen(true)} data-testid="button-sla-settings">
+              <Timer className="h-4 w-4 mr-2" />
+              Reactietijden
+            </Button>
+            <Dialog open={dialogOpen} onOpenChange={handleDialogChange}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-new-report">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nieuwe Melding
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingReport ? "Melding Bewerken" : "Nieuwe Melding"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="location">Locatie *</Label>
+                    <Label htmlFor="title">Titel *</Label>
                     <Input
-                      id="location"
-                      value={formData.location}
-                      onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                      placeholder="Bijv. Toilet A, begane grond"
-                      data-testid="input-location"
+                      id="title"
+                      value={formData.title}
+                      onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                      placeholder="Bijv. Kapotte kraan in toilet"
+                      data-testid="input-title"
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="reportedBy">Gemeld door *</Label>
-                    <Input
-                      id="reportedBy"
-                      value={formData.reportedBy}
-                      onChange={(e) => setFormData({ ...formData, reportedBy: e.target.value })}
-                      placeholder="Bijv. Mevrouw Jansen"
-                      data-testid="input-reportedBy"
+                    <Label htmlFor="description">Beschrijving</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      placeholder="Bijv. De kraan in toilet A lekt en moet vervangen worden"
+                      data-testid="input-description"
                     />
                   </div>
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="priority">Prioriteit *</Label>
-                    <Select
-                      value={formData.priority}
-                      onValueChange={(value) => setFormData({ ...formData, priority: value })}
-                    >
-                      <SelectTrigger data-testid="select-priority">
-                        <SelectValue placeholder="Selecteer prioriteit" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="critical">Kritiek</SelectItem>
-                        <SelectItem value="high">Hoog</SelectItem>
-                        <SelectItem value="medium">Gemiddeld</SelectItem>
-                        <SelectItem value="low">Laag</SelectItem>
-                      </SelectContent>
-                    </Select>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="location">Locatie *</Label>
+                      <Input
+                        id="location"
+                        value={formData.location}
+                        onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                        placeholder="Bijv. Toilet A, begane grond"
+                        data-testid="input-location"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="reportedBy">Gemeld door *</Label>
+                      <Input
+                        id="reportedBy"
+                        value={formData.reportedBy}
+                        onChange={(e) => setFormData({ ...formData, reportedBy: e.target.value })}
+                        placeholder="Bijv. Mevrouw Jansen"
+                        data-testid="input-reportedBy"
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="status">Status *</Label>
-                    <Select
-                      value={formData.status}
-                      onValueChange={(value) => setFormData({ ...formData, status: value })}
-                    >
-                      <SelectTrigger data-testid="select-status">
-                        <SelectValue placeholder="Selecteer status" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">In afwachting</SelectItem>
-                        <SelectItem value="in_progress">In behandeling</SelectItem>
-                        <SelectItem value="completed">Afgehandeld</SelectItem>
-                      </SelectContent>
-                    </Select>
+                  <SimilarReports
+                    matches={similarReports}
+                    onAddComment={(reportId) => addToExistingMutation.mutate(reportId)}
+                    isPending={addToExistingMutation.isPending}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="priority">Prioriteit *</Label>
+                      <Select
+                        value={formData.priority}
+                        onValueChange={(value) => setFormData({ ...formData, priority: value })}
+                      >
+                        <SelectTrigger data-testid="select-priority">
+                          <SelectValue placeholder="Selecteer prioriteit" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="critical">Kritiek</SelectItem>
+                          <SelectItem value="high">Hoog</SelectItem>
+                          <SelectItem value="medium">Gemiddeld</SelectItem>
+                          <SelectItem value="low">Laag</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="status">Status *</Label>
+                      <Select
+                        value={formData.status}
+                        onValueChange={(value) => setFormData({ ...formData, status: value })}
+                      >
+                        <SelectTrigger data-testid="select-status">
+                          <SelectValue placeholder="Selecteer status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="pending">In afwachting</SelectItem>
+                          <SelectItem value="in_progress">In behandeling</SelectItem>
+                          <SelectItem value="completed">Afgehandeld</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label>Foto of document toevoegen</Label>
-                  <div className="flex items-center gap-2">
-                    <input
-                      ref={fileInputRef}
-                      type="file"
-                      onChange={handleFileSelect}
-                      accept="image/*,.pdf,.doc,.docx,.xls,.xlsx"
-                      className="hidden"
-                      data-testid="input-file"
+                  <ObjectPicker
+                    value={formData}
+                    onChange={(link) => setFormData({ ...formData, ...link })}
+                    testIdPrefix="report"
+                  />
+                  <div className="space-y-2">
+                    <Label>Foto's en documenten</Label>
+                    <AttachmentGallery
+                      entityType="reports"
+                      entityId={editingReport?.id ?? null}
+                      pendingFiles={pendingFiles}
+                      onPendingFilesChange={setPendingFiles}
                     />
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => fileInputRef.current?.click()}
-                      className="flex items-center gap-2"
-                      data-testid="button-upload"
-                    >
-                      <Upload className="h-4 w-4" />
-                      Bestand kiezen
-                    </Button>
-                    {selectedFile && (
-                      <div className="flex items-center gap-2 px-3 py-2 bg-muted rounded-md">
-                        <FileText className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm truncate max-w-[200px]">{selectedFile.name}</span>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          onClick={removeSelectedFile}
-                          className="h-6 w-6"
-                          data-testid="button-remove-file"
-                        >
-                          <X className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    )}
                   </div>
-                  {editingReport?.attachmentUrl && !selectedFile && (
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <FileText className="h-4 w-4" />
-                      <a 
-                        href={editingReport.attachmentUrl} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="hover:underline"
-                      >
-                        {editingReport.attachmentName || "Bekijk bijlage"}
-                      </a>
-                    </div>
-                  )}
-                </div>
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={createMutation.isPending || updateMutation.isPending || isUploading}
-                  data-testid="button-submit-report"
-                >
-                  {isUploading 
-                    ? "Uploaden..." 
-                    : (createMutation.isPending || updateMutation.isPending) 
-                      ? "Bezig..." 
-                      : editingReport ? "Melding Bijwerken" : "Melding Aanmaken"}
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <Button 
+                    type="submit" 
+                    className="w-full" 
+                    disabled={createMutation.isPending || updateMutation.isPending || isUploading}
+                    data-testid="button-submit-report"
+                  >
+                    {isUploading 
+                      ? "Uploaden..." 
+                      : (createMutation.isPending || updateMutation.isPending) 
+                        ? "Bezig..." 
+                        : editingReport ? "Melding Bijwerken" : "Melding Aanmaken"}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
+        {reports.length > 0 && (
+          <BulkActionBar selection={selection} actions={bulkActions} onRun={handleBulkAction} />
+        )}
+
+        <ReportsToTaskDialog
+          reports={taskReports}
+          onOpenChange={(open) => !open && setTaskReports(null)}
+          onDone={selection.clear}
+        />
+
         <div className="grid gap-4">
           {reports.length === 0 ? (
             <Card className="p-6">
@@ -506,8 +585,12 @@ export default function ReportsPage() {
                 open={expandedReports.has(report.id)}
                 onOpenChange={() => toggleReport(report.id)}
               >
-                <Card className="hover-elevate" data-testid={`report-${report.id}`}>
-                  <CollapsibleTrigger className="w-full text-left p-6" data-testid={`button-toggle-${report.id}`}>
+                <Card className={`relative hover-elevate ${selection.isSelected(report.id) ? "ring-2 ring-primary" : ""}`} data-testid={`report-${report.id}`}>
+                  {/* Outside the trigger: a checkbox cannot be nested in the trigger button */}
+                  <div className="absolute left-6 top-9 z-10">
+                    <SelectCheckbox id={report.id} selection={selection} />
+                  </div>
+                  <CollapsibleTrigger className="w-full text-left p-6 pl-14" data-testid={`button-toggle-${report.id}`}>
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-3">
@@ -527,6 +610,19 @@ export default function ReportsPage() {
                                 {getPriorityLabel(report.priority)}
                               </Badge>
                               <Badge variant="outline">{getStatusLabel(report.status)}</Badge>
+                              <SlaBadge item={report} targets={slaTargets} />
+                              {report.maintenanceId && (
+                                <Badge variant="secondary" className="gap-1" data-testid={`badge-task-${report.id}`}>
+                                  <Wrench className="h-3 w-3" />
+                                  Taak: {tasks.find(task => task.id === report.maintenanceId)?.title ?? "onderhoud"}
+                                </Badge>
+                              )}
+                              {report.isPublic && (
+                                <Badge variant="secondary" className="gap-1" data-testid={`badge-public-${report.id}`}>
+                                  <QrCode className="h-3 w-3" />
+                                  Via QR-code
+                                </Badge>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -544,6 +640,16 @@ export default function ReportsPage() {
                           )}
                           <div className="flex items-center gap-2 text-muted-foreground">
                             <span>Door: {report.reportedBy}</span>
+                            {report.reporterEmail && (
+                              <a
+                                href={`mailto:${report.reporterEmail}`}
+                                onClick={(e) => e.stopPropagation()}
+                                className="text-primary hover:underline truncate"
+                                data-testid={`link-reporter-email-${report.id}`}
+                              >
+                                {report.reporterEmail}
+                              </a>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -582,7 +688,7 @@ export default function ReportsPage() {
                         e.stopPropagation();
                         createMaintenanceMutation.mutate(report.id);
                       }}
-                      disabled={createMaintenanceMutation.isPending}
+                      disabled={createMaintenanceMutation.isPending || !!report.maintenanceId}
                       data-testid={`button-create-maintenance-${report.id}`}
                     >
                       <Wrench className="h-4 w-4 mr-1" />
@@ -617,6 +723,7 @@ export default function ReportsPage() {
                 <h3 className="font-semibold mb-1">Openstaande Meldingen</h3>
                 <p className="text-sm text-muted-foreground">
                   {pendingCount} {pendingCount === 1 ? 'melding wacht' : 'meldingen wachten'} op toewijzing en actie
+                  {overdueCount > 0 && ` · ${overdueCount} over tijd`}
                 </p>
               </div>
             </div>
@@ -624,6 +731,8 @@ export default function ReportsPage() {
         )}
       </div>
 
+      <SlaSettingsDialog open={slaSettingsOpen} onOpenChange={setSlaSettingsOpen} />
+
       <AlertDialog open={deleteReportId !== null} onOpenChange={() => setDeleteReportId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
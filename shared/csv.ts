@@ -0,0 +1,85 @@
+/**
+ * CSV reading for spreadsheet imports (e.g. an MJOP from a consultant)
+ * Shared between frontend (import preview) and backend (import)
+ */
+
+// Dutch Excel writes semicolons; other tools write commas
+function detectDelimiter(firstLine: string): string {
+  const counts = [';', ',', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain delimiters,
+ * doubled quotes and line breaks. Empty lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Reads an amount as written in Dutch spreadsheets ("€ 1.234,56", "1234",
+ * "1,234.56") and returns it in cents; null for empty or unreadable cells.
+ */
+export function parseAmountToCents(value: string): number | null {
+  let text = value.replace(/[€\s]/g, '');
+  if (text === '' || text === '-') return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // 1.234,56: dots group thousands, the comma is the decimal separator
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma !== -1) {
+    // 1,234.56
+    text = text.replace(/,/g, '');
+  } else if (lastDot !== -1 && /^\d{1,3}(\.\d{3})+$/.test(text)) {
+    // 1.234 without decimals
+    text = text.replace(/\./g, '');
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Math.round(parseFloat(text) * 100);
+}
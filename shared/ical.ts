@@ -0,0 +1,299 @@
+/**
+ * iCalendar (RFC 5545) reading and writing for appointments
+ * Shared between frontend (.ics import) and backend (calendar feed)
+ */
+
+import type { IntervalUnit } from './recurrence';
+
+export interface ICalRecurrence {
+  unit: IntervalUnit;
+  interval: number;
+  until: Date | null;
+  count: number | null;
+  // Rule parts we cannot represent (e.g. BYDAY); the import keeps only the base rule
+  simplified: boolean;
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: Date;
+  // Inclusive; all-day events end at the end of their last day
+  end: Date;
+  allDay: boolean;
+  categories: string[];
+  recurrence: ICalRecurrence | null;
+  // Starts of occurrences left out of the series (EXDATE)
+  exdates: Date[];
+  // Original start of a detached occurrence; it shares the UID of its series (RECURRENCE-ID)
+  recurrenceId: Date | null;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const frequencyUnits: Record<string, IntervalUnit> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+// Lines longer than this are folded on export (RFC 5545 allows 75 octets)
+const MAX_LINE_LENGTH = 73;
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Joins folded lines (continuations start with a space or tab)
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.length > 0);
+}
+
+function parseProperty(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params = Object.fromEntries(
+    paramParts.map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+    })
+  );
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parses DATE and DATE-TIME values. UTC times end in "Z"; times with a TZID or
+ * without zone are read as local time, which matches for Dutch calendars.
+ */
+function parseDate(property: ICalProperty): { date: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+
+  if (!hours) {
+    return { date: new Date(+year, +month - 1, +day), allDay: true };
+  }
+  const date = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  return { date, allDay: false };
+}
+
+function parseRecurrence(value: string): ICalRecurrence | null {
+  const parts = Object.fromEntries(
+    value.split(';').map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')];
+    })
+  );
+  const unit = frequencyUnits[(parts.FREQ ?? '').toUpperCase()];
+  if (!unit) return null;
+
+  const until = parts.UNTIL ? parseDate({ name: 'UNTIL', params: {}, value: parts.UNTIL }) : null;
+  // A date-only UNTIL includes that whole day
+  if (until?.allDay) until.date.setHours(23, 59, 59, 999);
+  return {
+    unit,
+    interval: Math.max(1, parseInt(parts.INTERVAL) || 1),
+    until: until?.date ?? null,
+    count: parts.COUNT ? Math.max(1, parseInt(parts.COUNT) || 1) : null,
+    simplified: Object.keys(parts).some(key => key.startsWith('BY')),
+  };
+}
+
+/**
+ * Reads the events of an .ics file. Events without UID or start are skipped, as are
+ * cancelled events. Modified instances of a series (RECURRENCE-ID) are returned as
+ * separate events with the UID of their series; cancelled instances are added to the
+ * exdates of their series.
+ */
+export function parseICalendar(text: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  const cancelledInstances: ICalEvent[] = [];
+  let current: ICalProperty[] | null = null;
+  // Depth of nested components (e.g. VALARM) inside the current event
+  let nested = 0;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+      } else if (current) {
+        nested++;
+      }
+      continue;
+    }
+    if (property.name === 'END' && current) {
+      if (nested > 0) {
+        nested--;
+        continue;
+      }
+      const event = toEvent(current);
+      const isCancelled = current.some(property => property.name === 'STATUS' && property.value.toUpperCase() === 'CANCELLED');
+      if (event && isCancelled) {
+        if (event.recurrenceId) cancelledInstances.push(event);
+      } else if (event) {
+        events.push(event);
+      }
+      current = null;
+      continue;
+    }
+    if (current && nested === 0) {
+      current.push(property);
+    }
+  }
+
+  const findSeries = (instance: ICalEvent) =>
+    events.find(event => event.uid === instance.uid && event.recurrence && !event.recurrenceId);
+  cancelledInstances.forEach(instance => findSeries(instance)?.exdates.push(instance.recurrenceId!));
+
+  // Instances without their series in the file are read as single events
+  return events.map(event => (event.recurrenceId && !findSeries(event) ? { ...event, recurrenceId: null } : event));
+}
+
+function toEvent(properties: ICalProperty[]): ICalEvent | null {
+  const get = (name: string) => properties.find(property => property.name === name);
+
+  const uid = get('UID')?.value.trim();
+  const startProperty = get('DTSTART');
+  const start = startProperty ? parseDate(startProperty) : null;
+  if (!uid || !start) return null;
+
+  const endProperty = get('DTEND');
+  const parsedEnd = endProperty ? parseDate(endProperty) : null;
+  let end: Date;
+  if (start.allDay) {
+    // DTEND of an all-day event is the (exclusive) day after
+    end = new Date(parsedEnd ? parsedEnd.date : start.date);
+    if (parsedEnd && parsedEnd.date > start.date) end.setDate(end.getDate() - 1);
+    end.setHours(23, 59, 59, 999);
+  } else {
+    end = parsedEnd && parsedEnd.date >= start.date ? parsedEnd.date : start.date;
+  }
+
+  const rrule = get('RRULE');
+  return {
+    uid,
+    summary: unescapeText(get('SUMMARY')?.value ?? '').trim() || '(Geen titel)',
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value).trim() || null : null,
+    location: get('LOCATION') ? unescapeText(get('LOCATION')!.value).trim() || null : null,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    categories: properties
+      .filter(property => property.name === 'CATEGORIES')
+      .flatMap(property => property.value.split(/(?<!\\),/).map(category => unescapeText(category).trim()))
+      .filter(Boolean),
+    recurrence: rrule ? parseRecurrence(rrule.value) : null,
+    exdates: properties
+      .filter(property => property.name === 'EXDATE')
+      .flatMap(property => property.value.split(','))
+      .map(value => parseDate({ name: 'EXDATE', params: {}, value })?.date)
+      .filter((date): date is Date => !!date),
+    recurrenceId: get('RECURRENCE-ID') ? parseDate(get('RECURRENCE-ID')!)?.date ?? null : null,
+  };
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// All-day appointments are stored at midnight Dutch time; format the day there, not in the server's zone
+const dayFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/Amsterdam',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+const formatDay = (date: Date) => dayFormat.format(date).replace(/-/g, '');
+
+// Next calendar day in Dutch time, also across daylight saving changes
+const nextDay = (date: Date) => {
+  const [year, month, day] = dayFormat.format(date).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1, 12));
+};
+
+// Value of EXDATE and RECURRENCE-ID, in the same form as DTSTART
+const formatOccurrence = (date: Date, allDay: boolean) =>
+  allDay ? `;VALUE=DATE:${formatDay(date)}` : `:${formatUtc(date)}`;
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += MAX_LINE_LENGTH) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i + MAX_LINE_LENGTH));
+  }
+  return parts.join('\r\n');
+}
+
+function formatEvent(event: ICalEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDay(event.start)}`, `DTEND;VALUE=DATE:${formatDay(nextDay(event.end))}`);
+  } else {
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`);
+  }
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.categories.length > 0) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+
+  if (event.recurrence) {
+    const frequency = Object.keys(frequencyUnits).find(key => frequencyUnits[key] === event.recurrence!.unit);
+    const rule = [`FREQ=${frequency}`, `INTERVAL=${event.recurrence.interval}`];
+    if (event.recurrence.until) rule.push(`UNTIL=${formatUtc(event.recurrence.until)}`);
+    if (event.recurrence.count) rule.push(`COUNT=${event.recurrence.count}`);
+    lines.push(`RRULE:${rule.join(';')}`);
+  }
+  if (event.recurrence) {
+    event.exdates.forEach(date => lines.push(`EXDATE${formatOccurrence(date, event.allDay)}`));
+  }
+  if (event.recurrenceId) lines.push(`RECURRENCE-ID${formatOccurrence(event.recurrenceId, event.allDay)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Writes a complete calendar with CRLF line endings, as served by the feed
+export function formatICalendar(events: ICalEvent[], calendarName: string, stamp: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Eduvium//Planning//NL',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap(event => formatEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -1,3 +1,11 @@
 export * from "./schema";
 export * from "./permissions";
 export * from "./analytics-types";
+export * from "./recurrence";
+export * from "./sla";
+export * from "./report-duplicates";
+export * from "./mentions";
+export * from "./ical";
+export * from "./investment-projection";
+export * from "./indexation";
+export * from "./csv";
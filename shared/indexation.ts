@@ -0,0 +1,30 @@
+/**
+ * Price indexation of multi-year investment plans
+ * Shared between frontend (investments table) and backend (investment analytics)
+ */
+
+export interface IndexationRate {
+  // Hundredths of a percent per year, e.g. 250 = 2,5%
+  rate: number;
+  baseYear: number;
+}
+
+/**
+ * Compound price increase from the base year to the given year. Amounts of the
+ * base year and earlier are already in current prices and are left as they are.
+ */
+export function getIndexationFactor(indexation: IndexationRate, year: number): number {
+  const years = Math.max(0, year - indexation.baseYear);
+  return Math.pow(1 + indexation.rate / 10000, years);
+}
+
+// Indexed amount in cents, rounded to whole cents
+export function indexAmount(amount: number, year: number, indexation: IndexationRate | null): number {
+  if (!indexation) return amount;
+  return Math.round(amount * getIndexationFactor(indexation, year));
+}
+
+// "2,5%" for a rate of 250
+export function formatIndexationRate(rate: number): string {
+  return `${(rate / 100).toLocaleString('nl-NL', { maximumFractionDigits: 2 })}%`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Projection of cyclic investments into future budget years
+ * Shared between frontend (investments table) and backend (budget analytics)
+ */
+
+export interface InvestmentCycle {
+  isCyclic: boolean | null;
+  cycleYears: number | null;
+  years: Array<{ year: number; amount: number }>;
+}
+
+export interface ProjectedYear {
+  year: number;
+  amount: number;
+  // Entered year the projection is based on
+  baseYear: number;
+}
+
+export const DEFAULT_PROJECTION_HORIZON = 20;
+
+/**
+ * Projects a cyclic investment every cycleYears years from its first entered
+ * year up to and including untilYear, skipping years that are already
+ * entered. A projected year takes the amount of the latest entered year before
+ * it, so confirming or overriding one sets the amount for the years after it
+ * without dropping earlier unconfirmed projections.
+ */
+export function projectInvestmentYears(investment: InvestmentCycle, untilYear: number): ProjectedYear[] {
+  if (!investment.isCyclic || !investment.cycleYears || investment.cycleYears < 1) return [];
+  if (investment.years.length === 0) return [];
+
+  const entered = [...investment.years].sort((a, b) => a.year - b.year);
+  const enteredYears = new Set(entered.map(year => year.year));
+  const projected: ProjectedYear[] = [];
+  for (let year = entered[0].year + investment.cycleYears; year <= untilYear; year += investment.cycleYears) {
+    if (enteredYears.has(year)) continue;
+    // Always found: the first entered year is before every projected year
+    const base = entered.filter(entry => entry.year < year).pop()!;
+    projected.push({ year, amount: base.amount, baseYear: base.year });
+  }
+
+  return projected;
+}
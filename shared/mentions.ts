@@ -0,0 +1,44 @@
+/**
+ * Mentions in report comments, stored in the content as "@[Jan Jansen](<userId>)"
+ * Shared between frontend (input and rendering) and backend (notifications)
+ */
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; userId: string };
+
+// New instance per call: global regexes keep state in lastIndex
+const mentionPattern = () => /@\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export function formatMention(name: string, userId: string): string {
+  return `@[${name.replace(/[\[\]]/g, '')}](${userId})`;
+}
+
+// Unique ids of the users mentioned in a comment
+export function extractMentionIds(content: string): string[] {
+  const ids = new Set<string>();
+  for (const match of Array.from(content.matchAll(mentionPattern()))) {
+    ids.add(match[2]);
+  }
+  return Array.from(ids);
+}
+
+// Splits content into plain text and mentions for rendering
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(content.matchAll(mentionPattern()))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', name: match[1], userId: match[2] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+  return segments;
+}
@@ -0,0 +1,148 @@
+/**
+ * Recurrence helpers for maintenance schedules and recurring appointments
+ * Shared between frontend (planning preview, calendar) and backend (materialising tasks)
+ */
+
+export type IntervalUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface RecurrenceRule {
+  intervalUnit: IntervalUnit;
+  intervalCount: number;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+  // Maximum number of generated occurrences, skipped ones included
+  count?: number | null;
+}
+
+export interface RecurrenceException {
+  id?: string;
+  occurrenceDate: Date | string;
+  type: 'skip' | 'shift';
+  shiftedDate?: Date | string | null;
+}
+
+export interface Occurrence {
+  // Date the rule generates; identifies the occurrence for exceptions
+  occurrenceDate: Date;
+  // Date the occurrence actually takes place (differs when shifted)
+  date: Date;
+  skipped: boolean;
+  shifted: boolean;
+  exceptionId?: string;
+}
+
+// Safety net against runaway loops for tiny intervals over long ranges
+const MAX_ITERATIONS = 5000;
+
+export const INTERVAL_UNIT_LABELS: Record<IntervalUnit, { singular: string; plural: string }> = {
+  day: { singular: 'dag', plural: 'dagen' },
+  week: { singular: 'week', plural: 'weken' },
+  month: { singular: 'maand', plural: 'maanden' },
+  year: { singular: 'jaar', plural: 'jaar' },
+};
+
+export function formatInterval(unit: IntervalUnit, count: number): string {
+  const labels = INTERVAL_UNIT_LABELS[unit];
+  return count === 1 ? `Elke ${labels.singular}` : `Elke ${count} ${labels.plural}`;
+}
+
+// Calendar-day key in local time, so exceptions match regardless of time of day
+export function toDayKey(value: Date | string): string {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+// Adds n intervals to a date; month/year steps clamp to the last day of the month (31 jan + 1 maand = 28/29 feb)
+export function addInterval(value: Date | string, unit: IntervalUnit, count: number): Date {
+  const date = new Date(value);
+  switch (unit) {
+    case 'day':
+      date.setDate(date.getDate() + count);
+      return date;
+    case 'week':
+      date.setDate(date.getDate() + count * 7);
+      return date;
+    case 'month':
+    case 'year': {
+      const months = unit === 'year' ? count * 12 : count;
+      const day = date.getDate();
+      date.setDate(1);
+      date.setMonth(date.getMonth() + months);
+      const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      date.setDate(Math.min(day, lastDay));
+      return date;
+    }
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Index of the last occurrence on or before date, give or take one (DST, clamped month ends)
+function estimateIndex(rule: RecurrenceRule, start: Date, date: Date): number {
+  const months = (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+  const days = (date.getTime() - start.getTime()) / DAY_MS;
+  const units = {
+    day: days,
+    week: days / 7,
+    month: months,
+    year: months / 12,
+  }[rule.intervalUnit];
+  return Math.floor(units / Math.max(1, rule.intervalCount));
+}
+
+/**
+ * Expands a recurrence rule into occurrences whose effective date falls within [from, to].
+ * Skipped occurrences are returned with skipped = true so they can be restored in the UI.
+ * Every occurrence is computed from the start date (not from the previous one) to avoid
+ * drift after a clamped month end. Generation starts just before from, so long series
+ * without end keep producing occurrences; shifted occurrences are looked up separately,
+ * as they can be moved into the range from outside it.
+ */
+export function getOccurrences(
+  rule: RecurrenceRule,
+  exceptions: RecurrenceException[],
+  from: Date,
+  to: Date,
+  limit?: number,
+): Occurrence[] {
+  const start = new Date(rule.startDate);
+  const end = rule.endDate ? new Date(rule.endDate) : null;
+  const step = Math.max(1, rule.intervalCount);
+  const exceptionsByDay = new Map(exceptions.map(e => [toDayKey(e.occurrenceDate), e]));
+  const isShift = (exception?: RecurrenceException) => exception?.type === 'shift' && !!exception.shiftedDate;
+  const occurrences: Occurrence[] = [];
+
+  const firstIndex = Math.max(0, estimateIndex(rule, start, from) - 1);
+  for (let i = firstIndex; i < firstIndex + MAX_ITERATIONS; i++) {
+    if (rule.count && i >= rule.count) break;
+    const occurrenceDate = addInterval(start, rule.intervalUnit, i * step);
+    if (end && occurrenceDate > end) break;
+    if (occurrenceDate > to) break;
+
+    const exception = exceptionsByDay.get(toDayKey(occurrenceDate));
+    if (isShift(exception) || occurrenceDate < from) continue;
+    occurrences.push({
+      occurrenceDate,
+      date: occurrenceDate,
+      skipped: exception?.type === 'skip',
+      shifted: false,
+      exceptionId: exception?.id,
+    });
+  }
+
+  // Shifted occurrences whose new date is in range and whose original date belongs to the rule
+  for (const exception of exceptions.filter(isShift)) {
+    const date = new Date(exception.shiftedDate!);
+    if (date < from || date > to) continue;
+    const estimate = estimateIndex(rule, start, new Date(exception.occurrenceDate));
+    const occurrenceDate = [estimate - 1, estimate, estimate + 1]
+      .filter(i => i >= 0 && (!rule.count || i < rule.count))
+      .map(i => addInterval(start, rule.intervalUnit, i * step))
+      .find(candidate => toDayKey(candidate) === toDayKey(exception.occurrenceDate));
+    if (!occurrenceDate || (end && occurrenceDate > end)) continue;
+    occurrences.push({ occurrenceDate, date, skipped: false, shifted: true, exceptionId: exception.id });
+  }
+
+  const sorted = occurrences.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return limit ? sorted.slice(0, limit) : sorted;
+}
@@ -0,0 +1,97 @@
+/**
+ * Duplicate detection for reports
+ * Shared between frontend (warning in the create dialog) and backend
+ */
+
+export interface DuplicateCandidate {
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  roomId?: string | null;
+}
+
+export interface DuplicateMatch<T> {
+  report: T;
+  // 0..1, weighted word overlap of title, description and location
+  score: number;
+}
+
+// Minimum score to show a report as possible duplicate
+export const DUPLICATE_THRESHOLD = 0.3;
+
+// Words of three letters or more that say nothing about the problem
+const STOP_WORDS = new Set([
+  'aan', 'als', 'bij', 'dan', 'dat', 'die', 'dit', 'een', 'erg', 'geen', 'heel', 'het', 'hij',
+  'maar', 'meer', 'met', 'naar', 'niet', 'nog', 'ook', 'over', 'tot', 'uit', 'van', 'voor',
+  'was', 'wel', 'wordt', 'zijn',
+]);
+
+const WEIGHTS = {
+  title: 0.5,
+  description: 0.3,
+  location: 0.2,
+};
+
+// Lowercased words without accents and stop words
+export function tokenize(text: string | null | undefined): Set<string> {
+  if (!text) return new Set();
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  return new Set(words);
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+// Only the fields filled in on the candidate count, so a half-filled form still matches
+export function getDuplicateScore(candidate: DuplicateCandidate, report: DuplicateCandidate): number {
+  const titleTokens = tokenize(candidate.title);
+  const descriptionTokens = tokenize(candidate.description);
+  const text = tokenize(`${report.title} ${report.description ?? ''}`);
+
+  const titleScore = overlap(titleTokens, tokenize(report.title));
+  // Descriptions are compared against title and description combined, reporters mix them up
+  const descriptionScore = overlap(descriptionTokens, text);
+
+  // Same location alone is no duplicate
+  if (titleScore === 0 && descriptionScore === 0) return 0;
+
+  const parts: Array<{ weight: number; score: number }> = [];
+  if (titleTokens.size > 0) parts.push({ weight: WEIGHTS.title, score: titleScore });
+  if (descriptionTokens.size > 0) parts.push({ weight: WEIGHTS.description, score: descriptionScore });
+
+  if (candidate.roomId && report.roomId) {
+    parts.push({ weight: WEIGHTS.location, score: candidate.roomId === report.roomId ? 1 : 0 });
+  } else if (candidate.location) {
+    parts.push({ weight: WEIGHTS.location, score: overlap(tokenize(candidate.location), tokenize(report.location)) });
+  }
+
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  return totalWeight === 0 ? 0 : parts.reduce((sum, part) => sum + part.weight * part.score, 0) / totalWeight;
+}
+
+// Open reports that look like the candidate, best match first
+export function findDuplicateReports<T extends DuplicateCandidate & { status: string }>(
+  candidate: DuplicateCandidate,
+  reports: T[],
+  limit = 3,
+): DuplicateMatch<T>[] {
+  if (tokenize(candidate.title).size === 0 && tokenize(candidate.description).size === 0) return [];
+
+  return reports
+    .filter(report => report.status !== 'completed')
+    .map(report => ({ report, score: getDuplicateScore(candidate, report) }))
+    .filter(match => match.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -12,6 +12,12 @@ export const investmentTypeEnum = pgEnum("investment_type", ["school_wish", "nec
 export const quoteStatusEnum = pgEnum("quote_status", ["draft", "sent", "accepted", "rejected", "expired"]);
 export const installationTypeEnum = pgEnum("installation_type", ["w_installation", "e_installation"]);
 export const activityTypeEnum = pgEnum("activity_type", ["onderhoud", "keuring", "opname", "bespreking"]);
+export const intervalUnitEnum = pgEnum("interval_unit", ["day", "week", "month", "year"]);
+export const scheduleExceptionTypeEnum = pgEnum("schedule_exception_type", ["skip", "shift"]);
+export const notificationTypeEnum = pgEnum("notification_type", ["mention"]);
+export const holidayTypeEnum = pgEnum("holiday_type", ["vakantie", "studiedag"]);
+// Regions of the national school holiday schedule
+export const holidayRegionEnum = pgEnum("holiday_region", ["noord", "midden", "zuid"]);
 export const floorLevelEnum = pgEnum("floor_level", [
   "fundering",
   "begane_grond",
@@ -104,13 +110,86 @@ export const maintenance = pgTable("maintenance", {
   title: text("title").notNull(),
   description: text("description"),
   location: text("location"),
+  buildingId: varchar("building_id").references((): any => buildingData.id, { onDelete: "set null" }),
+  roomId: varchar("room_id").references((): any => rooms.id, { onDelete: "set null" }),
+  installationId: varchar("installation_id").references((): any => installationData.id, { onDelete: "set null" }),
   priority: priorityEnum("priority").notNull().default("medium"),
   status: statusEnum("status").notNull().default("pending"),
   assignee: text("assignee"),
   schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
   dueDate: timestamp("due_date"),
+  // Legacy single attachment, moved to a documents row (module "maintenance", entityId = id) by the
+  // legacy attachment migration and cleared; no longer written
   attachmentUrl: text("attachment_url"),
   attachmentName: text("attachment_name"),
+  scheduleId: varchar("schedule_id").references((): any => maintenanceSchedules.id, { onDelete: "set null" }),
+  occurrenceDate: timestamp("occurrence_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Maintenance Schedules table (recurring tasks, materialised into maintenance rows)
+export const maintenanceSchedules = pgTable("maintenance_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  description: text("description"),
+  location: text("location"),
+  priority: priorityEnum("priority").notNull().default("medium"),
+  assignee: text("assignee"),
+  intervalUnit: intervalUnitEnum("interval_unit").notNull().default("year"),
+  intervalCount: integer("interval_count").notNull().default(1),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  leadTimeDays: integer("lead_time_days").notNull().default(30),
+  isActive: boolean("is_active").notNull().default(true),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Maintenance Schedule Exceptions table (skipped or shifted single occurrences)
+export const maintenanceScheduleExceptions = pgTable("maintenance_schedule_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").references(() => maintenanceSchedules.id, { onDelete: "cascade" }).notNull(),
+  occurrenceDate: timestamp("occurrence_date").notNull(),
+  type: scheduleExceptionTypeEnum("type").notNull(),
+  shiftedDate: timestamp("shifted_date"),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueScheduleOccurrence: unique().on(table.scheduleId, table.occurrenceDate)
+}));
+
+// Maintenance Checklist Items table (ordered checks within a task, e.g. an "opname" round)
+export const maintenanceChecklistItems = pgTable("maintenance_checklist_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  maintenanceId: varchar("maintenance_id").references(() => maintenance.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  order: integer("order").notNull(),
+  isDone: boolean("is_done").notNull().default(false),
+  notes: text("notes"),
+  photoDocumentId: varchar("photo_document_id").references((): any => documents.id, { onDelete: "set null" }),
+  completedAt: timestamp("completed_at"),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// SLA Targets table (response/resolve hours per priority per school)
+export const slaTargets = pgTable("sla_targets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priority: priorityEnum("priority").notNull(),
+  responseHours: integer("response_hours"),
+  resolveHours: integer("resolve_hours"),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueSchoolPriority: unique().on(table.schoolId, table.priority)
+}));
+
+// Checklist Templates table (reusable checklists per school)
+export const checklistTemplates = pgTable("checklist_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  items: text("items").array().notNull(),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -122,12 +201,72 @@ export const appointments = pgTable("appointments", {
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   location: text("location"),
+  buildingId: varchar("building_id").references((): any => buildingData.id, { onDelete: "set null" }),
+  roomId: varchar("room_id").references((): any => rooms.id, { onDelete: "set null" }),
+  installationId: varchar("installation_id").references((): any => installationData.id, { onDelete: "set null" }),
   isAllDay: boolean("is_all_day").notNull().default(false),
   activityType: activityTypeEnum("activity_type"),
+  // Recurrence; a null unit means a single appointment
+  recurrenceUnit: intervalUnitEnum("recurrence_unit"),
+  recurrenceInterval: integer("recurrence_interval").notNull().default(1),
+  recurrenceUntil: timestamp("recurrence_until"),
+  recurrenceCount: integer("recurrence_count"),
+  // Occurrence of a series edited on its own; replaces the generated occurrence on occurrenceDate
+  seriesId: varchar("series_id").references((): any => appointments.id, { onDelete: "cascade" }),
+  occurrenceDate: timestamp("occurrence_date"),
+  // UID of the iCalendar event it was imported from; imports skip UIDs that already exist
+  externalUid: text("external_uid"),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Appointment Exceptions table (deleted single occurrences of a recurring appointment)
+export const appointmentExceptions = pgTable("appointment_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  occurrenceDate: timestamp("occurrence_date").notNull(),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueAppointmentOccurrence: unique().on(table.appointmentId, table.occurrenceDate)
+}));
+
+// School Holidays table (holiday periods and study days, overlaid on the planning)
+export const schoolHolidays = pgTable("school_holidays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: holidayTypeEnum("type").notNull().default("vakantie"),
+  startDate: timestamp("start_date").notNull(),
+  // Inclusive last day
+  endDate: timestamp("end_date").notNull(),
+  // Set for periods taken from the national schedule of that region
+  region: holidayRegionEnum("region"),
   schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Appointment Participants table (contacts or users taking part; each row has either contactId or userId)
+export const appointmentParticipants = pgTable("appointment_participants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  contactId: varchar("contact_id").references((): any => contactData.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Calendar Feeds table (per-user iCalendar feed of a school; regenerating the token revokes the old URL)
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  token: varchar("token").notNull().unique(),
+  includeMaintenance: boolean("include_maintenance").notNull().default(false),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserSchool: unique().on(table.userId, table.schoolId)
+}));
+
 // Contracts table
 export const contracts = pgTable("contracts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -147,11 +286,19 @@ export const reports = pgTable("reports", {
   title: text("title").notNull(),
   description: text("description").notNull(),
   location: text("location"),
+  buildingId: varchar("building_id").references((): any => buildingData.id, { onDelete: "set null" }),
+  roomId: varchar("room_id").references((): any => rooms.id, { onDelete: "set null" }),
+  installationId: varchar("installation_id").references((): any => installationData.id, { onDelete: "set null" }),
   priority: priorityEnum("priority").notNull().default("medium"),
   status: statusEnum("status").notNull().default("pending"),
   reportedBy: text("reported_by"),
+  reporterEmail: text("reporter_email"),
+  // Submitted through the public QR form without an account
+  isPublic: boolean("is_public").notNull().default(false),
   maintenanceId: varchar("maintenance_id").references(() => maintenance.id, { onDelete: "cascade" }),
   schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  // Legacy single attachment, moved to a documents row (module "reports", entityId = id) by the
+  // legacy attachment migration and cleared; no longer written
   attachmentUrl: text("attachment_url"),
   attachmentName: text("attachment_name"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -162,8 +309,38 @@ export const reportComments = pgTable("report_comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   reportId: varchar("report_id").references(() => reports.id).notNull(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  // May contain mentions as "@[Name](userId)", see shared/mentions.ts
   content: text("content").notNull(),
   schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Report events table (audit trail of report changes, written by the backend)
+export const reportEvents = pgTable("report_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").references(() => reports.id, { onDelete: "cascade" }).notNull(),
+  // Null for changes without a user session (e.g. the public report form)
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  // "created" or the name of the changed column (status, priority, maintenanceId, ...)
+  field: text("field").notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Notifications table (per user; created by the backend, e.g. for mentions in report comments)
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: notificationTypeEnum("type").notNull(),
+  // User who caused the notification
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  reportId: varchar("report_id").references(() => reports.id, { onDelete: "cascade" }),
+  commentId: varchar("comment_id").references(() => reportComments.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at"),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -189,6 +366,8 @@ export const rooms = pgTable("rooms", {
   maxStudents: integer("max_students"),
   buildingId: varchar("building_id").references(() => buildingData.id, { onDelete: "cascade" }).notNull(),
   schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  // Secret in the URL of the room's QR code; rotating it invalidates printed codes
+  reportToken: varchar("report_token").unique(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -248,6 +427,7 @@ export const budgetCategories = pgTable("budget_categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   budget: integer("budget").notNull(),
+  // No longer maintained; actual spend is derived, see BUDGET ACTUALS
   spent: integer("spent").notNull().default(0),
   schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -301,6 +481,8 @@ export const maintenanceHistory = pgTable("maintenance_history", {
   completedDate: timestamp("completed_date"),
   cost: integer("cost"),
   investmentId: varchar("investment_id").references((): any => investments.id, { onDelete: "set null" }),
+  // Task whose completion created this entry
+  maintenanceId: varchar("maintenance_id").references((): any => maintenance.id, { onDelete: "set null" }),
   schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -332,6 +514,18 @@ export const investmentYears = pgTable("investment_years", {
   uniqueInvestmentYear: unique().on(table.investmentId, table.year)
 }));
 
+// Price Indexations table (yearly price increase for investment plans; set for a board or for one school)
+export const priceIndexations = pgTable("price_indexations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Hundredths of a percent per year, e.g. 250 = 2,5%
+  rate: integer("rate").notNull(),
+  // Year the entered amounts are priced in
+  baseYear: integer("base_year").notNull(),
+  boardId: varchar("board_id").references(() => boards.id, { onDelete: "cascade" }).unique(),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Year Plan Spreadsheet tables
 export const yearPlanColumns = pgTable("year_plan_columns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -399,9 +593,93 @@ export const insertMaintenanceSchema = createInsertSchema(maintenance).omit({
   createdAt: true,
 });
 
+export const insertMaintenanceScheduleSchema = createInsertSchema(maintenanceSchedules).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  startDate: z.union([
+    z.string().datetime().transform(str => new Date(str)),
+    z.date(),
+  ]),
+  endDate: z.union([
+    z.string().datetime().transform(str => new Date(str)),
+    z.date(),
+    z.null(),
+    z.undefined()
+  ]).optional().nullable(),
+  intervalCount: z.number().int().min(1).default(1),
+  leadTimeDays: z.number().int().min(0).default(30),
+});
+
+export const insertMaintenanceScheduleExceptionSchema = createInsertSchema(maintenanceScheduleExceptions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  occurrenceDate: z.union([
+    z.string().datetime().transform(str => new Date(str)),
+    z.date(),
+  ]),
+  shiftedDate: z.union([
+    z.string().datetime().transform(str => new Date(str)),
+    z.date(),
+    z.null(),
+    z.undefined()
+  ]).optional().nullable(),
+});
+
+export const insertMaintenanceChecklistItemSchema = createInsertSchema(maintenanceChecklistItems).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  completedAt: z.union([
+    z.string().datetime().transform(str => new Date(str)),
+    z.date(),
+    z.null(),
+    z.undefined()
+  ]).optional().nullable(),
+});
+
+export const insertSlaTargetSchema = createInsertSchema(slaTargets).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  responseHours: z.number().int().min(1).nullable().optional(),
+  resolveHours: z.number().int().min(1).nullable().optional(),
+});
+
+export const insertChecklistTemplateSchema = createInsertSchema(checklistTemplates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  items: z.array(z.string().min(1)).min(1),
+});
+
 export const insertAppointmentSchema = createInsertSchema(appointments).omit({
   id: true,
   createdAt: true,
+}).extend({
+  recurrenceInterval: z.number().int().min(1).default(1),
+  recurrenceCount: z.number().int().min(1).nullable().optional(),
+});
+
+export const insertAppointmentExceptionSchema = createInsertSchema(appointmentExceptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAppointmentParticipantSchema = createInsertSchema(appointmentParticipants).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSchoolHolidaySchema = createInsertSchema(schoolHolidays).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertContractSchema = createInsertSchema(contracts).omit({
@@ -419,6 +697,16 @@ export const insertReportCommentSchema = createInsertSchema(reportComments).omit
   createdAt: true,
 });
 
+export const insertReportEventSchema = createInsertSchema(reportEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertBuildingDataSchema = createInsertSchema(buildingData).omit({
   id: true,
   createdAt: true,
@@ -426,6 +714,7 @@ export const insertBuildingDataSchema = createInsertSchema(buildingData).omit({
 
 export const insertRoomSchema = createInsertSchema(rooms).omit({
   id: true,
+  reportToken: true,
   createdAt: true,
 });
 
@@ -506,6 +795,11 @@ export const insertInvestmentYearSchema = createInsertSchema(investmentYears).om
   createdAt: true,
 });
 
+export const insertPriceIndexationSchema = createInsertSchema(priceIndexations).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertYearPlanColumnSchema = createInsertSchema(yearPlanColumns).omit({
   id: true,
   createdAt: true,
@@ -557,9 +851,36 @@ export type School = typeof schools.$inferSelect;
 export type InsertMaintenance = z.infer<typeof insertMaintenanceSchema>;
 export type Maintenance = typeof maintenance.$inferSelect;
 
+export type InsertMaintenanceSchedule = z.infer<typeof insertMaintenanceScheduleSchema>;
+export type MaintenanceSchedule = typeof maintenanceSchedules.$inferSelect;
+
+export type InsertMaintenanceScheduleException = z.infer<typeof insertMaintenanceScheduleExceptionSchema>;
+export type MaintenanceScheduleException = typeof maintenanceScheduleExceptions.$inferSelect;
+
+export type InsertMaintenanceChecklistItem = z.infer<typeof insertMaintenanceChecklistItemSchema>;
+export type MaintenanceChecklistItem = typeof maintenanceChecklistItems.$inferSelect;
+
+export type InsertSlaTarget = z.infer<typeof insertSlaTargetSchema>;
+export type SlaTarget = typeof slaTargets.$inferSelect;
+
+export type InsertChecklistTemplate = z.infer<typeof insertChecklistTemplateSchema>;
+export type ChecklistTemplate = typeof checklistTemplates.$inferSelect;
+
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 
+export type InsertAppointmentException = z.infer<typeof insertAppointmentExceptionSchema>;
+export type AppointmentException = typeof appointmentExceptions.$inferSelect;
+
+export type InsertAppointmentParticipant = z.infer<typeof insertAppointmentParticipantSchema>;
+export type AppointmentParticipant = typeof appointmentParticipants.$inferSelect;
+
+export type InsertSchoolHoliday = z.infer<typeof insertSchoolHolidaySchema>;
+export type SchoolHoliday = typeof schoolHolidays.$inferSelect;
+
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+
 export type InsertContract = z.infer<typeof insertContractSchema>;
 export type Contract = typeof contracts.$inferSelect;
 
@@ -569,6 +890,12 @@ export type Report = typeof reports.$inferSelect;
 export type InsertReportComment = z.infer<typeof insertReportCommentSchema>;
 export type ReportComment = typeof reportComments.$inferSelect;
 
+export type InsertReportEvent = z.infer<typeof insertReportEventSchema>;
+export type ReportEvent = typeof reportEvents.$inferSelect;
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
 export type InsertBuildingData = z.infer<typeof insertBuildingDataSchema>;
 export type BuildingData = typeof buildingData.$inferSelect;
 
@@ -608,6 +935,9 @@ export type Investment = typeof investments.$inferSelect;
 export type InsertInvestmentYear = z.infer<typeof insertInvestmentYearSchema>;
 export type InvestmentYear = typeof investmentYears.$inferSelect;
 
+export type InsertPriceIndexation = z.infer<typeof insertPriceIndexationSchema>;
+export type PriceIndexation = typeof priceIndexations.$inferSelect;
+
 export type InsertYearPlanColumn = z.infer<typeof insertYearPlanColumnSchema>;
 export type YearPlanColumn = typeof yearPlanColumns.$inferSelect;
 
@@ -624,8 +954,357 @@ export type Quote = typeof quotes.$inferSelect;
 // by backend from user session. Prevents type mismatches in form handlers.
 
 export type ClientInsertMaintenance = Omit<InsertMaintenance, 'schoolId'>;
+export type ClientInsertMaintenanceSchedule = Omit<InsertMaintenanceSchedule, 'schoolId'>;
+export type ClientInsertMaintenanceScheduleException = Omit<InsertMaintenanceScheduleException, 'schoolId' | 'scheduleId'>;
+export type ClientInsertMaintenanceChecklistItem = Omit<InsertMaintenanceChecklistItem, 'schoolId' | 'maintenanceId'>;
+export type ClientInsertChecklistTemplate = Omit<InsertChecklistTemplate, 'schoolId'>;
+export type ClientInsertSlaTarget = Omit<InsertSlaTarget, 'schoolId'>;
+export type ClientInsertSchoolHoliday = Omit<InsertSchoolHoliday, 'schoolId'>;
 export type ClientInsertReport = Omit<InsertReport, 'schoolId'>;
 export type ClientInsertAppointment = Omit<InsertAppointment, 'schoolId'>;
 export type ClientInsertMaintenanceHistory = Omit<InsertMaintenanceHistory, 'schoolId'>;
 export type ClientInsertInvestment = Omit<InsertInvestment, 'schoolId'>;
 export type ClientInsertQuote = Omit<InsertQuote, 'schoolId'>;
+
+// ============================================================================
+// LEGACY ATTACHMENT MIGRATION
+// ============================================================================
+// POST /api/admin/migrate-legacy-attachments (admin only, triggered from the
+// admin page) is run once after deploying multiple attachments. For every maintenance task and report with
+// an attachmentUrl it creates a documents row (module "maintenance" or
+// "reports", entityId = task/report id, originalName = attachmentName or the
+// file name in the URL) pointing at the stored file, and clears attachmentUrl
+// and attachmentName in the same transaction. Rows already cleared are skipped,
+// so running it again is harmless.
+
+export interface LegacyAttachmentMigrationResult {
+  maintenance: number;
+  reports: number;
+}
+
+// ============================================================================
+// MAINTENANCE COMPLETION
+// ============================================================================
+// POST /api/maintenance/:id/complete completes a task in one transaction: it
+// applies taskUpdate (fields changed together with the status, e.g. in the
+// edit form), sets the status to completed and creates the maintenance history
+// entry linked to the task, with title, description and location of the task.
+// Returns the history entry. GET /api/maintenance includes the entries of each
+// completed task in completionHistory.
+
+export const maintenanceCompletionSchema = z.object({
+  completedDate: z.coerce.date(),
+  cost: z.number().int().min(0).optional(),
+  company: z.string().optional(),
+  investmentId: z.string().nullable(),
+  taskUpdate: insertMaintenanceSchema.omit({ schoolId: true }).partial().optional(),
+});
+
+export type MaintenanceCompletion = z.infer<typeof maintenanceCompletionSchema>;
+
+export type CompletionHistoryEntry = Pick<MaintenanceHistory, "id" | "cost" | "company" | "completedDate">;
+
+// ============================================================================
+// PUBLIC REPORT FORM (per-room QR code, no account)
+// ============================================================================
+// Validated on both sides; the backend resolves school and room from the token
+// and stores the report as pending with isPublic = true.
+
+export const publicReportSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(5000),
+  reporterName: z.string().trim().min(1).max(200),
+  reporterEmail: z.union([z.string().trim().email().max(320), z.literal("")]).optional(),
+});
+
+export type PublicReport = z.infer<typeof publicReportSchema>;
+
+// Room details shown on the public form for a valid token
+export interface PublicRoomInfo {
+  roomName: string;
+  buildingName: string;
+  schoolName: string;
+}
+
+// Public form link of a room, with the QR code rendered by the backend
+export interface RoomReportLink {
+  token: string;
+  url: string;
+  qrCodeDataUrl: string;
+}
+
+// ============================================================================
+// REPORT MERGE
+// ============================================================================
+// POST /api/reports/:id/merge merges the source reports into the report in the
+// URL in one transaction. The target keeps its own title, description,
+// location, building, room, installation, priority and status; a target
+// without task takes the task of the first source that has one. Comments (with
+// author and date), attachments (documents of module "reports") and change
+// history of the sources move to the target, which gets a "merged" event per
+// source with the source title as oldValue. The sources are then deleted.
+// Returns the target.
+
+export const reportMergeSchema = z.object({
+  sourceIds: z.array(z.string()).min(1),
+});
+
+export type ReportMerge = z.infer<typeof reportMergeSchema>;
+
+// ============================================================================
+// REPORTS TO TASK
+// ============================================================================
+// POST /api/maintenance/from-reports creates one task for several reports
+// (task) or uses an existing open task (maintenanceId). Every report is linked
+// to the task (maintenanceId) and set to in_progress, with a change event per
+// report. Returns the task.
+//
+// Completing a task, also through POST /api/maintenance/:id/complete, sets
+// every report linked to it to completed in the same transaction, with a change
+// event per report.
+
+export const reportsToTaskSchema = z.union([
+  z.object({
+    reportIds: z.array(z.string()).min(1),
+    task: insertMaintenanceSchema.pick({ title: true, description: true, location: true, priority: true }),
+  }),
+  z.object({
+    reportIds: z.array(z.string()).min(1),
+    maintenanceId: z.string(),
+  }),
+]);
+
+export type ReportsToTask = z.infer<typeof reportsToTaskSchema>;
+
+// ============================================================================
+// RECURRING APPOINTMENTS
+// ============================================================================
+// Edits and deletes of a recurring appointment name the occurrence they start
+// from (PATCH body / DELETE query string):
+// - "this": edits detach the occurrence into its own appointment (seriesId +
+//   occurrenceDate), deletes add an appointment exception
+// - "following": ends the series before the occurrence; edits start a new
+//   series from it
+// - "all": changes or deletes the series itself; edits shift the series start
+//   by as much as the occurrence was moved
+
+export const appointmentScopeSchema = z.enum(["this", "following", "all"]);
+
+export type AppointmentScope = z.infer<typeof appointmentScopeSchema>;
+
+// ============================================================================
+// CALENDAR FEED AND IMPORT
+// ============================================================================
+// The feed (GET /api/public/calendar/:token.ics) contains the appointments of
+// the school and, when enabled, maintenance due dates. Imported appointments
+// keep the UID of their event in externalUid. A series lists its appointment
+// exceptions in exdates; an occurrence edited on its own is written with the
+// UID of its series and its occurrenceDate as recurrenceId.
+//
+// POST /api/appointments/import creates the appointments of an .ics file. Per
+// series, exceptionDates (EXDATE and cancelled instances) become appointment
+// exceptions and occurrences (instances with RECURRENCE-ID) become detached
+// appointments with seriesId set to the new series and occurrenceDate to the
+// original start of the instance, so a round trip through the feed keeps them.
+// Series whose externalUid already exists are skipped with their occurrences.
+
+export const appointmentImportSchema = z.object({
+  appointments: z.array(insertAppointmentSchema.omit({ schoolId: true }).extend({
+    exceptionDates: z.array(z.coerce.date()).default([]),
+    occurrences: z.array(insertAppointmentSchema.omit({ schoolId: true, seriesId: true })).default([]),
+  })),
+});
+
+export type AppointmentImport = z.infer<typeof appointmentImportSchema>;
+export type ImportedAppointment = AppointmentImport["appointments"][number];
+
+// Feed URL of the current user for the active school
+export interface CalendarFeedLink {
+  url: string;
+  includeMaintenance: boolean;
+  createdAt: string;
+}
+
+export interface AppointmentImportResult {
+  imported: number;
+  // UIDs that already existed for this school
+  skipped: number;
+}
+
+// ============================================================================
+// APPOINTMENT PARTICIPANTS
+// ============================================================================
+// Participants are sent along with the appointment (POST/PATCH
+// /api/appointments) and, when present, replace the existing ones;
+// GET /api/appointments returns them per appointment. Occurrences detached by a scoped edit and new
+// series started from one copy the participants of their series.
+
+export const appointmentParticipantInputSchema = z.object({
+  contactId: z.string().nullable(),
+  userId: z.string().nullable(),
+}).refine(participant => !!participant.contactId !== !!participant.userId);
+
+export type AppointmentParticipantInput = z.infer<typeof appointmentParticipantInputSchema>;
+
+// ============================================================================
+// SCHOOL HOLIDAYS
+// ============================================================================
+// POST /api/school-holidays/import adds the holidays of a region for one
+// school year (August to July) from the national schedule published by the
+// government. Periods that already exist (same name and start) are skipped.
+
+export const schoolHolidayImportSchema = z.object({
+  region: z.enum(holidayRegionEnum.enumValues),
+  // First calendar year of the school year, e.g. 2026 for 2026-2027
+  schoolYear: z.number().int(),
+});
+
+export type SchoolHolidayImport = z.infer<typeof schoolHolidayImportSchema>;
+
+export interface SchoolHolidayImportResult {
+  imported: number;
+  skipped: number;
+}
+
+// ============================================================================
+// BUDGET ACTUALS
+// ============================================================================
+// GET /api/analytics/budget-actuals?startYear=&endYear= returns one row per
+// budget category and year. Budget categories are matched on name against the
+// category of history entries and quotes; records without category count as
+// "overig". All amounts are in cents.
+// - budget: budget of the category (the same for every year)
+// - committed: accepted quotes, by quote date, whose investment has no
+//   history entry yet
+// - actual: cost of maintenance history entries, by completed date
+//
+// GET /api/analytics/budget-actuals/records?category=&startYear=&endYear=
+// returns the quotes and history entries behind those amounts.
+
+export interface BudgetActual {
+  category: string;
+  year: number;
+  budget: number;
+  committed: number;
+  actual: number;
+}
+
+export interface BudgetActualRecord {
+  kind: "history" | "quote";
+  id: string;
+  title: string;
+  date: string | null;
+  amount: number;
+  // Company of a history entry, vendor of a quote
+  party: string | null;
+  investmentId: string | null;
+}
+
+// ============================================================================
+// QUOTE AWARD
+// ============================================================================
+// POST /api/investments/:id/award marks the given quote accepted and the other
+// quotes of the investment rejected. An investment still "afwachting" moves to
+// "voorbereiding"; later statuses are kept. Returns the updated investment.
+
+export const quoteAwardSchema = z.object({
+  quoteId: z.string(),
+});
+
+export type QuoteAward = z.infer<typeof quoteAwardSchema>;
+
+// ============================================================================
+// INVESTMENT YEARS
+// ============================================================================
+// PUT /api/investments/:id/years/:year sets the budgeted amount of one year,
+// e.g. to confirm or override a projected year of a cyclic investment (see
+// investment-projection.ts). Returns the investment year. GET /api/investments
+// returns all years of an investment, also outside the requested range, so
+// projections can start from the first entered year.
+
+export const investmentYearAmountSchema = z.object({
+  amount: z.number().int().min(0),
+});
+
+export type InvestmentYearAmount = z.infer<typeof investmentYearAmountSchema>;
+
+// ============================================================================
+// PRICE INDEXATION
+// ============================================================================
+// GET /api/price-indexation returns the indexation that applies to the active
+// school: its own setting, otherwise the one of its board, otherwise null.
+// PUT /api/price-indexation stores it for the school or, for admins, for the
+// whole board. The investment analytics endpoints
+// (/api/analytics/investments-summary and -total) accept indexed=true to
+// return indexed amounts, calculated as in indexation.ts.
+
+export const priceIndexationInputSchema = z.object({
+  rate: z.number().int().min(0),
+  baseYear: z.number().int(),
+  scope: z.enum(["school", "board"]),
+});
+
+export type PriceIndexationInput = z.infer<typeof priceIndexationInputSchema>;
+
+export interface PriceIndexationSetting {
+  rate: number;
+  baseYear: number;
+  scope: "school" | "board";
+}
+
+// ============================================================================
+// INVESTMENT PLAN EXPORT
+// ============================================================================
+// GET /api/investments/export?startYear=&endYear= returns the multi-year
+// investment plan as an .xlsx file, with the same optional filters as the
+// investments table: category, status, indexed=true (indexed prices, see
+// indexation.ts) and projectionUntilYear (cyclic projections, see
+// investment-projection.ts).
+//
+// One row per investment with the columns Systeem, Planregel, Type, Status,
+// Categorie and Cyclus, one column per year, then Offertes (number of
+// quotes), Laagste offerte and Gegunde offerte. The last row holds the totals
+// per year, with "Totaal" in the Systeem column so the import skips it.
+// Labels match the screen (e.g. "Wens school", "Voorbereiding", "Elke 8
+// jaar"); amounts are numeric cells formatted as € #.##0,00 and projected
+// amounts are italic.
+
+export interface InvestmentExportOptions {
+  startYear: number;
+  endYear: number;
+  category?: string;
+  status?: string;
+  indexed?: boolean;
+  projectionUntilYear?: number;
+}
+
+// ============================================================================
+// INVESTMENT PLAN IMPORT
+// ============================================================================
+// CSV files are read in the browser (csv.ts). Excel files are sent to
+// POST /api/spreadsheets/parse (multipart, field "file"), which returns the
+// cells of the first sheet as displayed text.
+//
+// POST /api/investments/import { investments } creates or updates investments.
+// An existing investment of the school matches on its title, or, when the title
+// starts with a code (e.g. "2.1.4 Dakbedekking"), on that code, so a re-import
+// of a renamed line updates it. Imported years replace the amounts of those
+// years; other years are kept.
+
+export interface SpreadsheetParseResult {
+  rows: string[][];
+}
+
+export const investmentImportRowSchema = insertInvestmentSchema.omit({ schoolId: true }).extend({
+  years: z.array(z.object({
+    year: z.number().int(),
+    amount: z.number().int().min(0),
+  })),
+});
+
+export type InvestmentImportRow = z.infer<typeof investmentImportRowSchema>;
+
+export interface InvestmentImportResult {
+  created: number;
+  updated: number;
+}
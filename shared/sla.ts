@@ -0,0 +1,100 @@
+/**
+ * SLA helpers for reports and maintenance tasks
+ * Shared between frontend (deadlines and overdue badges) and backend (escalation)
+ */
+
+export type SlaPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface SlaTargetHours {
+  // Hours until work should have started (status leaves "pending")
+  responseHours: number | null;
+  // Hours until the item should be completed
+  resolveHours: number | null;
+}
+
+export type SlaTargets = Record<SlaPriority, SlaTargetHours>;
+
+export interface SlaItem {
+  priority: string;
+  status: string;
+  createdAt: Date | string | null;
+  // An explicit due date on a task takes precedence over the resolve target
+  dueDate?: Date | string | null;
+}
+
+export interface SlaState {
+  responseDeadline: Date | null;
+  resolveDeadline: Date | null;
+  responseOverdue: boolean;
+  resolveOverdue: boolean;
+  overdue: boolean;
+}
+
+export const SLA_PRIORITIES: SlaPriority[] = ['critical', 'high', 'medium', 'low'];
+
+// Used for priorities a school has not configured
+export const DEFAULT_SLA_TARGETS: SlaTargets = {
+  critical: { responseHours: 4, resolveHours: 24 },
+  high: { responseHours: 24, resolveHours: 72 },
+  medium: { responseHours: 72, resolveHours: 14 * 24 },
+  low: { responseHours: 7 * 24, resolveHours: 30 * 24 },
+};
+
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const addHours = (date: Date, hours: number | null) =>
+  hours === null ? null : new Date(date.getTime() + hours * HOUR_MS);
+
+// Merges configured rows (one per priority) over the defaults
+export function resolveSlaTargets(
+  rows: Array<{ priority: string } & SlaTargetHours>,
+): SlaTargets {
+  const targets: SlaTargets = { ...DEFAULT_SLA_TARGETS };
+  for (const row of rows) {
+    if (row.priority in targets) {
+      targets[row.priority as SlaPriority] = {
+        responseHours: row.responseHours,
+        resolveHours: row.resolveHours,
+      };
+    }
+  }
+  return targets;
+}
+
+// Computes deadlines in calendar hours from creation; closed items are never overdue
+export function getSlaState(item: SlaItem, targets: SlaTargets, now: Date = new Date()): SlaState {
+  const target = targets[item.priority as SlaPriority];
+  const createdAt = item.createdAt ? new Date(item.createdAt) : null;
+
+  const responseDeadline = target && createdAt ? addHours(createdAt, target.responseHours) : null;
+  const resolveDeadline = item.dueDate
+    ? new Date(item.dueDate)
+    : target && createdAt ? addHours(createdAt, target.resolveHours) : null;
+
+  const isOpen = !CLOSED_STATUSES.includes(item.status);
+  const responseOverdue = isOpen && item.status === 'pending' && !!responseDeadline && now > responseDeadline;
+  const resolveOverdue = isOpen && !!resolveDeadline && now > resolveDeadline;
+
+  return {
+    responseDeadline,
+    resolveDeadline,
+    responseOverdue,
+    resolveOverdue,
+    overdue: responseOverdue || resolveOverdue,
+  };
+}
+
+export function countOverdue(items: SlaItem[], targets: SlaTargets, now: Date = new Date()): number {
+  return items.filter(item => getSlaState(item, targets, now).overdue).length;
+}
+
+export function formatSlaHours(hours: number | null): string {
+  if (hours === null) return 'Geen';
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return days === 1 ? '1 dag' : `${days} dagen`;
+  }
+  return hours === 1 ? '1 uur' : `${hours} uur`;
+}